@@ -0,0 +1,9 @@
+export interface MockLeaderboardServer {
+  /** Base URL, e.g. http://127.0.0.1:54321 */
+  url: string;
+  /** Makes the next `count` requests answer 503 */
+  failNextRequests(count: number): void;
+  close(): Promise<void>;
+}
+
+export function startMockLeaderboardServer(options?: { port?: number }): Promise<MockLeaderboardServer>;
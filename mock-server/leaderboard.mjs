@@ -0,0 +1,156 @@
+/**
+ * Mock leaderboard server
+ * Responsibility: In-memory implementation of the online leaderboard API used by
+ * HttpLeaderboardService, so the client can be developed and tested fully offline.
+ *
+ *   node mock-server/leaderboard.mjs [port]   (default 8787)
+ *
+ * then open the game with ?leaderboard=http://localhost:8787
+ */
+import { createServer } from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+const DEFAULT_PORT = 8787;
+const MAX_LIMIT = 100;
+const MAX_BODY_BYTES = 1024 * 1024; // Replays included
+
+/**
+ * Starts a server with an empty leaderboard.
+ * @param {{ port?: number }} [options] Port 0 (the default) picks a free one
+ */
+export async function startMockLeaderboardServer({ port = 0 } = {}) {
+  const runs = [];
+  let failuresLeft = 0;
+
+  const server = createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    // Simulated outage for retry / offline queue tests
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      return send(res, 503, { error: 'Service unavailable' });
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    try {
+      if (req.method === 'POST' && url.pathname === '/runs') {
+        const run = parseRun(await readBody(req));
+        if (!run) return send(res, 400, { error: 'Malformed run' });
+        runs.push(run);
+        const rank = board(runs, run.levelId, run.mode).indexOf(run) + 1;
+        return send(res, 201, { rank });
+      }
+
+      if (req.method === 'GET' && url.pathname === '/scores') {
+        const limit = clampInt(url.searchParams.get('limit'), 10, 1, MAX_LIMIT);
+        const scores = ranked(board(runs, url.searchParams.get('level'), url.searchParams.get('mode')));
+        return send(res, 200, { scores: scores.slice(0, limit) });
+      }
+
+      if (req.method === 'GET' && url.pathname === '/scores/around') {
+        const range = clampInt(url.searchParams.get('range'), 2, 0, MAX_LIMIT);
+        const scores = ranked(board(runs, url.searchParams.get('level'), url.searchParams.get('mode')));
+        const mine = scores.findIndex(score => score.name === url.searchParams.get('name'));
+        if (mine < 0) return send(res, 200, { scores: [] });
+        return send(res, 200, { scores: scores.slice(Math.max(0, mine - range), mine + range + 1) });
+      }
+
+      send(res, 404, { error: 'Not found' });
+    } catch (error) {
+      send(res, 400, { error: String(error?.message ?? error) });
+    }
+  });
+
+  await new Promise(resolve => server.listen(port, '127.0.0.1', resolve));
+  const { port: boundPort } = server.address();
+
+  return {
+    url: `http://127.0.0.1:${boundPort}`,
+    /** Makes the next `count` requests answer 503 */
+    failNextRequests(count) {
+      failuresLeft = count;
+    },
+    close() {
+      return new Promise(resolve => {
+        server.closeAllConnections?.();
+        server.close(() => resolve());
+      });
+    }
+  };
+}
+
+/** Runs on a level, best first; `mode` null/empty merges every mode */
+function board(runs, levelId, mode) {
+  return runs
+    .filter(run => run.levelId === levelId && (!mode || run.mode === mode))
+    .sort((a, b) => b.score - a.score || a.time - b.time || a.date - b.date);
+}
+
+function ranked(runs) {
+  // Replays stay on the server; score lists only carry the entry
+  return runs.map(({ replay: _replay, ...run }, i) => ({ ...run, rank: i + 1 }));
+}
+
+function parseRun(value) {
+  const isNumber = v => typeof v === 'number' && Number.isFinite(v);
+  if (typeof value?.name !== 'string' || typeof value.levelId !== 'string'
+    || (value.mode !== 'quick' && value.mode !== 'campaign')
+    || !isNumber(value.score) || !isNumber(value.time) || !isNumber(value.seed) || !isNumber(value.date)) {
+    return null;
+  }
+  return {
+    name: value.name.slice(0, 16),
+    levelId: value.levelId,
+    mode: value.mode,
+    score: value.score,
+    time: value.time,
+    won: value.won === true,
+    seed: value.seed,
+    date: value.date,
+    replay: typeof value.replay === 'string' ? value.replay : undefined
+  };
+}
+
+function clampInt(raw, fallback, min, max) {
+  const value = Number.parseInt(raw ?? '', 10);
+  return Number.isNaN(value) ? fallback : Math.min(max, Math.max(min, value));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) reject(new Error('Body too large'));
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        reject(new Error('Body is not JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res, status, body) {
+  if (body === undefined) {
+    res.writeHead(status);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Run directly: serve until stopped
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.argv[2]) || DEFAULT_PORT;
+  const server = await startMockLeaderboardServer({ port });
+  console.log(`🏆 Mock leaderboard listening on ${server.url}`);
+}
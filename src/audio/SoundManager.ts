@@ -1,9 +1,14 @@
+import { RandomSource, SeededRandom } from '../core/Random';
+
 export class SoundManager {
   private audioContext: AudioContext;
   private isMuted: boolean = false;
   private masterGain: GainNode;
+  private random: RandomSource;
+
+  constructor(random: RandomSource = new SeededRandom()) {
+    this.random = random;
 
-  constructor() {
     // 1. Initialize Context (Cross-browser compatibility)
     const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
     this.audioContext = new AudioContextClass();
@@ -25,6 +30,10 @@ export class SoundManager {
     }
   }
 
+  public setRandom(random: RandomSource): void {
+    this.random = random;
+  }
+
   /**
    * Sound: "Ding"
    * Context: Collecting a ring
@@ -43,7 +52,7 @@ export class SoundManager {
     osc.type = 'sine'; // Pure tone
     
     // Pitch Variation: 880Hz (A5) +/- 10%
-    const variance = 0.9 + Math.random() * 0.2;
+    const variance = 0.9 + this.random.next() * 0.2;
     osc.frequency.setValueAtTime(880 * variance, t);
 
     // Envelope (ADSR-lite)
@@ -122,8 +131,117 @@ export class SoundManager {
     osc.stop(t + 0.6);
   }
 
+  /**
+   * Sound: "Boing"
+   * Context: Hitting a bumper
+   */
+  public playBump(): void {
+    if (this.isMuted) return;
+
+    const t = this.audioContext.currentTime;
+    const osc = this.audioContext.createOscillator();
+    const gain = this.audioContext.createGain();
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+
+    osc.type = 'square';
+    // Pitch Drop: 300Hz -> 120Hz (+/- 10%)
+    const variance = 0.9 + this.random.next() * 0.2;
+    osc.frequency.setValueAtTime(300 * variance, t);
+    osc.frequency.exponentialRampToValueAtTime(120 * variance, t + 0.12);
+
+    gain.gain.setValueAtTime(0.4, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.15);
+
+    osc.start(t);
+    osc.stop(t + 0.2);
+  }
+
+  /**
+   * Sound: "Whoosh Up"
+   * Context: Rolling over a boost pad
+   */
+  public playBoost(): void {
+    if (this.isMuted) return;
+
+    const t = this.audioContext.currentTime;
+    const osc = this.audioContext.createOscillator();
+    const gain = this.audioContext.createGain();
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+
+    osc.type = 'sine';
+    // Pitch Rise: 440Hz -> 1320Hz
+    osc.frequency.setValueAtTime(440, t);
+    osc.frequency.exponentialRampToValueAtTime(1320, t + 0.2);
+
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.linearRampToValueAtTime(0.5, t + 0.03);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.25);
+
+    osc.start(t);
+    osc.stop(t + 0.3);
+  }
+
+  /**
+   * Sound: "Squelch"
+   * Context: Entering a sticky zone
+   */
+  public playSquelch(): void {
+    if (this.isMuted) return;
+
+    const t = this.audioContext.currentTime;
+    this.playNote(110, t, 0.25, 'sawtooth');
+  }
+
+  /**
+   * Sound: "Wrong Buzz"
+   * Context: Touching a decoy ring
+   */
+  public playDecoy(): void {
+    if (this.isMuted) return;
+
+    const t = this.audioContext.currentTime;
+    // Two low, dissonant square notes
+    this.playNote(155.56, t, 0.18, 'square');        // Eb3
+    this.playNote(146.83, t + 0.12, 0.25, 'square'); // D3
+  }
+
+  /**
+   * Sound: "Falling Whistle"
+   * Context: Dropping into a pit
+   */
+  public playFall(): void {
+    if (this.isMuted) return;
+
+    const t = this.audioContext.currentTime;
+    const osc = this.audioContext.createOscillator();
+    const gain = this.audioContext.createGain();
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+
+    osc.type = 'triangle';
+    // Pitch Slide: 1000Hz -> 150Hz over most of a second
+    osc.frequency.setValueAtTime(1000, t);
+    osc.frequency.exponentialRampToValueAtTime(150, t + 0.7);
+
+    gain.gain.setValueAtTime(0.5, t);
+    gain.gain.linearRampToValueAtTime(0, t + 0.75);
+
+    osc.start(t);
+    osc.stop(t + 0.8);
+  }
+
   public toggleMute(): void {
-    this.isMuted = !this.isMuted;
+    this.setMuted(!this.isMuted);
+  }
+
+  public setMuted(muted: boolean): void {
+    if (muted === this.isMuted) return;
+    this.isMuted = muted;
     // Set master volume to 0 or restore to 0.3
     this.masterGain.gain.setTargetAtTime(this.isMuted ? 0 : 0.3, this.audioContext.currentTime, 0.1);
     console.log(`Sound: ${this.isMuted ? 'MUTED' : 'UNMUTED'}`);
@@ -0,0 +1,45 @@
+import { LevelDefinition } from './types';
+
+/**
+ * Campaign
+ * Responsibility: Ordering and rules of the level sequence (stars, what unlocks next).
+ * Stateless: persistence of best scores/stars/unlocks lives in GameStateManager.
+ */
+export class Campaign {
+  private levels: LevelDefinition[];
+
+  constructor(levels: LevelDefinition[]) {
+    if (levels.length === 0) throw new Error('Campaign needs at least one level');
+    this.levels = levels;
+  }
+
+  public getLevels(): LevelDefinition[] {
+    return this.levels;
+  }
+
+  public getFirstLevel(): LevelDefinition {
+    return this.levels[0];
+  }
+
+  public hasLevel(levelId: string): boolean {
+    return this.levels.some(level => level.id === levelId);
+  }
+
+  /**
+   * The level after `levelId` in campaign order, or null at the end / for non-campaign levels.
+   */
+  public getNextLevel(levelId: string): LevelDefinition | null {
+    const index = this.levels.findIndex(level => level.id === levelId);
+    if (index === -1 || index === this.levels.length - 1) return null;
+    return this.levels[index + 1];
+  }
+
+  /**
+   * Stars for a finished run: one per score threshold reached (0-3).
+   * Losing a level never earns stars, whatever the score.
+   */
+  public static computeStars(level: LevelDefinition, score: number, won: boolean): number {
+    if (!won) return 0;
+    return level.stars.filter(threshold => score >= threshold).length;
+  }
+}
@@ -1,22 +1,56 @@
-import { InputState, TelemetryEvent } from './types';
-import * as THREE from 'three';
+import { InputMode, InputState, TelemetryEventName } from './types';
+import { TiltInputMode } from './Settings';
+import { SampleListener, TiltSample } from '../input/InputSource';
+import { InputCoordinator } from '../input/InputCoordinator';
+import { GyroInputSource } from '../input/GyroInputSource';
+import { KeyboardInputSource } from '../input/KeyboardInputSource';
+import { GamepadInputSource } from '../input/GamepadInputSource';
+import { PointerInputSource, PointerStick } from '../input/PointerInputSource';
+import { Telemetry } from '../telemetry/Telemetry';
 
 export class DeviceInputManager {
   public state: InputState;
-  private onGravityUpdate: (beta: number, gamma: number) => void;
-  // Callback reference for internal use
-  private callback: (beta: number, gamma: number) => void;
+  private onGravityUpdate: SampleListener;
+  private telemetry: Telemetry | null;
+  private onInputModeChange?: (mode: InputMode) => void;
+  private onJoystickNeeded?: (needed: boolean) => void;
+  private onDebugModeChange?: (enabled: boolean) => void;
 
-  constructor(gravityCallback: (beta: number, gamma: number) => void) {
+  // Every steering device is an InputSource; whichever was used last steers
+  private coordinator: InputCoordinator;
+  private gyro = new GyroInputSource();
+  private keyboard = new KeyboardInputSource();
+  private gamepad = new GamepadInputSource();
+  private pointer: PointerInputSource | null = null;
+
+  // On-screen joystick: used when there are no sensors, or when the player prefers it
+  private joystickPreferred = false;
+  private joystickSensitivity = 1;
+
+  // Handlers owned by the manager itself (debug/reset keys, fallback timer)
+  private controller = new AbortController();
+  private fallbackTimer: ReturnType<typeof setTimeout> | null = null;
+  private permissionRequest: Promise<boolean> | null = null;
+
+  constructor(gravityCallback: SampleListener, telemetry: Telemetry | null = null) {
     this.onGravityUpdate = gravityCallback;
-    this.callback = gravityCallback; // Alias for easier access
+    this.telemetry = telemetry;
     this.state = {
       isSupported: false,
       permissionGranted: false,
       usingFallback: false,
       debugMode: false,
+      inputMode: 'tilt',
     };
 
+    this.coordinator = new InputCoordinator((sample) => this.onGravityUpdate(sample), this.state.inputMode);
+    this.coordinator.setModeChangeCallback((mode) => {
+      this.state.inputMode = mode;
+      if (this.onInputModeChange) this.onInputModeChange(mode);
+    });
+    this.coordinator.use(this.keyboard);
+    this.coordinator.use(this.gamepad);
+
     this.detectCapabilities();
     this.setupKeyboardControls();
   }
@@ -24,34 +58,141 @@ export class DeviceInputManager {
   private detectCapabilities() {
     if (window.DeviceOrientationEvent !== undefined) {
       this.state.isSupported = true;
-      setTimeout(() => {
-        // If no permission granted & no fallback active after 1s, force fallback
-        if (!this.state.permissionGranted && !this.state.usingFallback) {
-          console.log("No orientation data detected. Activating Touch/Mouse Fallback.");
-          this.enableMouseFallback();
-        }
-      }, 1000);
+      this.scheduleSensorCheck();
     } else {
       this.logTelemetry('UNSUPPORTED_DEVICE');
       this.enableMouseFallback();
     }
   }
 
+  /**
+   * A second from now, steer with what the sensor actually delivered: tilt if readings
+   * arrived, otherwise the joystick (desktops expose the API but never fire it).
+   */
+  private scheduleSensorCheck() {
+    if (this.fallbackTimer !== null) clearTimeout(this.fallbackTimer);
+    this.fallbackTimer = setTimeout(() => {
+      this.fallbackTimer = null;
+      if (this.gyro.getLastReading()) {
+        this.disableMouseFallback();
+      } else if (!this.state.usingFallback) {
+        console.log("No orientation data detected. Activating Touch/Mouse Fallback.");
+        this.enableMouseFallback();
+      }
+    }, 1000);
+  }
+
+  /** Non-steering keys; steering keys belong to the KeyboardInputSource */
   private setupKeyboardControls() {
     window.addEventListener('keydown', (e) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
       if (e.code === 'Space') this.reset();
-      if (e.code === 'KeyD') {
+      if (e.code === 'Backquote') { // Not D: that steers now
         this.state.debugMode = !this.state.debugMode;
         console.log(`Debug Mode: ${this.state.debugMode}`);
+        if (this.onDebugModeChange) this.onDebugModeChange(this.state.debugMode);
       }
-    });
+    }, { signal: this.controller.signal });
+  }
+
+  /** Per-frame work for the devices without useful events (gamepad polling, keyboard ramp) */
+  public update(dtSeconds: number): void {
+    this.coordinator.update(dtSeconds);
+  }
+
+  public setInputModeCallback(callback: (mode: InputMode) => void): void {
+    this.onInputModeChange = callback;
+  }
+
+  /** Backquote toggles the debug overlay */
+  public setDebugModeCallback(callback: (enabled: boolean) => void): void {
+    this.onDebugModeChange = callback;
+  }
+
+  /** The sample that last reached the gravity callback, from whichever source steers */
+  public getLastSample(): TiltSample | null {
+    return this.coordinator.getLastSample();
+  }
+
+  /** Latest motion sensor reading, even while another device steers (null: no sensor data yet) */
+  public getLastOrientation(): TiltSample | null {
+    return this.gyro.getLastReading();
+  }
+
+  /** Gamepad Start */
+  public setGamepadPauseCallback(callback: () => void): void {
+    this.gamepad.setPauseCallback(callback);
+  }
+
+  /** Gamepad Back / Select */
+  public setGamepadRestartCallback(callback: () => void): void {
+    this.gamepad.setRestartCallback(callback);
   }
 
   public reset() {
-    this.onGravityUpdate(0, 0);
+    this.keyboard.reset();
+    // Sensor tilt is absolute: its next reading would override a reset anyway
+    const mode = this.state.inputMode;
+    if (mode !== 'tilt') {
+      this.onGravityUpdate({ beta: 0, gamma: 0, source: mode, timestamp: performance.now(), engaged: false });
+    }
+  }
+
+  /** 'quaternion' projects real gravity onto the screen (no gimbal lock near upright) */
+  public setTiltMode(mode: TiltInputMode): void {
+    this.gyro.setTiltMode(mode);
+  }
+
+  /** Connects the on-screen joystick; attaching another one swaps it in place */
+  public attachJoystick(stick: PointerStick): void {
+    this.pointer = new PointerInputSource(stick);
+    this.pointer.setSensitivity(this.joystickSensitivity);
+    this.coordinator.use(this.pointer);
+  }
+
+  /** Steering setting 'joystick': the gyro is stopped and the joystick is shown */
+  public setJoystickPreferred(preferred: boolean): void {
+    if (preferred === this.joystickPreferred) return;
+    this.joystickPreferred = preferred;
+    if (preferred) {
+      this.coordinator.remove('tilt');
+      if (this.state.inputMode === 'tilt') this.coordinator.setActiveMode('touch');
+    } else if (this.state.permissionGranted) {
+      this.coordinator.use(this.gyro);
+    }
+    this.notifyJoystickNeeded();
+  }
+
+  public setJoystickSensitivity(sensitivity: number): void {
+    this.joystickSensitivity = sensitivity;
+    this.pointer?.setSensitivity(sensitivity);
+  }
+
+  public isJoystickNeeded(): boolean {
+    return this.state.usingFallback || this.joystickPreferred;
+  }
+
+  /** Called when the on-screen joystick should appear or disappear */
+  public setJoystickCallback(callback: (needed: boolean) => void): void {
+    this.onJoystickNeeded = callback;
+  }
+
+  private notifyJoystickNeeded(): void {
+    if (this.onJoystickNeeded) this.onJoystickNeeded(this.isJoystickNeeded());
+  }
+
+  /**
+   * Starts the motion sensor, asking for access where the browser requires it.
+   * Call from a user gesture (iOS refuses otherwise); only the first call asks, later
+   * calls share its answer.
+   */
+  public requestPermission(): Promise<boolean> {
+    if (!this.permissionRequest) this.permissionRequest = this.askPermission();
+    return this.permissionRequest;
   }
 
-  public async requestPermission(): Promise<boolean> {
+  private async askPermission(): Promise<boolean> {
+    if (!this.state.isSupported) return false;
     if (typeof (DeviceOrientationEvent as any).requestPermission !== 'function') {
       this.state.permissionGranted = true;
       this.startListening();
@@ -75,96 +216,29 @@ export class DeviceInputManager {
     }
   }
 
+  /** Safe to call repeatedly: the coordinator never starts the same source twice */
   private startListening() {
-    window.addEventListener('deviceorientation', (event) => {
-      if (event.beta === null || event.gamma === null) return;
-      this.onGravityUpdate(event.beta, event.gamma);
-    });
+    if (!this.joystickPreferred) this.coordinator.use(this.gyro);
+    this.scheduleSensorCheck();
   }
 
-  // FIX 1: Enhanced Touch/Mouse Fallback
+  // No sensor data: steer with the on-screen joystick instead
   private enableMouseFallback(): void {
+    if (this.state.usingFallback) return;
     console.log('[Input] Using Mouse/Touch Fallback');
     this.state.usingFallback = true;
+    if (this.state.inputMode === 'tilt') this.coordinator.setActiveMode('touch');
     this.logTelemetry('FALLBACK_TRIGGERED');
-
-    let isDragging = false;
-    let startX = 0;
-    let startY = 0;
-    let currentX = 0;
-    let currentY = 0;
-
-    // --- Mouse Events ---
-    window.addEventListener('mousedown', (e) => {
-      isDragging = true;
-      startX = e.clientX;
-      startY = e.clientY;
-      currentX = e.clientX;
-      currentY = e.clientY;
-    });
-
-    window.addEventListener('mousemove', (e) => {
-      if (!isDragging) return;
-      currentX = e.clientX;
-      currentY = e.clientY;
-      this.updateFromInputPosition(currentX, currentY, startX, startY);
-    });
-
-    window.addEventListener('mouseup', () => {
-      isDragging = false;
-      this.callback(0, 0); // Reset to neutral on release
-    });
-
-    // --- Touch Events ---
-    window.addEventListener('touchstart', (e) => {
-      e.preventDefault(); // Critical: Prevent scrolling
-      const touch = e.touches[0];
-      isDragging = true;
-      startX = touch.clientX;
-      startY = touch.clientY;
-      currentX = touch.clientX;
-      currentY = touch.clientY;
-    }, { passive: false });
-
-    window.addEventListener('touchmove', (e) => {
-      e.preventDefault(); // Critical: Prevent scrolling
-      if (!isDragging) return;
-      const touch = e.touches[0];
-      currentX = touch.clientX;
-      currentY = touch.clientY;
-      this.updateFromInputPosition(currentX, currentY, startX, startY);
-    }, { passive: false });
-
-    window.addEventListener('touchend', () => {
-      isDragging = false;
-      this.callback(0, 0); // Reset to neutral
-    });
-
-    window.addEventListener('touchcancel', () => {
-      isDragging = false;
-      this.callback(0, 0);
-    });
+    this.notifyJoystickNeeded();
   }
 
-  private updateFromInputPosition(currentX: number, currentY: number, startX: number, startY: number): void {
-    // Calculate offset from start position (Virtual Joystick logic)
-    const deltaX = currentX - startX;
-    const deltaY = currentY - startY;
-    
-    // Sensitivity Tuning
-    const SENSITIVITY = 0.3; 
-    
-    // Convert to degrees
-    // Note: Y-Axis inversion logic from previous fix
-    // Drag Down (+Y) -> Tilt Back (+Beta) -> Force Forward (-Z)
-    // Actually, wait. Let's stick to the "Drag Object" metaphor?
-    // If I drag DOWN, I want the ball to come TOWARDS me (Positive Z Force).
-    // Positive Z Force comes from Negative Beta (Tilt Forward/Down).
-    // So: Drag Down (+Y) -> Negative Beta.
-    const beta = THREE.MathUtils.clamp(-deltaY * SENSITIVITY, -45, 45);
-    const gamma = THREE.MathUtils.clamp(deltaX * SENSITIVITY, -45, 45);
-    
-    this.callback(beta, gamma);
+  // Sensor data arrived after the fallback kicked in (e.g. access granted on the first tap)
+  private disableMouseFallback(): void {
+    if (!this.state.usingFallback) return;
+    console.log('[Input] Orientation data detected, leaving Mouse/Touch Fallback');
+    this.state.usingFallback = false;
+    if (this.state.inputMode === 'touch' && !this.joystickPreferred) this.coordinator.setActiveMode('tilt');
+    this.notifyJoystickNeeded();
   }
 
   private handleDenial() {
@@ -173,7 +247,16 @@ export class DeviceInputManager {
     this.enableMouseFallback();
   }
 
-  private logTelemetry(event: TelemetryEvent['event']) {
-    console.warn(`[TELEMETRY]: ${event} at ${Date.now()}`);
+  /** Removes every handler the manager and its sources added */
+  public dispose(): void {
+    this.controller.abort();
+    if (this.fallbackTimer !== null) clearTimeout(this.fallbackTimer);
+    this.fallbackTimer = null;
+    this.coordinator.dispose();
+  }
+
+  private logTelemetry(event: TelemetryEventName) {
+    if (this.telemetry) this.telemetry.track(event);
+    else console.warn(`[TELEMETRY]: ${event} at ${Date.now()}`);
   }
-}
\ No newline at end of file
+}
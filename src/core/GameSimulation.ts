@@ -0,0 +1,235 @@
+import * as THREE from 'three';
+import { PhysicsWorld } from './PhysicsWorld';
+import { GoalSystem } from './GoalSystem';
+import { GameStateManager, GameState, GoalOutcome } from './GameStateManager';
+import { CollisionDetector } from './CollisionDetector';
+import { LevelLoader } from './LevelLoader';
+import { HazardEvent, HazardSystem } from './HazardSystem';
+import { SeededRandom } from './Random';
+import { RunStats, RunStatsCollector } from './RunStats';
+import { SpawnPolicy } from './SpawnPolicy';
+import { KeyValueStorage, MemoryStorage } from './Storage';
+import { GoalType, GravityVector, LevelDefinition } from './types';
+
+/** The gameplay systems a simulation drives */
+export interface SimulationSystems {
+  scene: THREE.Scene;
+  physicsWorld: PhysicsWorld;
+  goalSystem: GoalSystem;
+  gameState: GameStateManager;
+  levelLoader: LevelLoader;
+  hazardSystem: HazardSystem;
+}
+
+/** Plain-data view of the simulation, safe to store or compare */
+export interface SimulationSnapshot {
+  tick: number;
+  state: GameState;
+  hero: { x: number, z: number, vx: number, vz: number };
+  score: number;
+  timeRemaining: number;
+  goalsCollected: number;
+  goalsRequired: number;
+  goals: Array<{ type: GoalType, x: number, z: number }>;
+}
+
+export interface StepResult {
+  collected: boolean; // A ring counting towards the goal was collected on this tick
+  goal: GoalOutcome | null; // Any ring touched on this tick (decoys included)
+  hazards: HazardEvent[]; // Hazards the hero triggered on this tick
+  nearMiss: number; // Points for skimming past a decoy on this tick (0 if none)
+}
+
+/** Scripted input: the gravity vector to apply on a given tick */
+export type InputScript = (tick: number, simulation: GameSimulation) => GravityVector;
+
+/**
+ * GameSimulation
+ * Responsibility: The deterministic gameplay core — physics, rings and rules advanced
+ * in fixed ticks. Knows nothing about rendering, audio, effects or the DOM.
+ *
+ * The browser build wraps one around the live systems (main.ts); tests and balance
+ * runs use createHeadless(), which needs neither WebGL nor a document.
+ */
+export class GameSimulation {
+  public static readonly FIXED_TIMESTEP = 1000 / 60; // ms
+  private static readonly FIXED_TIMESTEP_SECONDS = GameSimulation.FIXED_TIMESTEP / 1000;
+
+  private systems: SimulationSystems;
+  private level: LevelDefinition | null = null;
+  private tick = 0;
+  private heroPosition = new THREE.Vector3(); // Reused per tick
+  private runStats = new RunStatsCollector(GameSimulation.FIXED_TIMESTEP_SECONDS);
+
+  constructor(systems: SimulationSystems) {
+    this.systems = systems;
+  }
+
+  /**
+   * Builds a self-contained simulation with its own detached scene graph and
+   * in-memory persistence (nothing is rendered or written to localStorage).
+   */
+  public static createHeadless(level: LevelDefinition, storage: KeyValueStorage = new MemoryStorage()): GameSimulation {
+    const scene = new THREE.Scene();
+    const physicsWorld = new PhysicsWorld();
+    physicsWorld.createHero(level.spawn.x, level.spawn.z);
+
+    const simulation = new GameSimulation({
+      scene,
+      physicsWorld,
+      goalSystem: new GoalSystem(scene, new CollisionDetector()),
+      gameState: new GameStateManager(storage),
+      levelLoader: new LevelLoader(physicsWorld, scene),
+      hazardSystem: new HazardSystem(physicsWorld, scene)
+    });
+    simulation.loadLevel(level);
+    return simulation;
+  }
+
+  /**
+   * Builds the level's bodies and applies its rules. Call reset() before the next run.
+   */
+  public loadLevel(level: LevelDefinition): void {
+    const { levelLoader, hazardSystem, goalSystem, gameState, physicsWorld } = this.systems;
+    this.level = level;
+    levelLoader.load(level);
+    hazardSystem.load(level);
+    goalSystem.setArena(level.arena.width, level.arena.depth);
+    goalSystem.setSpawnPolicy(new SpawnPolicy(level.ringSpawn, level.goalsRequired, (x, z, clearance) =>
+      physicsWorld.isAreaBlocked(x, z, clearance) || hazardSystem.isOverPit(x, z, clearance)
+    ));
+    gameState.configure({ levelId: level.id, goalsRequired: level.goalsRequired, timeLimit: level.timeLimit });
+  }
+
+  /**
+   * Returns to the pre-run state for a seed: hero at spawn, fresh rings, full clock.
+   * Two runs reset with the same seed and fed the same input produce identical results.
+   */
+  public reset(seed: number): void {
+    const { physicsWorld, hazardSystem, goalSystem, gameState, scene } = this.systems;
+    const level = this.requireLevel();
+
+    goalSystem.setRandom(new SeededRandom(seed).fork('goals'));
+    gameState.reset();
+    // Movers and hero first: the first ring is placed against their start positions
+    physicsWorld.resetMovers();
+    physicsWorld.resetHero(level.spawn.x, level.spawn.z);
+    hazardSystem.reset();
+    goalSystem.reset(scene, physicsWorld.getHeroPosition());
+    this.runStats.reset();
+    this.tick = 0;
+  }
+
+  public start(): void {
+    this.systems.gameState.startGame();
+  }
+
+  /**
+   * One deterministic tick: physics, timer and ring collection all advance by exactly
+   * FIXED_TIMESTEP. Physics (and hazards) keep running outside PLAYING (menus); the rules do not.
+   */
+  public step(gravity: GravityVector): StepResult {
+    const { physicsWorld, hazardSystem, goalSystem, gameState, scene } = this.systems;
+
+    physicsWorld.update(GameSimulation.FIXED_TIMESTEP, gravity);
+    const wallHits = physicsWorld.takeHeroWallHits(); // Before hazards: a pit respawn clears contacts
+    const hazards = hazardSystem.update();
+    this.tick++;
+
+    if (gameState.getState() !== GameState.PLAYING) return { collected: false, goal: null, hazards, nearMiss: 0 };
+
+    hazards.forEach(event => {
+      if (event.type === 'pit') gameState.applyTimePenalty(event.penalty);
+    });
+    if (wallHits > 0) gameState.onWallHit();
+    gameState.update(GameSimulation.FIXED_TIMESTEP_SECONDS);
+
+    // Check Goals
+    physicsWorld.getHeroPosition(this.heroPosition);
+    const rings = goalSystem.update(GameSimulation.FIXED_TIMESTEP_SECONDS, this.heroPosition, scene);
+    const nearMiss = rings.nearMiss ? gameState.onNearMiss() : 0;
+    const goal = rings.collected !== null ? gameState.onGoalCollected(rings.collected) : null;
+    if (goal?.counted) {
+      physicsWorld.openDoors(gameState.getGoalsCollected());
+    }
+
+    // Run statistics (the step that ends the run still counts)
+    if (hazards.some(event => event.type === 'pit')) this.runStats.breakPath();
+    const velocity = physicsWorld.getHeroVelocity();
+    this.runStats.recordStep({
+      gravity,
+      heroX: this.heroPosition.x,
+      heroZ: this.heroPosition.z,
+      speed: Math.hypot(velocity.x, velocity.z),
+      wallHits,
+      collected: goal?.counted ?? false
+    });
+
+    return { collected: goal?.counted ?? false, goal, hazards, nearMiss };
+  }
+
+  /**
+   * Steps up to `ticks` times with scripted input, stopping early if the run ends.
+   */
+  public run(ticks: number, input: InputScript): SimulationSnapshot {
+    for (let i = 0; i < ticks; i++) {
+      this.step(input(this.tick, this));
+      if (this.isFinished()) break;
+    }
+    return this.getSnapshot();
+  }
+
+  /**
+   * Steps until WIN/GAME_OVER. The level's time limit bounds this, plus a safety margin.
+   */
+  public runToEnd(input: InputScript): SimulationSnapshot {
+    const maxTicks = Math.ceil(this.requireLevel().timeLimit / GameSimulation.FIXED_TIMESTEP_SECONDS) + 60;
+    return this.run(maxTicks, input);
+  }
+
+  public isFinished(): boolean {
+    const state = this.systems.gameState.getState();
+    return state === GameState.WIN || state === GameState.GAME_OVER;
+  }
+
+  public getSnapshot(): SimulationSnapshot {
+    const { physicsWorld, goalSystem, gameState } = this.systems;
+    const hero = physicsWorld.getHeroPosition();
+    const velocity = physicsWorld.getHeroVelocity();
+
+    return {
+      tick: this.tick,
+      state: gameState.getState(),
+      hero: { x: hero.x, z: hero.z, vx: velocity.x, vz: velocity.z },
+      score: gameState.getScore(),
+      timeRemaining: gameState.getTimeRemaining(),
+      goalsCollected: gameState.getGoalsCollected(),
+      goalsRequired: gameState.getGoalsRequired(),
+      goals: goalSystem.getGoals().map(goal => ({ type: goal.type, x: goal.position.x, z: goal.position.z }))
+    };
+  }
+
+  // --- Getters ---
+  /**
+   * Summary of the current (or just finished) run.
+   */
+  public getRunStats(): RunStats {
+    const { gameState } = this.systems;
+    return this.runStats.summarize({
+      levelId: this.requireLevel().id,
+      won: gameState.getState() === GameState.WIN,
+      score: gameState.getScore(),
+      scoreEvents: gameState.getScoring().getBreakdown()
+    });
+  }
+
+  public getTick(): number { return this.tick; }
+  public getLevel(): LevelDefinition | null { return this.level; }
+  public getGameState(): GameStateManager { return this.systems.gameState; }
+  public getPhysicsWorld(): PhysicsWorld { return this.systems.physicsWorld; }
+
+  private requireLevel(): LevelDefinition {
+    if (!this.level) throw new Error('GameSimulation: loadLevel() must be called first');
+    return this.level;
+  }
+}
@@ -1,30 +1,67 @@
+import { KeyValueStorage, getDefaultStorage } from './Storage';
+import { ScoreEvent, ScoringEngine } from './ScoringEngine';
+import { GoalType } from './types';
+
 export enum GameState {
   READY,      // Start screen visible
   PLAYING,    // Active gameplay
-  PAUSED,     // (Reserved)
+  PAUSED,     // Run frozen (timer, physics, goals)
   WIN,        // Success
   GAME_OVER   // Time expired
 }
 
+/** Persisted per-level progress */
+export interface LevelRecord {
+  highScore: number;
+  stars: number; // Best star rating (0-3)
+}
+
+/** What collecting a ring did to the run */
+export interface GoalOutcome {
+  type: GoalType;
+  points: number;     // Score change (negative for decoys)
+  timeChange: number; // Seconds added (negative for decoys)
+  counted: boolean;   // Counts towards goalsRequired
+  combo: number;      // Rings in the combo this one extended (0 for decoys)
+  breakdown: ScoreEvent[]; // How `points` was made up
+}
+
+interface SaveData {
+  version: 1;
+  levels: Record<string, LevelRecord>;
+  unlocked: string[]; // Campaign level ids the player may start
+}
+
 export class GameStateManager {
   private state: GameState = GameState.READY;
   
   // Scoring & Progression
-  private score: number = 0;
-  private highScore: number = 0; // NEW
+  private scoring = new ScoringEngine();
+  private highScore: number = 0; // Best score on the current level
+  private levelId: string = 'classic';
+  private progress: SaveData = { version: 1, levels: {}, unlocked: [] };
   private goalsCollected: number = 0;
-  private readonly GOALS_REQUIRED: number = 10;
+  private goalsRequired: number = 10;
   
   // Timer settings
   private timeRemaining: number = 60.0; 
-  private readonly TIME_LIMIT: number = 60.0;
-  private readonly TIME_BONUS_MULTIPLIER: number = 10; // Points per sec left at win
+  private timeLimit: number = 60.0;
+
+  // Ring type effects on the clock (points are ScoringEngine's)
+  private readonly TIME_RING_SECONDS = 5;
+  private readonly DECOY_TIME_PENALTY = 3;
+  
+  // Persistence
+  private storage: KeyValueStorage;
+  private readonly LEGACY_HIGHSCORE_KEY = 'kinetic-tilt-highscore';
+  private readonly PROGRESS_KEY = 'kinetic-tilt-progress';
   
   // Callbacks
   private onStateChange?: (newState: GameState) => void;
 
-  constructor() {
-    this.loadHighScore(); // Load on init
+  constructor(storage: KeyValueStorage = getDefaultStorage()) {
+    this.storage = storage;
+    this.loadProgress(); // Load on init
     this.reset();
   }
 
@@ -32,24 +69,89 @@ export class GameStateManager {
     this.onStateChange = callback;
   }
 
-  // --- HIGH SCORE LOGIC ---
-  private loadHighScore(): void {
-    const saved = localStorage.getItem('kinetic-tilt-highscore');
+  // --- HIGH SCORE & PROGRESS LOGIC ---
+  private loadProgress(): void {
+    const saved = this.storage.getItem(this.PROGRESS_KEY);
     if (saved) {
-      this.highScore = parseInt(saved, 10);
-      console.log(`📊 High Score Loaded: ${this.highScore}`);
+      try {
+        const data = JSON.parse(saved) as SaveData;
+        this.progress = {
+          version: 1,
+          levels: data.levels ?? {},
+          unlocked: data.unlocked ?? []
+        };
+      } catch (error) {
+        console.error('Corrupt progress data, starting fresh:', error);
+      }
+    } else {
+      // Migration: the original build stored a single integer for the classic level
+      const legacy = this.storage.getItem(this.LEGACY_HIGHSCORE_KEY);
+      if (legacy) {
+        this.progress.levels['classic'] = { highScore: parseInt(legacy, 10) || 0, stars: 0 };
+        this.saveProgress();
+        this.storage.removeItem(this.LEGACY_HIGHSCORE_KEY);
+      }
     }
+
+    this.highScore = this.getLevelRecord(this.levelId).highScore;
+    console.log(`📊 Progress Loaded: ${Object.keys(this.progress.levels).length} level record(s)`);
+  }
+
+  private saveProgress(): void {
+    this.storage.setItem(this.PROGRESS_KEY, JSON.stringify(this.progress));
   }
 
   private saveHighScore(): void {
-    localStorage.setItem('kinetic-tilt-highscore', this.highScore.toString());
-    console.log(`💾 High Score Saved: ${this.highScore}`);
+    const record = this.getLevelRecord(this.levelId);
+    this.progress.levels[this.levelId] = { ...record, highScore: this.highScore };
+    this.saveProgress();
+    console.log(`💾 High Score Saved: ${this.highScore} (${this.levelId})`);
   }
 
   public getHighScore(): number {
     return this.highScore;
   }
 
+  public getLevelId(): string {
+    return this.levelId;
+  }
+
+  public getLevelRecord(levelId: string): LevelRecord {
+    return this.progress.levels[levelId] ?? { highScore: 0, stars: 0 };
+  }
+
+  /**
+   * Keeps the best star rating ever achieved on a level.
+   */
+  public saveLevelStars(levelId: string, stars: number): void {
+    const record = this.getLevelRecord(levelId);
+    if (stars <= record.stars) return;
+    this.progress.levels[levelId] = { ...record, stars };
+    this.saveProgress();
+  }
+
+  public unlockLevel(levelId: string): void {
+    if (this.progress.unlocked.includes(levelId)) return;
+    this.progress.unlocked.push(levelId);
+    this.saveProgress();
+    console.log(`🔓 Level Unlocked: ${levelId}`);
+  }
+
+  public isLevelUnlocked(levelId: string): boolean {
+    return this.progress.unlocked.includes(levelId);
+  }
+
+  /**
+   * Applies per-level rules (from the level file). Takes effect on the next reset/start.
+   */
+  public configure(config: { levelId: string, goalsRequired: number, timeLimit: number }): void {
+    this.levelId = config.levelId;
+    this.highScore = this.getLevelRecord(config.levelId).highScore;
+    this.goalsRequired = config.goalsRequired;
+    this.timeLimit = config.timeLimit;
+    this.reset();
+  }
+
   /**
    * Internal state transition handler
    */
@@ -67,14 +169,14 @@ export class GameStateManager {
   public startGame(): void {
     this.reset();
     this.setState(GameState.PLAYING);
-    console.log('🎮 GAME STARTED - GOAL: Collect 10 Rings!');
+    console.log(`🎮 GAME STARTED - GOAL: Collect ${this.goalsRequired} Rings!`);
   }
 
   public reset(): void {
     this.state = GameState.READY;
-    this.score = 0;
+    this.scoring.reset();
     this.goalsCollected = 0;
-    this.timeRemaining = this.TIME_LIMIT;
+    this.timeRemaining = this.timeLimit;
     
     // Notify UI of reset (optional, but good for cleaning up 'Game Over' screens)
     if (this.onStateChange) this.onStateChange(GameState.READY);
@@ -89,6 +191,7 @@ export class GameStateManager {
 
     // 1. Countdown
     this.timeRemaining -= deltaTime;
+    this.scoring.update(deltaTime);
 
     // 2. Check Lose Condition
     if (this.timeRemaining <= 0) {
@@ -98,61 +201,140 @@ export class GameStateManager {
   }
 
   /**
-   * Called by GoalSystem when a goal is hit
+   * Called by GoalSystem when a goal is hit. The ring type drives score and time.
    */
-  public onGoalCollected(): void {
-    if (this.state !== GameState.PLAYING) return;
+  public onGoalCollected(type: GoalType = 'standard'): GoalOutcome {
+    const outcome: GoalOutcome = { type, points: 0, timeChange: 0, counted: false, combo: 0, breakdown: [] };
+    if (this.state !== GameState.PLAYING) return outcome;
+
+    // 1. Decoys: penalty only, never progress
+    if (type === 'decoy') {
+      const award = this.scoring.scoreDecoy();
+      outcome.points = award.points;
+      outcome.breakdown = award.events;
+      outcome.timeChange = -Math.min(this.timeRemaining, this.DECOY_TIME_PENALTY);
+      console.log(`💥 Decoy Hit | ${outcome.points} pts, ${outcome.timeChange}s`);
+      this.applyTimePenalty(-outcome.timeChange);
+      return outcome;
+    }
 
     this.goalsCollected++;
+    outcome.counted = true;
 
-    // Scoring Logic
-    const baseScore = 100;
-    // Speed Bonus: +2 points for every second left on the clock when you score
-    const speedBonus = Math.floor(this.timeRemaining * 2); 
-    
-    const totalGoalScore = baseScore + speedBonus;
-    this.score += totalGoalScore;
+    // 2. Scoring (base, speed bonus, combo, multipliers, streaks)
+    const award = this.scoring.scoreRing(type, this.timeRemaining);
+    outcome.points = award.points;
+    outcome.breakdown = award.events;
+    outcome.combo = this.scoring.getCombo();
 
-    console.log(`🎯 Goal Collected | +${totalGoalScore} pts`);
+    // 3. Time Effects
+    if (type === 'time') {
+      this.timeRemaining += this.TIME_RING_SECONDS;
+      outcome.timeChange = this.TIME_RING_SECONDS;
+    }
+
+    console.log(`🎯 Goal Collected (${type}) | +${award.points} pts (combo ${outcome.combo})`);
 
-    // 3. Check Win Condition
-    if (this.goalsCollected >= this.GOALS_REQUIRED) {
+    // 4. Check Win Condition
+    if (this.goalsCollected >= this.goalsRequired) {
       this.handleWin();
     }
+    return outcome;
+  }
+
+  /**
+   * The hero skimmed past a decoy without touching it.
+   * @returns Points awarded (0 outside a run)
+   */
+  public onNearMiss(): number {
+    if (this.state !== GameState.PLAYING) return 0;
+    const award = this.scoring.scoreNearMiss();
+    console.log(`😅 Near Miss | +${award.points} pts`);
+    return award.points;
+  }
+
+  /**
+   * The hero bumped a wall or obstacle (breaks the wall-free streak).
+   */
+  public onWallHit(): void {
+    if (this.state !== GameState.PLAYING) return;
+    this.scoring.onWallHit();
+  }
+
+  /**
+   * Takes time off the clock (e.g. falling into a pit). Can end the run.
+   */
+  public applyTimePenalty(seconds: number): void {
+    if (this.state !== GameState.PLAYING) return;
+
+    this.timeRemaining = Math.max(0, this.timeRemaining - seconds);
+    console.log(`⏱️ Time Penalty | -${seconds}s`);
+
+    if (this.timeRemaining <= 0) {
+      this.handleGameOver();
+    }
+  }
+
+  /**
+   * Freezes an active run. Safe to call from any state (e.g. on window blur);
+   * only PLAYING can transition to PAUSED.
+   */
+  public pause(): void {
+    if (this.state !== GameState.PLAYING) return;
+    console.log(`⏸️ Paused with ${this.timeRemaining.toFixed(1)}s left`);
+    this.setState(GameState.PAUSED);
+  }
+
+  /**
+   * Continues a paused run from exactly where it stopped.
+   */
+  public resume(): void {
+    if (this.state !== GameState.PAUSED) return;
+    console.log('▶️ Resumed');
+    this.setState(GameState.PLAYING);
+  }
+
+  public togglePause(): void {
+    if (this.state === GameState.PAUSED) this.resume();
+    else this.pause();
   }
 
   private handleWin(): void {
     // Final Time Bonus: Big reward for finishing early
-    const timeBonus = Math.floor(this.timeRemaining * this.TIME_BONUS_MULTIPLIER);
-    this.score += timeBonus;
+    const timeBonus = this.scoring.scoreTimeBonus(this.timeRemaining).points;
+    const score = this.getScore();
     
     // CHECK HIGH SCORE
-    if (this.score > this.highScore) {
-      this.highScore = this.score;
+    if (score > this.highScore) {
+      this.highScore = score;
       this.saveHighScore();
       console.log('🌟 NEW HIGH SCORE!');
     }
     
-    console.log(`🏆 VICTORY! Time Bonus: +${timeBonus} (Total: ${this.score})`);
+    console.log(`🏆 VICTORY! Time Bonus: +${timeBonus} (Total: ${score})`);
     this.setState(GameState.WIN);
   }
 
   private handleGameOver(): void {
-    console.log(`💀 GAME OVER - Time Expired. Final Score: ${this.score}`);
+    console.log(`💀 GAME OVER - Time Expired. Final Score: ${this.getScore()}`);
     this.setState(GameState.GAME_OVER);
   }
 
   // --- Getters for UI/HUD ---
   public getState(): GameState { return this.state; }
-  public getScore(): number { return this.score; }
+  public isPaused(): boolean { return this.state === GameState.PAUSED; }
+  public getScore(): number { return this.scoring.getTotal(); }
   public getTimeRemaining(): number { return this.timeRemaining; }
   public getGoalsCollected(): number { return this.goalsCollected; }
-  public getGoalsRequired(): number { return this.GOALS_REQUIRED; }
+  public getGoalsRequired(): number { return this.goalsRequired; }
+  public getMultiplierRingsLeft(): number { return this.scoring.getMultiplierRingsLeft(); }
+  public getScoring(): ScoringEngine { return this.scoring; }
+  public getTimeLimit(): number { return this.timeLimit; }
   
   public getProgress(): { collected: number, required: number } {
     return { 
       collected: this.goalsCollected, 
-      required: this.GOALS_REQUIRED 
+      required: this.goalsRequired 
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+/** One poll of the first connected gamepad */
+export interface GamepadReading {
+  beta: number;           // Degrees, from the left stick
+  gamma: number;
+  active: boolean;        // Stick outside the deadzone or a button pressed this poll
+  pausePressed: boolean;  // Rising edges only
+  restartPressed: boolean;
+}
+
+/**
+ * GamepadTilt
+ * Responsibility: Gamepad API (standard mapping) -> beta/gamma. The left stick uses a
+ * radial deadzone rescaled so tilt still starts from zero at its edge; Start pauses
+ * and Back/Select restarts. The Gamepad API has no input events, so it is polled.
+ */
+export class GamepadTilt {
+  private readonly STICK_DEADZONE = 0.15;
+  private readonly MAX_ANGLE = 45;  // Degrees at full stick
+  private readonly PAUSE_BUTTON = 9;   // Start / Options
+  private readonly RESTART_BUTTON = 8; // Back / Select / View
+
+  private previousButtons: boolean[] = [];
+
+  /**
+   * @param pads - navigator.getGamepads(); the first connected pad is used
+   * @returns null when no gamepad is connected
+   */
+  public poll(pads: ReadonlyArray<Gamepad | null>): GamepadReading | null {
+    const pad = pads.find(p => p?.connected);
+    if (!pad) {
+      this.previousButtons = [];
+      return null;
+    }
+
+    // 1. LEFT STICK (radial deadzone, rescaled)
+    const x = pad.axes[0] ?? 0;
+    const y = pad.axes[1] ?? 0;
+    const magnitude = Math.hypot(x, y);
+    let beta = 0;
+    let gamma = 0;
+    if (magnitude > this.STICK_DEADZONE) {
+      const scaled = Math.min(1, (magnitude - this.STICK_DEADZONE) / (1 - this.STICK_DEADZONE));
+      gamma = (x / magnitude) * scaled * this.MAX_ANGLE;
+      beta = (-y / magnitude) * scaled * this.MAX_ANGLE; // Stick up (-y) rolls away
+    }
+
+    // 2. BUTTON EDGES
+    const buttons = pad.buttons.map(button => button.pressed);
+    const pressedNow = (index: number) => buttons[index] === true && this.previousButtons[index] !== true;
+    const anyPressed = buttons.some((down, i) => down && this.previousButtons[i] !== true);
+    const reading: GamepadReading = {
+      beta,
+      gamma,
+      active: magnitude > this.STICK_DEADZONE || anyPressed,
+      pausePressed: pressedNow(this.PAUSE_BUTTON),
+      restartPressed: pressedNow(this.RESTART_BUTTON)
+    };
+    this.previousButtons = buttons;
+    return reading;
+  }
+}
@@ -1,58 +1,130 @@
 import * as THREE from 'three';
 import { CollisionDetector } from './CollisionDetector';
+import { RandomSource, SeededRandom } from './Random';
+import { SpawnPolicy } from './SpawnPolicy';
+import { GoalType, Point2D } from './types';
 
-interface Goal {
+/** How a moving ring travels, relative to the point it spawned at */
+type GoalMotion =
+  | { kind: 'orbit'; radius: number; speed: number; phase: number } // speed in rad/s
+  | { kind: 'patrol'; dx: number; dz: number; period: number };     // swings ±(dx, dz)
+
+/** What happened to the rings this step */
+export interface GoalUpdate {
+  collected: GoalType | null; // Type of the ring collected, or null
+  nearMiss: boolean;          // The hero skimmed past a decoy and got away
+}
+
+export interface Goal {
+  type: GoalType;
   mesh: THREE.Mesh;
   position: THREE.Vector3;
+  anchor: THREE.Vector3;       // Spawn point (moving rings travel around it)
+  motion: GoalMotion | null;
+  spawnTime: number;           // elapsedTime at spawn, so motion is independent of run history
   radius: number;
   wasColliding: boolean;
+  wasNear: boolean;            // Decoys: hero inside NEAR_MISS_RADIUS last step
+  nearMissAwarded: boolean;    // Decoys: the near-miss bonus is paid once per decoy
   seed: number;
 }
 
+/** Look of each ring type */
+const GOAL_STYLES: Record<GoalType, { color: number, emissive: number, tube: number, radialSegments: number }> = {
+  standard:   { color: 0xffaa00, emissive: 0xff4400, tube: 0.1,  radialSegments: 16 },
+  time:       { color: 0x44ddff, emissive: 0x0066ff, tube: 0.1,  radialSegments: 16 },
+  multiplier: { color: 0xcc66ff, emissive: 0x7700ff, tube: 0.16, radialSegments: 16 },
+  moving:     { color: 0x66ff66, emissive: 0x00aa22, tube: 0.1,  radialSegments: 16 },
+  decoy:      { color: 0xaa1122, emissive: 0x550000, tube: 0.12, radialSegments: 3 } // Jagged
+};
+
 export class GoalSystem {
   private goals: Goal[];
   private collisionDetector: CollisionDetector;
-  
-  private readonly WORLD_SIZE = 20;
-  private readonly MIN_EDGE_DIST = 3; 
+  private random: RandomSource;
+  private spawnPolicy = new SpawnPolicy();
+  private heroPosition: Point2D = { x: 0, z: 0 }; // Last known, for spawn distance rules
+  // Animation clock: advanced only by update(), so pausing freezes the rings
+  private elapsedTime: number = 0;
+
+  // Arena footprint (set per level)
+  private arenaWidth = 20;
+  private arenaDepth = 20;
   private readonly GOAL_RADIUS = 1.0;
-  private readonly VISUAL_RADIUS = 0.6; 
-  private readonly TUBE_THICKNESS = 0.1;
+  private readonly VISUAL_RADIUS = 0.6;
+  private readonly ENTRY_THRESHOLD = 0.7; // Hero centre must be within this fraction of the radius
+
+  // Spawn mix for the ring you have to collect (decoys are rolled separately)
+  private readonly TYPE_WEIGHTS: Array<[Exclude<GoalType, 'decoy'>, number]> = [
+    ['standard', 0.55],
+    ['time', 0.15],
+    ['multiplier', 0.15],
+    ['moving', 0.15]
+  ];
+  private readonly DECOY_CHANCE = 0.25;
+  private readonly NEAR_MISS_RADIUS = 1.5; // Hero centre to decoy centre (touching is 0.7)
+  private readonly MOVING_RANGE = 2.5; // Max travel from the anchor (stays inside the spawn edge margin)
+  private readonly MOTION_ATTEMPTS = 4;    // Re-rolls for a path clear of walls, before shrinking it
+  private readonly MOTION_SHRINKS = 2;     // Then halve the last path this many times
+  private readonly PATH_SAMPLE_SPACING = 0.5; // World units between checked points along a path
 
-  constructor(scene: THREE.Scene, collisionDetector: CollisionDetector) {
+  constructor(scene: THREE.Scene, collisionDetector: CollisionDetector, random: RandomSource = new SeededRandom()) {
     this.collisionDetector = collisionDetector;
+    this.random = random;
     this.goals = [];
-    this.spawnGoal(scene);
+    this.spawnWave(scene);
+  }
+
+  /**
+   * Resizes the spawn area to match the loaded level. Applied from the next spawn.
+   */
+  public setArena(width: number, depth: number): void {
+    this.arenaWidth = width;
+    this.arenaDepth = depth;
+  }
+
+  /**
+   * Swaps the placement rules (per level). Applied from the next reset.
+   */
+  public setSpawnPolicy(policy: SpawnPolicy): void {
+    this.spawnPolicy = policy;
+  }
+
+  /**
+   * Swaps the spawn RNG (e.g. for a new run seed). Call before reset() so the
+   * first ring of the run comes from the new stream.
+   */
+  public setRandom(random: RandomSource): void {
+    this.random = random;
   }
 
   // FIX 2: Reset Method
-  public reset(scene: THREE.Scene): void {
+  public reset(scene: THREE.Scene, heroPosition?: THREE.Vector3): void {
     // 1. Cleanup Visuals
-    this.goals.forEach(goal => {
-      scene.remove(goal.mesh);
-      goal.mesh.geometry.dispose();
-      (goal.mesh.material as THREE.Material).dispose();
-    });
-    
+    this.goals.forEach(goal => this.removeGoal(goal, scene));
+
     // 2. Clear Data
     this.goals = [];
-    
+    this.spawnPolicy.reset();
+    if (heroPosition) this.heroPosition = { x: heroPosition.x, z: heroPosition.z };
+
     // 3. Spawn Fresh Goal
-    this.spawnGoal(scene);
+    this.spawnWave(scene);
     console.log('GoalSystem reset - spawned fresh goal');
   }
 
-  private createGoalMesh(): THREE.Mesh {
+  private createGoalMesh(type: GoalType): THREE.Mesh {
+    const style = GOAL_STYLES[type];
     const geometry = new THREE.TorusGeometry(
-      this.VISUAL_RADIUS, 
-      this.TUBE_THICKNESS, 
-      16, 
+      this.VISUAL_RADIUS,
+      style.tube,
+      style.radialSegments,
       32
     );
 
     const material = new THREE.MeshStandardMaterial({
-      color: 0xffaa00,    
-      emissive: 0xff4400, 
+      color: style.color,
+      emissive: style.emissive,
       emissiveIntensity: 0.8,
       roughness: 0.2,
       metalness: 0.8
@@ -63,41 +135,149 @@ export class GoalSystem {
     return mesh;
   }
 
-  private spawnGoal(scene: THREE.Scene): void {
-    let position: THREE.Vector3 | null = null;
-    const maxAttempts = 20;
-    const spawnRange = this.WORLD_SIZE - (this.MIN_EDGE_DIST * 2);
-
-    for (let i = 0; i < maxAttempts; i++) {
-      const x = (Math.random() - 0.5) * spawnRange;
-      const z = (Math.random() - 0.5) * spawnRange;
-      position = new THREE.Vector3(x, 0.5, z);
-      break; 
+  /**
+   * One ring to collect, sometimes accompanied by a decoy.
+   */
+  private spawnWave(scene: THREE.Scene): void {
+    const ring = this.spawnGoal(scene, this.rollType());
+    this.spawnPolicy.record(ring.anchor);
+    if (this.random.next() < this.DECOY_CHANCE) {
+      this.spawnGoal(scene, 'decoy', [ring.anchor]);
     }
+  }
 
-    if (!position) {
-      position = new THREE.Vector3(0, 0.5, -5);
+  private rollType(): Exclude<GoalType, 'decoy'> {
+    let roll = this.random.next();
+    for (const [type, weight] of this.TYPE_WEIGHTS) {
+      roll -= weight;
+      if (roll < 0) return type;
     }
+    return 'standard';
+  }
+
+  private spawnGoal(scene: THREE.Scene, type: GoalType, avoid: Point2D[] = []): Goal {
+    const spot = this.spawnPolicy.pick(this.random, {
+      arenaWidth: this.arenaWidth,
+      arenaDepth: this.arenaDepth,
+      hero: this.heroPosition,
+      avoid
+    });
+    const position = new THREE.Vector3(spot.x, 0.5, spot.z);
 
-    const mesh = this.createGoalMesh();
+    const mesh = this.createGoalMesh(type);
     mesh.position.copy(position);
     scene.add(mesh);
 
-    this.goals.push({
+    const goal: Goal = {
+      type,
       mesh,
       position,
+      anchor: position.clone(),
+      motion: type === 'moving' ? this.rollClearMotion(spot) : null,
+      spawnTime: this.elapsedTime,
       radius: this.GOAL_RADIUS,
       wasColliding: false,
-      seed: Math.random() * 100 
-    });
+      wasNear: false,
+      nearMissAwarded: false,
+      seed: this.random.next() * 100
+    };
+    this.goals.push(goal);
+    return goal;
+  }
+
+  /**
+   * A motion whose whole path keeps clear of solid geometry. Blocked paths are re-rolled,
+   * then the last one is shrunk; if even that fails the ring holds still at its (clear) spawn.
+   */
+  private rollClearMotion(anchor: Point2D): GoalMotion | null {
+    let motion = this.rollMotion();
+    for (let i = 1; i < this.MOTION_ATTEMPTS && !this.isMotionClear(anchor, motion); i++) {
+      motion = this.rollMotion();
+    }
+    for (let shrinks = 0; shrinks <= this.MOTION_SHRINKS; shrinks++) {
+      if (this.isMotionClear(anchor, motion)) return motion;
+      motion = motion.kind === 'orbit'
+        ? { ...motion, radius: motion.radius / 2 }
+        : { ...motion, dx: motion.dx / 2, dz: motion.dz / 2 };
+    }
+    console.warn('⚠️ GoalSystem: no clear path for a moving ring, it stays put');
+    return null;
+  }
+
+  private isMotionClear(anchor: Point2D, motion: GoalMotion): boolean {
+    const path: Point2D[] = [];
+    if (motion.kind === 'orbit') {
+      const samples = Math.ceil((2 * Math.PI * motion.radius) / this.PATH_SAMPLE_SPACING);
+      for (let i = 0; i < samples; i++) {
+        const angle = (2 * Math.PI * i) / samples;
+        path.push({ x: anchor.x + Math.cos(angle) * motion.radius, z: anchor.z + Math.sin(angle) * motion.radius });
+      }
+    } else {
+      // Swings between anchor - (dx, dz) and anchor + (dx, dz)
+      const samples = Math.ceil((2 * Math.hypot(motion.dx, motion.dz)) / this.PATH_SAMPLE_SPACING);
+      for (let i = 0; i <= samples; i++) {
+        const swing = (2 * i) / samples - 1;
+        path.push({ x: anchor.x + motion.dx * swing, z: anchor.z + motion.dz * swing });
+      }
+    }
+    return this.spawnPolicy.isPathClear(path);
+  }
+
+  private rollMotion(): GoalMotion {
+    if (this.random.next() < 0.5) {
+      return {
+        kind: 'orbit',
+        radius: 1.5 + this.random.next() * (this.MOVING_RANGE - 1.5),
+        speed: (this.random.next() < 0.5 ? -1 : 1) * (0.8 + this.random.next() * 0.6),
+        phase: this.random.next() * Math.PI * 2
+      };
+    }
+    const angle = this.random.next() * Math.PI * 2;
+    return {
+      kind: 'patrol',
+      dx: Math.cos(angle) * this.MOVING_RANGE,
+      dz: Math.sin(angle) * this.MOVING_RANGE,
+      period: 3 + this.random.next() * 2
+    };
+  }
+
+  private moveGoal(goal: Goal, time: number): void {
+    if (!goal.motion) return;
+    const t = time - goal.spawnTime;
+
+    if (goal.motion.kind === 'orbit') {
+      const angle = goal.motion.phase + goal.motion.speed * t;
+      goal.position.x = goal.anchor.x + Math.cos(angle) * goal.motion.radius;
+      goal.position.z = goal.anchor.z + Math.sin(angle) * goal.motion.radius;
+    } else {
+      const swing = Math.sin((2 * Math.PI * t) / goal.motion.period);
+      goal.position.x = goal.anchor.x + goal.motion.dx * swing;
+      goal.position.z = goal.anchor.z + goal.motion.dz * swing;
+    }
+    goal.mesh.position.x = goal.position.x;
+    goal.mesh.position.z = goal.position.z;
+  }
+
+  private removeGoal(goal: Goal, scene: THREE.Scene): void {
+    scene.remove(goal.mesh);
+    goal.mesh.geometry.dispose();
+    (goal.mesh.material as THREE.Material).dispose();
   }
 
-  public update(deltaTime: number, heroPosition: THREE.Vector3, scene: THREE.Scene): number | null {
-    let collectedGoalIndex: number | null = null;
-    const time = Date.now() * 0.001; 
+  /**
+   * Advances ring motion/animation and checks the hero against every ring.
+   */
+  public update(deltaTime: number, heroPosition: THREE.Vector3, scene: THREE.Scene): GoalUpdate {
+    let collected: Goal | null = null;
+    let nearMiss = false;
+    this.elapsedTime += deltaTime;
+    this.heroPosition = { x: heroPosition.x, z: heroPosition.z };
+    const time = this.elapsedTime;
+
+    this.goals.forEach(goal => {
+      this.moveGoal(goal, time);
 
-    this.goals.forEach((goal, index) => {
-      goal.mesh.rotation.z += deltaTime * 1.5; 
+      goal.mesh.rotation.z += deltaTime * 1.5;
       const pulseSpeed = 2.0;
       const scale = 1.0 + Math.sin(time * pulseSpeed + goal.seed) * 0.15;
       goal.mesh.scale.set(scale, scale, scale);
@@ -105,29 +285,50 @@ export class GoalSystem {
 
       const isColliding = this.collisionDetector.checkGoalEntry(
         heroPosition,
-        0.5, 
+        0.5,
         goal.position,
         goal.radius,
-        0.7 
+        this.ENTRY_THRESHOLD
       );
 
-      if (isColliding && !goal.wasColliding) {
-        collectedGoalIndex = index;
+      if (isColliding && !goal.wasColliding && !collected) {
+        collected = goal;
       }
       goal.wasColliding = isColliding;
+
+      // Near miss: left a decoy's surroundings without touching it (once, so circling can't farm it)
+      if (goal.type === 'decoy') {
+        const distance = Math.hypot(goal.position.x - heroPosition.x, goal.position.z - heroPosition.z);
+        const isNear = distance < this.NEAR_MISS_RADIUS;
+        if (goal.wasNear && !isNear && !goal.nearMissAwarded) {
+          goal.nearMissAwarded = true;
+          nearMiss = true;
+        }
+        goal.wasNear = isNear;
+      }
     });
 
-    if (collectedGoalIndex !== null) {
-      const goal = this.goals[collectedGoalIndex];
-      scene.remove(goal.mesh);
-      goal.mesh.geometry.dispose();
-      (goal.mesh.material as THREE.Material).dispose();
-      this.goals.splice(collectedGoalIndex, 1);
-      this.spawnGoal(scene);
+    if (!collected) return { collected: null, nearMiss };
+    const hit: Goal = collected;
+
+    if (hit.type === 'decoy') {
+      // A decoy just pops; the real ring stays
+      this.removeGoal(hit, scene);
+      this.goals = this.goals.filter(goal => goal !== hit);
+    } else {
+      // The wave is over: clear any leftover decoy and spawn the next one
+      this.goals.forEach(goal => this.removeGoal(goal, scene));
+      this.goals = [];
+      this.spawnWave(scene);
     }
 
-    return collectedGoalIndex;
+    return { collected: hit.type, nearMiss };
   }
 
   public getGoals() { return this.goals; }
-}
\ No newline at end of file
+
+  /** Where each ring actually triggers (debug overlay): the hero centre must enter the circle */
+  public getTriggerZones(): Array<{ goal: Goal, radius: number }> {
+    return this.goals.map(goal => ({ goal, radius: goal.radius * this.ENTRY_THRESHOLD }));
+  }
+}
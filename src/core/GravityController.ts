@@ -1,17 +1,25 @@
 import * as THREE from 'three';
 
+/** Gravity per axis at full tilt (RunStats measures "max tilt" against it) */
+export const GRAVITY_MULTIPLIER = 1.5;
+
 /**
  * GravityController
  * * Responsibility: Maps raw DeviceOrientation (degrees) -> Physics World Vector.
  */
 export class GravityController {
   // CONFIGURATION
-  private readonly MAX_TILT_ANGLE = 45; 
   private readonly MAX_BETA_SAFE = 80;  
-  private readonly GRAVITY_MULTIPLIER = 1.5; 
-  private readonly DEADZONE = 2.0; 
   
+  // PLAYER TUNING (see SettingsStore)
+  private maxTiltAngle = 45; 
+  private deadzone = 2.0; 
   private smoothingFactor = 0.15; 
+  private invertX = false;
+  private invertY = false;
+  private lockFreeInput = false; // Angles come from QuaternionTilt
+  private neutralBeta = 0;  // Calibrated holding angle (see TiltCalibrator)
+  private neutralGamma = 0;
 
   // STATE
   private currentVector: THREE.Vector3;
@@ -26,31 +34,45 @@ export class GravityController {
     this.targetVector = new THREE.Vector3(0, 0, 0);
   }
 
-  public update(beta: number, gamma: number): void {
+  /**
+   * @param calibrated - Measure from the neutral angle (sensor tilt); drag, keys and
+   * sticks already report angles relative to level
+   */
+  public update(beta: number, gamma: number, calibrated: boolean = true): void {
+    // 0. CALIBRATION: tilt is measured from the player's neutral holding angle
+    const rawBeta = beta;
+    if (calibrated) {
+      beta -= this.neutralBeta;
+      gamma -= this.neutralGamma;
+    }
+
     // 1. DEADZONE FILTER
     // Ignore micro-tilts to prevent perpetual drift
-    if (Math.abs(beta) < this.DEADZONE) beta = 0;
-    if (Math.abs(gamma) < this.DEADZONE) gamma = 0;
+    if (Math.abs(beta) < this.deadzone) beta = 0;
+    if (Math.abs(gamma) < this.deadzone) gamma = 0;
 
     // 2. STORE PROCESSED VALUES (For HUD/Debug)
     this.lastBeta = beta;
     this.lastGamma = gamma;
 
-    // 3. GIMBAL LOCK PROTECTION
-    if (Math.abs(beta) > 85) {
+    // 3. GIMBAL LOCK PROTECTION (a property of the device angle, not the calibrated one)
+    // Lock-free input is continuous through upright, so it needs none
+    if (!this.lockFreeInput && Math.abs(rawBeta) > 85) {
       console.warn('Approaching gimbal lock zone. Limit device tilt.');
     }
-    const betaClamped = THREE.MathUtils.clamp(beta, -this.MAX_BETA_SAFE, this.MAX_BETA_SAFE);
+    const betaClamped = this.lockFreeInput
+      ? beta
+      : THREE.MathUtils.clamp(beta, -this.MAX_BETA_SAFE, this.MAX_BETA_SAFE);
 
     // 4. NORMALIZE & CLAMP
-    const xIntensity = THREE.MathUtils.clamp(gamma / this.MAX_TILT_ANGLE, -1, 1);
-    const zIntensity = THREE.MathUtils.clamp(betaClamped / this.MAX_TILT_ANGLE, -1, 1);
+    const xIntensity = THREE.MathUtils.clamp(gamma / this.maxTiltAngle, -1, 1);
+    const zIntensity = THREE.MathUtils.clamp(betaClamped / this.maxTiltAngle, -1, 1);
 
-    // 5. MAP TO TARGET VECTOR (+Beta -> -Z)
+    // 5. MAP TO TARGET VECTOR (+Beta -> -Z, unless the player inverted an axis)
     this.targetVector.set(
-      xIntensity * this.GRAVITY_MULTIPLIER, 
+      (this.invertX ? -xIntensity : xIntensity) * GRAVITY_MULTIPLIER, 
       0, 
-      -zIntensity * this.GRAVITY_MULTIPLIER 
+      (this.invertY ? zIntensity : -zIntensity) * GRAVITY_MULTIPLIER 
     );
   }
 
@@ -70,7 +92,39 @@ export class GravityController {
     this.smoothingFactor = factor;
   }
 
+  /** Tilt (degrees) that produces full gravity */
+  public setMaxTiltAngle(degrees: number): void {
+    this.maxTiltAngle = degrees;
+  }
+
+  /** Tilt (degrees) ignored around level */
+  public setDeadzone(degrees: number): void {
+    this.deadzone = degrees;
+  }
+
+  /** Orientation (degrees) treated as level; 0, 0 means the device lying flat */
+  public setNeutral(beta: number, gamma: number): void {
+    this.neutralBeta = beta;
+    this.neutralGamma = gamma;
+  }
+
+  public getNeutral(): { beta: number, gamma: number } {
+    return { beta: this.neutralBeta, gamma: this.neutralGamma };
+  }
+
+  /** Input already comes from a lock-free (quaternion) projection, see QuaternionTilt */
+  public setLockFreeInput(enabled: boolean): void {
+    this.lockFreeInput = enabled;
+  }
+
+  public setInvertAxes(invertX: boolean, invertY: boolean): void {
+    this.invertX = invertX;
+    this.invertY = invertY;
+  }
+
   // OBSERVABILITY GETTERS
   public getLastBeta(): number { return this.lastBeta; }
   public getLastGamma(): number { return this.lastGamma; }
+  /** Current gravity without advancing the smoothing (getGravityVector steps the lerp) */
+  public peekGravityVector(): THREE.Vector3 { return this.currentVector; }
 }
\ No newline at end of file
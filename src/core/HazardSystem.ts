@@ -0,0 +1,260 @@
+import Matter from 'matter-js';
+import * as THREE from 'three';
+import { PhysicsWorld } from './PhysicsWorld';
+import { HazardDefinition, LevelDefinition, Point2D } from './types';
+
+/** What happened to the hero this step (for feedback and rules) */
+export type HazardEvent =
+  | { type: 'pit'; x: number; z: number; penalty: number } // Position where the hero fell in
+  | { type: 'bumper' | 'boost' | 'sticky'; x: number; z: number };
+
+interface ActiveHazard {
+  definition: HazardDefinition;
+  body: Matter.Body;
+  mesh: THREE.Mesh;
+  pulse: number; // 0-1 hit flash, visual only
+}
+
+interface PendingContact {
+  hazard: ActiveHazard;
+  phase: 'start' | 'end';
+}
+
+const PAD_HEIGHT = 0.02;  // Floor decals sit just above the grid
+const BUMPER_HEIGHT = 0.8;
+
+/**
+ * HazardSystem
+ * Responsibility: Builds a level's hazards (sensor/static bodies + meshes) and applies
+ * their effects to the hero:
+ * - pit: respawn at the level spawn, lose time
+ * - bumper: launch the hero away on impact
+ * - boost: add speed in the pad's direction on entry
+ * - sticky: raise the hero's air drag while inside
+ *
+ * Contacts arrive mid-step from Matter's collision events; they are queued and applied
+ * in update(), right after the physics step, so replays reproduce them exactly.
+ */
+export class HazardSystem {
+  private physicsWorld: PhysicsWorld;
+  private scene: THREE.Scene;
+
+  private hazards = new Map<number, ActiveHazard>(); // Keyed by body id
+  private pending: PendingContact[] = [];
+  private stickyInside = new Set<ActiveHazard>();
+  private spawn: Point2D = { x: 0, z: 0 };
+
+  private readonly pitMaterial = new THREE.MeshBasicMaterial({ color: 0x050508 });
+  private readonly pitRimMaterial = new THREE.MeshBasicMaterial({ color: 0xff3333 });
+  private readonly bumperMaterial = new THREE.MeshStandardMaterial({
+    color: 0xff44aa, emissive: 0x661144, roughness: 0.3, metalness: 0.4
+  });
+  private readonly boostMaterial = new THREE.MeshBasicMaterial({
+    color: 0x33ff88, transparent: true, opacity: 0.5, depthWrite: false
+  });
+  private readonly boostArrowMaterial = new THREE.MeshBasicMaterial({ color: 0xccffdd });
+  private readonly stickyMaterial = new THREE.MeshBasicMaterial({
+    color: 0x996633, transparent: true, opacity: 0.55, depthWrite: false
+  });
+
+  constructor(physicsWorld: PhysicsWorld, scene: THREE.Scene) {
+    this.physicsWorld = physicsWorld;
+    this.scene = scene;
+
+    this.physicsWorld.setHeroContactCallback((other, phase) => {
+      const hazard = this.hazards.get(other.id);
+      if (hazard) this.pending.push({ hazard, phase });
+    });
+  }
+
+  public load(level: LevelDefinition): void {
+    this.unload();
+    this.spawn = level.spawn;
+    level.hazards.forEach((hazard, i) => this.addHazard(hazard, i));
+    if (level.hazards.length > 0) {
+      console.log(`⚠️ Hazards Placed: ${level.hazards.length}`);
+    }
+  }
+
+  public unload(): void {
+    this.hazards.forEach(({ body, mesh }) => {
+      this.physicsWorld.removeBody(body);
+      this.scene.remove(mesh);
+      mesh.traverse(child => {
+        if (child instanceof THREE.Mesh) child.geometry.dispose();
+      });
+    });
+    this.hazards.clear();
+    this.reset();
+  }
+
+  /**
+   * Forgets in-progress contacts. Call after the hero has been reset
+   * (a rebuilt hero body never receives the matching 'end' events).
+   */
+  public reset(): void {
+    this.pending = [];
+    this.stickyInside.clear();
+    this.physicsWorld.setHeroFrictionAir(null);
+    this.hazards.forEach(hazard => {
+      hazard.pulse = 0;
+      hazard.mesh.scale.setScalar(1);
+    });
+  }
+
+  /**
+   * True if a circle (world units) overlaps a pit's opening. Pits are sensors, so
+   * PhysicsWorld.isAreaBlocked() doesn't see them.
+   */
+  public isOverPit(x: number, z: number, radius: number): boolean {
+    for (const { definition } of this.hazards.values()) {
+      if (definition.type === 'pit' && Math.hypot(definition.x - x, definition.z - z) < definition.radius + radius) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Applies the contacts queued during the last physics step.
+   * Call once per fixed step, after PhysicsWorld.update().
+   */
+  public update(): HazardEvent[] {
+    const events: HazardEvent[] = [];
+    const contacts = this.pending;
+    this.pending = [];
+
+    for (const { hazard, phase } of contacts) {
+      const event = phase === 'start' ? this.onEnter(hazard) : this.onExit(hazard);
+      if (event) events.push(event);
+      if (event?.type === 'pit') break; // The hero was rebuilt: the rest of the queue is stale
+    }
+
+    return events;
+  }
+
+  /**
+   * Visual-only easing of hit flashes (per render frame).
+   */
+  public animate(deltaTime: number): void {
+    this.hazards.forEach(hazard => {
+      if (hazard.pulse <= 0) return;
+      hazard.pulse = Math.max(0, hazard.pulse - deltaTime * 4);
+      hazard.mesh.scale.set(1 + hazard.pulse * 0.25, 1, 1 + hazard.pulse * 0.25);
+    });
+  }
+
+  private onEnter(hazard: ActiveHazard): HazardEvent | null {
+    const hero = this.physicsWorld.getHeroPosition();
+    const { definition } = hazard;
+
+    switch (definition.type) {
+      case 'pit': {
+        this.physicsWorld.resetHero(this.spawn.x, this.spawn.z);
+        this.reset();
+        return { type: 'pit', x: hero.x, z: hero.z, penalty: definition.penalty ?? 0 };
+      }
+      case 'bumper': {
+        // Launch straight away from the bumper's centre
+        const dx = hero.x - definition.x;
+        const dz = hero.z - definition.z;
+        const length = Math.sqrt(dx * dx + dz * dz) || 1;
+        const strength = definition.strength ?? 0;
+        this.physicsWorld.setHeroVelocity((dx / length) * strength, (dz / length) * strength);
+        hazard.pulse = 1;
+        return { type: 'bumper', x: hero.x, z: hero.z };
+      }
+      case 'boost': {
+        const angle = THREE.MathUtils.degToRad(definition.angle ?? 0);
+        const strength = definition.strength ?? 0;
+        const velocity = this.physicsWorld.getHeroVelocity();
+        this.physicsWorld.setHeroVelocity(
+          velocity.x + Math.cos(angle) * strength,
+          velocity.z + Math.sin(angle) * strength
+        );
+        return { type: 'boost', x: hero.x, z: hero.z };
+      }
+      case 'sticky': {
+        this.stickyInside.add(hazard);
+        this.applyStickyDrag();
+        return { type: 'sticky', x: hero.x, z: hero.z };
+      }
+    }
+  }
+
+  private onExit(hazard: ActiveHazard): HazardEvent | null {
+    if (this.stickyInside.delete(hazard)) this.applyStickyDrag();
+    return null;
+  }
+
+  /** Overlapping zones don't stack: the stickiest one wins */
+  private applyStickyDrag(): void {
+    let drag: number | null = null;
+    this.stickyInside.forEach(({ definition }) => {
+      if (definition.type === 'sticky') drag = Math.max(drag ?? 0, definition.drag ?? 0);
+    });
+    this.physicsWorld.setHeroFrictionAir(drag);
+  }
+
+  private addHazard(hazard: HazardDefinition, index: number): void {
+    const label = `Hazard_${hazard.type}_${index}`;
+    let body: Matter.Body;
+    let mesh: THREE.Mesh;
+
+    switch (hazard.type) {
+      case 'pit': {
+        // The hero only falls once its centre is over the hole
+        const triggerRadius = Math.max(hazard.radius - this.physicsWorld.getHeroRadius(), 0.05);
+        body = this.physicsWorld.addStaticCircle(hazard.x, hazard.z, triggerRadius, label, { isSensor: true });
+
+        mesh = new THREE.Mesh(new THREE.CircleGeometry(hazard.radius, 32), this.pitMaterial);
+        mesh.rotation.x = -Math.PI / 2;
+        const rim = new THREE.Mesh(new THREE.RingGeometry(hazard.radius, hazard.radius + 0.1, 32), this.pitRimMaterial);
+        mesh.add(rim);
+        break;
+      }
+      case 'bumper': {
+        body = this.physicsWorld.addStaticCircle(hazard.x, hazard.z, hazard.radius, label, { restitution: 1 });
+        mesh = new THREE.Mesh(
+          new THREE.CylinderGeometry(hazard.radius, hazard.radius, BUMPER_HEIGHT, 32),
+          this.bumperMaterial
+        );
+        break;
+      }
+      case 'boost':
+      case 'sticky': {
+        const angle = THREE.MathUtils.degToRad(hazard.angle ?? 0);
+        body = this.physicsWorld.addStaticBox(hazard.x, hazard.z, hazard.width, hazard.depth, angle, label, { isSensor: true });
+
+        const geometry = new THREE.PlaneGeometry(hazard.width, hazard.depth);
+        geometry.rotateX(-Math.PI / 2);
+        mesh = new THREE.Mesh(geometry, hazard.type === 'boost' ? this.boostMaterial : this.stickyMaterial);
+        // Matter angle rotates +X towards +Z; Three's Y rotation goes the other way
+        mesh.rotation.y = -angle;
+        if (hazard.type === 'boost') mesh.add(this.createArrow(Math.min(hazard.width, hazard.depth)));
+        break;
+      }
+    }
+
+    const height = hazard.type === 'bumper' ? BUMPER_HEIGHT / 2 : PAD_HEIGHT;
+    mesh.position.set(hazard.x, height, hazard.z);
+    this.scene.add(mesh);
+    this.hazards.set(body.id, { definition: hazard, body, mesh, pulse: 0 });
+  }
+
+  /** Flat chevron pointing along the pad's local +X */
+  private createArrow(size: number): THREE.Mesh {
+    const shape = new THREE.Shape();
+    shape.moveTo(size * 0.35, 0);
+    shape.lineTo(-size * 0.25, size * 0.3);
+    shape.lineTo(-size * 0.1, 0);
+    shape.lineTo(-size * 0.25, -size * 0.3);
+    shape.closePath();
+
+    const geometry = new THREE.ShapeGeometry(shape);
+    geometry.rotateX(-Math.PI / 2);
+    const arrow = new THREE.Mesh(geometry, this.boostArrowMaterial);
+    arrow.position.y = 0.005;
+    return arrow;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * KeyboardTilt
+ * Responsibility: WASD / arrow keys -> beta/gamma with analog-like ramping.
+ * Holding a key eases the tilt up to full over RAMP_TIME instead of snapping,
+ * so short taps give small nudges; releasing eases back to level.
+ */
+export class KeyboardTilt {
+  private readonly MAX_ANGLE = 45;     // Degrees at full ramp (full gravity by default)
+  private readonly RAMP_TIME = 0.35;   // Seconds from level to full tilt
+  private readonly RELEASE_TIME = 0.2; // Seconds from full tilt back to level
+
+  // +beta (top up) rolls the ball away from the player, +gamma rolls it right
+  private readonly KEY_DIRECTIONS: Record<string, { beta: number, gamma: number }> = {
+    KeyW: { beta: 1, gamma: 0 }, ArrowUp: { beta: 1, gamma: 0 },
+    KeyS: { beta: -1, gamma: 0 }, ArrowDown: { beta: -1, gamma: 0 },
+    KeyA: { beta: 0, gamma: -1 }, ArrowLeft: { beta: 0, gamma: -1 },
+    KeyD: { beta: 0, gamma: 1 }, ArrowRight: { beta: 0, gamma: 1 }
+  };
+
+  private pressed = new Set<string>();
+  private beta = 0;
+  private gamma = 0;
+
+  /** @returns true if the key steers (the caller may then swallow it) */
+  public keyDown(code: string): boolean {
+    if (!this.KEY_DIRECTIONS[code]) return false;
+    this.pressed.add(code);
+    return true;
+  }
+
+  public keyUp(code: string): boolean {
+    return this.pressed.delete(code);
+  }
+
+  /** Focus lost: keyup events won't arrive, so nothing may stay held */
+  public releaseAll(): void {
+    this.pressed.clear();
+  }
+
+  public isHeld(): boolean {
+    return this.pressed.size > 0;
+  }
+
+  /**
+   * Advances the ramp toward the held direction.
+   * @returns Current tilt in degrees
+   */
+  public update(dtSeconds: number): { beta: number, gamma: number } {
+    let targetBeta = 0;
+    let targetGamma = 0;
+    this.pressed.forEach(code => {
+      targetBeta += this.KEY_DIRECTIONS[code].beta;
+      targetGamma += this.KEY_DIRECTIONS[code].gamma;
+    });
+    // Opposite keys cancel; both arrow and letter for one direction still count once
+    targetBeta = Math.sign(targetBeta) * this.MAX_ANGLE;
+    targetGamma = Math.sign(targetGamma) * this.MAX_ANGLE;
+
+    this.beta = this.approach(this.beta, targetBeta, dtSeconds);
+    this.gamma = this.approach(this.gamma, targetGamma, dtSeconds);
+    return { beta: this.beta, gamma: this.gamma };
+  }
+
+  public reset(): void {
+    this.pressed.clear();
+    this.beta = 0;
+    this.gamma = 0;
+  }
+
+  private approach(current: number, target: number, dtSeconds: number): number {
+    // Easing toward level (or reversing) uses the quicker release rate
+    const towardLevel = target === 0 || Math.sign(target) !== Math.sign(current);
+    const rate = this.MAX_ANGLE / (towardLevel && current !== 0 ? this.RELEASE_TIME : this.RAMP_TIME);
+    const step = rate * dtSeconds;
+    if (Math.abs(target - current) <= step) return target;
+    return current + Math.sign(target - current) * step;
+  }
+}
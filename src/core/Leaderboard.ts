@@ -0,0 +1,195 @@
+import { KeyValueStorage, getDefaultStorage } from './Storage';
+
+/** How a run was started: Start Game (quick play) or from the campaign map */
+export type RunMode = 'quick' | 'campaign';
+
+/** One finished run */
+export interface LeaderboardEntry {
+  name: string;
+  levelId: string;
+  mode: RunMode;
+  score: number;
+  time: number;  // Seconds played
+  won: boolean;
+  seed: number;
+  date: number;  // Epoch ms when the run finished
+}
+
+interface SaveData {
+  version: 1;
+  playerName: string;
+  entries: LeaderboardEntry[]; // Top runs, TOP_N per mode + level
+  history: LeaderboardEntry[]; // Most recent first
+}
+
+/** Shareable file written by exportJSON() */
+interface ExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: 1;
+  entries: LeaderboardEntry[];
+}
+
+const EXPORT_FORMAT = 'kinetic-tilt-leaderboard';
+
+/**
+ * Leaderboard
+ * Responsibility: Local top runs per mode + level (name, score, time, date, seed),
+ * the recent run history and the player's name. Leaderboards can be exported to
+ * JSON and merged back in, so players can compare across devices.
+ */
+export class Leaderboard {
+  private readonly STORAGE_KEY = 'kinetic-tilt-leaderboard';
+  private readonly TOP_N = 10;
+  private readonly HISTORY_SIZE = 50;
+  private readonly MAX_NAME_LENGTH = 16;
+
+  private storage: KeyValueStorage;
+  private data: SaveData = { version: 1, playerName: 'Player', entries: [], history: [] };
+
+  constructor(storage: KeyValueStorage = getDefaultStorage()) {
+    this.storage = storage;
+    this.load();
+  }
+
+  public getPlayerName(): string {
+    return this.data.playerName;
+  }
+
+  public setPlayerName(name: string): void {
+    this.data.playerName = this.cleanName(name);
+    this.save();
+  }
+
+  /**
+   * Records a finished run under the current player name.
+   * @returns 1-based rank on its mode/level board, or null if it didn't make the top N
+   */
+  public addRun(run: Omit<LeaderboardEntry, 'name'>): number | null {
+    const entry: LeaderboardEntry = { ...run, name: this.data.playerName };
+
+    this.data.history.unshift(entry);
+    this.data.history.length = Math.min(this.data.history.length, this.HISTORY_SIZE);
+
+    this.data.entries.push(entry);
+    this.trim();
+    this.save();
+
+    const rank = this.getTop(entry.levelId, entry.mode).indexOf(entry);
+    if (rank >= 0) console.log(`🏅 Leaderboard: #${rank + 1} on ${entry.levelId} (${entry.mode})`);
+    return rank >= 0 ? rank + 1 : null;
+  }
+
+  /**
+   * Best runs on a level, highest score first. Omit `mode` to merge every mode.
+   */
+  public getTop(levelId: string, mode?: RunMode): LeaderboardEntry[] {
+    return this.data.entries
+      .filter(entry => entry.levelId === levelId && (mode === undefined || entry.mode === mode))
+      .sort(compareEntries)
+      .slice(0, this.TOP_N);
+  }
+
+  /** Levels that have at least one leaderboard entry */
+  public getLevelIds(): string[] {
+    return [...new Set(this.data.entries.map(entry => entry.levelId))];
+  }
+
+  /** Recent runs, newest first */
+  public getHistory(): LeaderboardEntry[] {
+    return [...this.data.history];
+  }
+
+  public exportJSON(): string {
+    const file: ExportFile = { format: EXPORT_FORMAT, version: 1, entries: this.data.entries };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Merges an exported leaderboard into this one (duplicates are skipped).
+   * Throws on files that aren't leaderboard exports.
+   * @returns How many new entries were added
+   */
+  public importJSON(text: string): number {
+    const raw = JSON.parse(text);
+    if (raw?.format !== EXPORT_FORMAT || raw.version !== 1 || !Array.isArray(raw.entries)) {
+      throw new Error('Not a Kinetic Tilt leaderboard file');
+    }
+
+    const entries = raw.entries.map((entry: unknown, i: number) => this.parseEntry(entry, `entries[${i}]`));
+    const known = new Set(this.data.entries.map(entryKey));
+    const added = entries.filter((entry: LeaderboardEntry) => !known.has(entryKey(entry)));
+
+    this.data.entries.push(...added);
+    this.trim();
+    this.save();
+    console.log(`📥 Leaderboard Imported: ${added.length} new run(s)`);
+    return added.length;
+  }
+
+  /** Keeps only the top N of every mode/level board */
+  private trim(): void {
+    const boards = new Map<string, LeaderboardEntry[]>();
+    this.data.entries.forEach(entry => {
+      const key = `${entry.mode}/${entry.levelId}`;
+      boards.set(key, [...(boards.get(key) ?? []), entry]);
+    });
+    this.data.entries = [...boards.values()].flatMap(board => board.sort(compareEntries).slice(0, this.TOP_N));
+  }
+
+  private parseEntry(value: unknown, where: string): LeaderboardEntry {
+    const e = value as Record<string, unknown>;
+    const isNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+    if (typeof e?.name !== 'string' || typeof e.levelId !== 'string'
+      || (e.mode !== 'quick' && e.mode !== 'campaign')
+      || !isNumber(e.score) || !isNumber(e.time) || !isNumber(e.seed) || !isNumber(e.date)) {
+      throw new Error(`Leaderboard ${where} is malformed`);
+    }
+    return {
+      name: this.cleanName(e.name),
+      levelId: e.levelId,
+      mode: e.mode,
+      score: e.score as number,
+      time: e.time as number,
+      won: e.won === true,
+      seed: (e.seed as number) >>> 0,
+      date: e.date as number
+    };
+  }
+
+  private cleanName(name: string): string {
+    return name.trim().slice(0, this.MAX_NAME_LENGTH) || 'Player';
+  }
+
+  private load(): void {
+    const saved = this.storage.getItem(this.STORAGE_KEY);
+    if (!saved) return;
+    try {
+      const parsed = JSON.parse(saved) as SaveData;
+      this.data = {
+        version: 1,
+        playerName: parsed.playerName ?? 'Player',
+        entries: parsed.entries ?? [],
+        history: parsed.history ?? []
+      };
+    } catch (error) {
+      console.error('Corrupt leaderboard data, starting fresh:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage.setItem(this.STORAGE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      console.warn('Could not save leaderboard:', error);
+    }
+  }
+}
+
+/** Higher score first; ties go to the faster, then the earlier run */
+function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  return b.score - a.score || a.time - b.time || a.date - b.date;
+}
+
+function entryKey(entry: LeaderboardEntry): string {
+  return `${entry.name}|${entry.levelId}|${entry.mode}|${entry.score}|${entry.seed}|${entry.date}`;
+}
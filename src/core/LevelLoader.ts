@@ -0,0 +1,407 @@
+import Matter from 'matter-js';
+import * as THREE from 'three';
+import { PhysicsWorld } from './PhysicsWorld';
+import { Mover } from './Mover';
+import {
+  DoorDefinition, HazardDefinition, LevelDefinition, MoverDefinition, MoverMotion,
+  ObstacleDefinition, Point2D, RingSpawnRules, WallSegment
+} from './types';
+
+const DEFAULT_WALL_THICKNESS = 0.5;
+const DEFAULT_PIT_PENALTY = 5;       // Seconds
+const DEFAULT_BUMPER_STRENGTH = 12;  // Units/s
+const DEFAULT_BOOST_STRENGTH = 10;   // Units/s added
+const DEFAULT_STICKY_DRAG = 0.3;     // Hero frictionAir (normal: 0.075)
+const DEFAULT_RING_HERO_DISTANCE = 4;
+const OBSTACLE_HEIGHT = 1.0;
+const RIM_HEIGHT = 0.4;
+const RIM_THICKNESS = 0.2;
+
+/** A JSON object whose fields haven't been validated yet */
+type RawObject = Record<string, unknown>;
+
+/**
+ * Validates raw level JSON and fills in optional fields.
+ * Throws a descriptive Error on malformed input so bad level files fail loudly at load time.
+ */
+export function parseLevel(data: unknown): LevelDefinition {
+  if (!isObject(data)) {
+    throw new Error('Level must be a JSON object');
+  }
+  const raw = data;
+
+  const id = requireString(raw.id, 'id');
+  const where = `Level "${id}"`;
+
+  const arena = optionalObject(raw.arena, `${where}: arena`);
+  const width = requirePositive(arena.width, `${where}: arena.width`);
+  const depth = requirePositive(arena.depth ?? arena.width, `${where}: arena.depth`);
+
+  const spawn = raw.spawn ? parsePoint(raw.spawn, `${where}: spawn`) : { x: 0, z: 0 };
+  if (Math.abs(spawn.x) >= width / 2 || Math.abs(spawn.z) >= depth / 2) {
+    throw new Error(`${where}: spawn (${spawn.x}, ${spawn.z}) is outside the arena`);
+  }
+
+  const walls: WallSegment[] = optionalArray(raw.walls, `${where}: walls`).map((value, i) => {
+    const w = requireObject(value, `${where}: walls[${i}]`);
+    return {
+      from: parsePoint(w.from, `${where}: walls[${i}].from`),
+      to: parsePoint(w.to, `${where}: walls[${i}].to`),
+      thickness: w.thickness !== undefined
+        ? requirePositive(w.thickness, `${where}: walls[${i}].thickness`)
+        : DEFAULT_WALL_THICKNESS
+    };
+  });
+
+  const obstacles: ObstacleDefinition[] = optionalArray(raw.obstacles, `${where}: obstacles`).map((o, i) =>
+    parseObstacle(o, `${where}: obstacles[${i}]`)
+  );
+
+  const movers: MoverDefinition[] = optionalArray(raw.movers, `${where}: movers`).map((m, i) =>
+    parseMover(m, `${where}: movers[${i}]`)
+  );
+
+  const hazards: HazardDefinition[] = optionalArray(raw.hazards, `${where}: hazards`).map((h, i) =>
+    parseHazard(h, `${where}: hazards[${i}]`)
+  );
+
+  const goalsRequired = Math.round(requirePositive(raw.goalsRequired ?? 10, `${where}: goalsRequired`));
+
+  return {
+    id,
+    name: typeof raw.name === 'string' ? raw.name : id,
+    arena: { width, depth },
+    spawn,
+    goalsRequired,
+    timeLimit: requirePositive(raw.timeLimit ?? 60, `${where}: timeLimit`),
+    stars: raw.stars !== undefined
+      ? parseStars(raw.stars, `${where}: stars`)
+      : [0, goalsRequired * 150, goalsRequired * 190],
+    walls,
+    obstacles,
+    movers,
+    hazards,
+    ringSpawn: parseRingSpawn(raw.ringSpawn, `${where}: ringSpawn`)
+  };
+}
+
+function parseRingSpawn(value: unknown, where: string): RingSpawnRules {
+  const r = optionalObject(value, where);
+  return {
+    minHeroDistance: r.minHeroDistance !== undefined
+      ? requirePositive(r.minHeroDistance, `${where}.minHeroDistance`)
+      : DEFAULT_RING_HERO_DISTANCE,
+    difficultyCurve: r.difficultyCurve === true
+  };
+}
+
+function parseObstacle(value: unknown, where: string): ObstacleDefinition {
+  const o = requireObject(value, where);
+  const x = requireNumber(o.x, `${where}.x`);
+  const z = requireNumber(o.z, `${where}.z`);
+
+  switch (o.type) {
+    case 'box':
+      return {
+        type: 'box', x, z,
+        width: requirePositive(o.width, `${where}.width`),
+        depth: requirePositive(o.depth, `${where}.depth`),
+        angle: o.angle !== undefined ? requireNumber(o.angle, `${where}.angle`) : 0
+      };
+    case 'circle':
+      return { type: 'circle', x, z, radius: requirePositive(o.radius, `${where}.radius`) };
+    default:
+      throw new Error(`${where}: unknown obstacle type "${o.type}"`);
+  }
+}
+
+function parseMover(value: unknown, where: string): MoverDefinition {
+  const m = requireObject(value, where);
+  const mover: MoverDefinition = parseObstacle(m, where);
+
+  if (m.motion !== undefined) mover.motion = parseMotion(m.motion, `${where}.motion`);
+  if (m.spin !== undefined) mover.spin = requireNumber(m.spin, `${where}.spin`);
+  if (m.door !== undefined) {
+    const raw = requireObject(m.door, `${where}.door`);
+    const door: DoorDefinition = {
+      opensAfter: Math.round(requirePositive(raw.opensAfter, `${where}.door.opensAfter`)),
+      dx: requireNumber(raw.dx ?? 0, `${where}.door.dx`),
+      dz: requireNumber(raw.dz ?? 0, `${where}.door.dz`),
+      duration: requirePositive(raw.duration ?? 1, `${where}.door.duration`)
+    };
+    mover.door = door;
+  }
+
+  if (!mover.motion && !mover.spin && !mover.door) {
+    throw new Error(`${where} needs a motion, spin or door (use obstacles for fixed geometry)`);
+  }
+  return mover;
+}
+
+function parseMotion(value: unknown, where: string): MoverMotion {
+  const motion = requireObject(value, where);
+  const period = requirePositive(motion.period, `${where}.period`);
+
+  switch (motion.type) {
+    case 'sine':
+      return {
+        type: 'sine', period,
+        dx: requireNumber(motion.dx ?? 0, `${where}.dx`),
+        dz: requireNumber(motion.dz ?? 0, `${where}.dz`),
+        phase: motion.phase !== undefined ? requireNumber(motion.phase, `${where}.phase`) : 0
+      };
+    case 'keyframes': {
+      if (!Array.isArray(motion.points) || motion.points.length < 2) {
+        throw new Error(`${where}.points must list at least 2 offsets`);
+      }
+      const points = motion.points.map((p: unknown, i: number) => parsePoint(p, `${where}.points[${i}]`));
+      return { type: 'keyframes', period, points };
+    }
+    default:
+      throw new Error(`${where}: unknown motion type "${motion.type}"`);
+  }
+}
+
+function parseHazard(value: unknown, where: string): HazardDefinition {
+  const h = requireObject(value, where);
+  const x = requireNumber(h.x, `${where}.x`);
+  const z = requireNumber(h.z, `${where}.z`);
+  const optional = (key: string, fallback: number) =>
+    h[key] !== undefined ? requirePositive(h[key], `${where}.${key}`) : fallback;
+
+  switch (h.type) {
+    case 'pit':
+      return {
+        type: 'pit', x, z,
+        radius: requirePositive(h.radius, `${where}.radius`),
+        penalty: optional('penalty', DEFAULT_PIT_PENALTY)
+      };
+    case 'bumper':
+      return {
+        type: 'bumper', x, z,
+        radius: requirePositive(h.radius, `${where}.radius`),
+        strength: optional('strength', DEFAULT_BUMPER_STRENGTH)
+      };
+    case 'boost':
+    case 'sticky': {
+      const area = {
+        x, z,
+        width: requirePositive(h.width, `${where}.width`),
+        depth: requirePositive(h.depth, `${where}.depth`),
+        angle: h.angle !== undefined ? requireNumber(h.angle, `${where}.angle`) : 0
+      };
+      return h.type === 'boost'
+        ? { type: 'boost', ...area, strength: optional('strength', DEFAULT_BOOST_STRENGTH) }
+        : { type: 'sticky', ...area, drag: optional('drag', DEFAULT_STICKY_DRAG) };
+    }
+    default:
+      throw new Error(`${where}: unknown hazard type "${h.type}"`);
+  }
+}
+
+function parseStars(value: unknown, where: string): [number, number, number] {
+  if (!Array.isArray(value) || value.length !== 3) {
+    throw new Error(`${where} must be an array of 3 score thresholds`);
+  }
+  const [one, two, three] = value.map((v: unknown, i: number) => requireNumber(v, `${where}[${i}]`));
+  if (!(one <= two && two <= three)) {
+    throw new Error(`${where} must be in ascending order`);
+  }
+  return [one, two, three];
+}
+
+function parsePoint(value: unknown, where: string): Point2D {
+  const p = requireObject(value, where);
+  return { x: requireNumber(p.x, `${where}.x`), z: requireNumber(p.z, `${where}.z`) };
+}
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireObject(value: unknown, where: string): RawObject {
+  if (!isObject(value)) throw new Error(`${where} must be an object`);
+  return value;
+}
+
+/** Missing optional sections read as empty */
+function optionalObject(value: unknown, where: string): RawObject {
+  return value === undefined ? {} : requireObject(value, where);
+}
+
+function optionalArray(value: unknown, where: string): unknown[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error(`${where} must be an array`);
+  return value;
+}
+
+function requireString(value: unknown, where: string): string {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`${where} must be a non-empty string`);
+  }
+  return value;
+}
+
+function requireNumber(value: unknown, where: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${where} must be a finite number`);
+  }
+  return value;
+}
+
+function requirePositive(value: unknown, where: string): number {
+  const n = requireNumber(value, where);
+  if (n <= 0) throw new Error(`${where} must be greater than 0`);
+  return n;
+}
+
+/**
+ * LevelLoader
+ * Responsibility: Turns a LevelDefinition into Matter.js bodies (via PhysicsWorld)
+ * and matching Three.js meshes, and tears them down again when switching levels.
+ */
+export class LevelLoader {
+  private physicsWorld: PhysicsWorld;
+  private scene: THREE.Scene;
+
+  private bodies: Matter.Body[] = [];
+  private meshes: THREE.Mesh[] = [];
+  private current: LevelDefinition | null = null;
+
+  private readonly wallMaterial = new THREE.MeshStandardMaterial({
+    color: 0x334466, roughness: 0.6, metalness: 0.2
+  });
+  private readonly moverMaterial = new THREE.MeshStandardMaterial({
+    color: 0xdd8833, emissive: 0x331100, roughness: 0.5, metalness: 0.3
+  });
+  private readonly doorMaterial = new THREE.MeshStandardMaterial({
+    color: 0x44cc99, emissive: 0x0a3322, roughness: 0.5, metalness: 0.3
+  });
+  private readonly rimMaterial = new THREE.MeshStandardMaterial({
+    color: 0x4488ff, emissive: 0x112244, roughness: 0.4, metalness: 0.5
+  });
+
+  constructor(physicsWorld: PhysicsWorld, scene: THREE.Scene) {
+    this.physicsWorld = physicsWorld;
+    this.scene = scene;
+  }
+
+  public load(level: LevelDefinition): void {
+    this.unload();
+    this.current = level;
+
+    const { width, depth } = level.arena;
+
+    // 1. Arena boundary (physics) + low visual rim
+    this.bodies.push(...this.physicsWorld.addBoundaries(width, depth));
+    this.addRim(width, depth);
+
+    // 2. Interior wall segments
+    level.walls.forEach((wall, i) => this.addWall(wall, i));
+
+    // 3. Static obstacles
+    level.obstacles.forEach((obstacle, i) => this.addObstacle(obstacle, i));
+
+    // 4. Movers (kinematic: PhysicsWorld animates them, syncVisuals moves the meshes)
+    level.movers.forEach((mover, i) => this.addMover(mover, i));
+
+    console.log(`🗺️ Level Loaded: ${level.name} (${width}x${depth}, ${level.obstacles.length} obstacles, ${level.movers.length} movers)`);
+  }
+
+  public unload(): void {
+    this.bodies.forEach(body => this.physicsWorld.removeBody(body));
+    this.meshes.forEach(mesh => {
+      this.scene.remove(mesh);
+      mesh.geometry.dispose();
+    });
+    this.bodies = [];
+    this.meshes = [];
+    this.current = null;
+  }
+
+  public getCurrentLevel(): LevelDefinition | null {
+    return this.current;
+  }
+
+  private addWall(wall: WallSegment, index: number): void {
+    const dx = wall.to.x - wall.from.x;
+    const dz = wall.to.z - wall.from.z;
+    const length = Math.sqrt(dx * dx + dz * dz);
+    const angle = Math.atan2(dz, dx);
+    const cx = (wall.from.x + wall.to.x) / 2;
+    const cz = (wall.from.z + wall.to.z) / 2;
+    const thickness = wall.thickness ?? DEFAULT_WALL_THICKNESS;
+
+    this.bodies.push(
+      this.physicsWorld.addStaticBox(cx, cz, length + thickness, thickness, angle, `Wall_${index}`)
+    );
+    this.addBoxMesh(cx, cz, length + thickness, thickness, OBSTACLE_HEIGHT, angle, this.wallMaterial);
+  }
+
+  private addObstacle(obstacle: ObstacleDefinition, index: number): void {
+    const label = `Obstacle_${index}`;
+
+    if (obstacle.type === 'box') {
+      const angle = THREE.MathUtils.degToRad(obstacle.angle ?? 0);
+      this.bodies.push(
+        this.physicsWorld.addStaticBox(obstacle.x, obstacle.z, obstacle.width, obstacle.depth, angle, label)
+      );
+      this.addBoxMesh(obstacle.x, obstacle.z, obstacle.width, obstacle.depth, OBSTACLE_HEIGHT, angle, this.wallMaterial);
+    } else {
+      this.bodies.push(
+        this.physicsWorld.addStaticCircle(obstacle.x, obstacle.z, obstacle.radius, label)
+      );
+      this.addCylinderMesh(obstacle.x, obstacle.z, obstacle.radius, this.wallMaterial);
+    }
+  }
+
+  private addMover(definition: MoverDefinition, index: number): void {
+    const body = this.physicsWorld.addMover(new Mover(definition), `Mover_${index}`);
+    this.bodies.push(body);
+
+    const material = definition.door ? this.doorMaterial : this.moverMaterial;
+    const mesh = definition.type === 'box'
+      ? this.addBoxMesh(0, 0, definition.width, definition.depth, OBSTACLE_HEIGHT, 0, material)
+      : this.addCylinderMesh(0, 0, definition.radius, material);
+    this.physicsWorld.linkMesh(mesh, body);
+  }
+
+  private addRim(width: number, depth: number): void {
+    const hw = width / 2 + RIM_THICKNESS / 2;
+    const hd = depth / 2 + RIM_THICKNESS / 2;
+    const long = width + RIM_THICKNESS * 2;
+
+    this.addBoxMesh(0, hd, long, RIM_THICKNESS, RIM_HEIGHT, 0, this.rimMaterial);
+    this.addBoxMesh(0, -hd, long, RIM_THICKNESS, RIM_HEIGHT, 0, this.rimMaterial);
+    this.addBoxMesh(hw, 0, RIM_THICKNESS, depth, RIM_HEIGHT, 0, this.rimMaterial);
+    this.addBoxMesh(-hw, 0, RIM_THICKNESS, depth, RIM_HEIGHT, 0, this.rimMaterial);
+  }
+
+  private addBoxMesh(
+    x: number, z: number,
+    width: number, depth: number, height: number,
+    angle: number,
+    material: THREE.Material
+  ): THREE.Mesh {
+    const geometry = new THREE.BoxGeometry(width, height, depth);
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.position.set(x, height / 2, z);
+    // Matter angle rotates +X towards +Y (= +Z); Three's Y rotation goes the other way
+    mesh.rotation.y = -angle;
+    this.track(mesh);
+    return mesh;
+  }
+
+  private addCylinderMesh(x: number, z: number, radius: number, material: THREE.Material): THREE.Mesh {
+    const geometry = new THREE.CylinderGeometry(radius, radius, OBSTACLE_HEIGHT, 32);
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.position.set(x, OBSTACLE_HEIGHT / 2, z);
+    this.track(mesh);
+    return mesh;
+  }
+
+  private track(mesh: THREE.Mesh): void {
+    this.scene.add(mesh);
+    this.meshes.push(mesh);
+  }
+}
@@ -0,0 +1,100 @@
+import * as THREE from 'three';
+import { MoverDefinition, Point2D } from './types';
+
+/** Where a mover is at a given time (world units, angle in radians from +X towards +Z) */
+export interface MoverPose {
+  x: number;
+  z: number;
+  angle: number;
+}
+
+/**
+ * Mover
+ * Responsibility: The path of one kinematic obstacle — sliding (sine/keyframes),
+ * spinning and door opening — as a pure function of the mover clock.
+ *
+ * Bodies are positioned by PhysicsWorld; this class only answers "where at time t".
+ */
+export class Mover {
+  private definition: MoverDefinition;
+  private openedAt: number | null = null;
+
+  constructor(definition: MoverDefinition) {
+    this.definition = definition;
+  }
+
+  public getDefinition(): MoverDefinition {
+    return this.definition;
+  }
+
+  public poseAt(time: number): MoverPose {
+    const { x, z, motion, spin, door } = this.definition;
+    const baseAngle = this.definition.type === 'box' ? THREE.MathUtils.degToRad(this.definition.angle ?? 0) : 0;
+    const pose: MoverPose = { x, z, angle: baseAngle };
+
+    // 1. Path
+    if (motion?.type === 'sine') {
+      const cycle = Math.sin(2 * Math.PI * (time / motion.period + (motion.phase ?? 0)));
+      pose.x += motion.dx * cycle;
+      pose.z += motion.dz * cycle;
+    } else if (motion?.type === 'keyframes') {
+      const offset = sampleKeyframes(motion.points, motion.period, time);
+      pose.x += offset.x;
+      pose.z += offset.z;
+    }
+
+    // 2. Spin
+    if (spin) pose.angle += THREE.MathUtils.degToRad(spin) * time;
+
+    // 3. Door (eased slide once opened)
+    if (door && this.openedAt !== null) {
+      const t = Math.min(1, (time - this.openedAt) / door.duration);
+      const eased = t * t * (3 - 2 * t);
+      pose.x += door.dx * eased;
+      pose.z += door.dz * eased;
+    }
+
+    return pose;
+  }
+
+  /**
+   * Starts opening (doors only). Repeat calls keep the original start time.
+   */
+  public open(time: number): void {
+    if (this.definition.door && this.openedAt === null) {
+      this.openedAt = time;
+      console.log(`🚪 Door Opening (${this.definition.door.opensAfter} rings)`);
+    }
+  }
+
+  public isDoor(): boolean { return this.definition.door !== undefined; }
+  public isOpen(): boolean { return this.openedAt !== null; }
+
+  /** Rings needed to open this door, or null if it isn't one */
+  public getOpensAfter(): number | null {
+    return this.definition.door?.opensAfter ?? null;
+  }
+
+  /** Distance from the centre to the furthest point (for sweep estimates while spinning) */
+  public getBoundingRadius(): number {
+    const d = this.definition;
+    return d.type === 'box' ? Math.sqrt(d.width * d.width + d.depth * d.depth) / 2 : d.radius;
+  }
+
+  public reset(): void {
+    this.openedAt = null;
+  }
+}
+
+/** Linear interpolation around a closed loop of points, equal time per segment */
+function sampleKeyframes(points: Point2D[], period: number, time: number): Point2D {
+  if (points.length === 1) return points[0];
+
+  const cycle = ((time % period) + period) % period / period; // [0, 1)
+  const position = cycle * points.length;
+  const index = Math.floor(position);
+  const t = position - index;
+  const from = points[index];
+  const to = points[(index + 1) % points.length];
+  return { x: from.x + (to.x - from.x) * t, z: from.z + (to.z - from.z) * t };
+}
@@ -0,0 +1,37 @@
+/** Screen rotation relative to the device's natural (portrait) orientation */
+export type ScreenAngle = 0 | 90 | 180 | 270;
+
+/**
+ * Rounds any angle (e.g. window.orientation's -90) to one of the four screen rotations.
+ */
+export function normalizeScreenAngle(angle: number): ScreenAngle {
+  const quarterTurns = Math.round((((angle % 360) + 360) % 360) / 90) % 4;
+  return (quarterTurns * 90) as ScreenAngle;
+}
+
+/**
+ * Current screen rotation: Screen Orientation API, then the legacy window.orientation (older iOS).
+ */
+export function readScreenAngle(): ScreenAngle {
+  if (typeof screen !== 'undefined' && screen.orientation) return normalizeScreenAngle(screen.orientation.angle);
+  const legacy = typeof window !== 'undefined' ? (window as { orientation?: number }).orientation : undefined;
+  return normalizeScreenAngle(typeof legacy === 'number' ? legacy : 0);
+}
+
+/**
+ * Converts DeviceOrientation beta/gamma (relative to the device's portrait axes) into the
+ * same angles relative to the screen as currently shown, so "top edge up" and "right edge
+ * down" always mean screen-top and screen-right whichever way the phone is turned.
+ */
+export function remapTilt(beta: number, gamma: number, angle: ScreenAngle): { beta: number, gamma: number } {
+  switch (angle) {
+    case 90:  // Turned counter-clockwise: screen-up is the device's right edge
+      return { beta: -gamma, gamma: beta };
+    case 180:
+      return { beta: -beta, gamma: -gamma };
+    case 270: // Turned clockwise: screen-up is the device's left edge
+      return { beta: gamma, gamma: -beta };
+    default:
+      return { beta, gamma };
+  }
+}
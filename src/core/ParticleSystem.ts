@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { RandomSource, SeededRandom } from './Random';
 
 interface BurstParticle {
   active: boolean;
@@ -11,9 +12,11 @@ export class ParticleSystem {
   // Ambient Swarm
   private mesh: THREE.InstancedMesh;
   private count: number;
+  private activeCount: number; // Simulated + drawn (graphics quality)
   private dummy: THREE.Object3D; 
   private positions: Float32Array; 
   private velocities: Float32Array;
+  private random: RandomSource;
 
   // Burst System (New)
   private burstMesh: THREE.InstancedMesh;
@@ -21,15 +24,19 @@ export class ParticleSystem {
   private burstParticles: BurstParticle[];
   private burstPositions: Float32Array;
   
+  // Arena footprint the swarm wraps around (set per level)
+  private arenaWidth = 20;
+  private arenaDepth = 20;
+
   // Tuning
-  private readonly WORLD_SIZE = 20;
-  private readonly HALF_SIZE = 10;
   private readonly INFLUENCE_RADIUS = 2.5;
   private readonly INFLUENCE_SQ = this.INFLUENCE_RADIUS * this.INFLUENCE_RADIUS;
   private readonly DRAG = 0.95; 
 
-  constructor(scene: THREE.Scene, count: number = 2000) {
+  constructor(scene: THREE.Scene, count: number = 2000, random: RandomSource = new SeededRandom()) {
     this.count = count;
+    this.activeCount = count;
+    this.random = random;
     this.dummy = new THREE.Object3D();
 
     // --- 1. AMBIENT SWARM (Blue) ---
@@ -84,6 +91,30 @@ export class ParticleSystem {
     scene.add(this.burstMesh);
   }
 
+  /**
+   * Swaps the RNG; takes effect for the next reset()/burst.
+   */
+  public setRandom(random: RandomSource): void {
+    this.random = random;
+  }
+
+  /**
+   * Spreads the ambient swarm over a new arena footprint.
+   */
+  public setArena(width: number, depth: number): void {
+    this.arenaWidth = width;
+    this.arenaDepth = depth;
+    this.initParticles();
+  }
+
+  /**
+   * Simulates and draws only a fraction (0..1) of the ambient swarm.
+   */
+  public setDensity(fraction: number): void {
+    this.activeCount = Math.round(this.count * THREE.MathUtils.clamp(fraction, 0, 1));
+    this.mesh.count = this.activeCount;
+  }
+
   // ... [initParticles method unchanged] ...
   public reset(): void {
     console.log('Resetting particle system...');
@@ -106,8 +137,8 @@ export class ParticleSystem {
       let tries = 0;
 
       while (!valid && tries < 10) {
-        x = (Math.random() - 0.5) * this.WORLD_SIZE;
-        z = (Math.random() - 0.5) * this.WORLD_SIZE;
+        x = (this.random.next() - 0.5) * this.arenaWidth;
+        z = (this.random.next() - 0.5) * this.arenaDepth;
         if (x*x + z*z > 4) valid = true; 
         tries++;
       }
@@ -116,9 +147,9 @@ export class ParticleSystem {
       this.positions[idx+1] = 0.2; 
       this.positions[idx+2] = z;
 
-      this.velocities[idx] = (Math.random() - 0.5) * 0.1;
+      this.velocities[idx] = (this.random.next() - 0.5) * 0.1;
       this.velocities[idx+1] = 0;
-      this.velocities[idx+2] = (Math.random() - 0.5) * 0.1;
+      this.velocities[idx+2] = (this.random.next() - 0.5) * 0.1;
 
       this.updateInstanceMatrix(i);
     }
@@ -128,9 +159,8 @@ export class ParticleSystem {
   /**
    * Spawns an explosion of particles at the given position
    */
-  public createBurst(position: THREE.Vector3): void {
+  public createBurst(position: THREE.Vector3, particlesToSpawn: number = 30): void {
     let spawned = 0;
-    const particlesToSpawn = 30;
 
     // Find inactive particles in the pool
     for (let i = 0; i < this.burstCount; i++) {
@@ -140,7 +170,7 @@ export class ParticleSystem {
         if (!p.active) {
             p.active = true;
             p.life = 1.0;
-            p.maxLife = 0.8 + Math.random() * 0.4; // Random life 0.8-1.2s
+            p.maxLife = 0.8 + this.random.next() * 0.4; // Random life 0.8-1.2s
             
             // Set Position
             const idx = i * 3;
@@ -150,9 +180,9 @@ export class ParticleSystem {
 
             // Set Velocity (Explosion)
             // Random direction in sphere
-            const theta = Math.random() * Math.PI * 2;
-            const phi = Math.acos(2 * Math.random() - 1);
-            const speed = 5 + Math.random() * 5; // 5-10 units/sec
+            const theta = this.random.next() * Math.PI * 2;
+            const phi = Math.acos(2 * this.random.next() - 1);
+            const speed = 5 + this.random.next() * 5; // 5-10 units/sec
 
             p.velocity.set(
                 speed * Math.sin(phi) * Math.cos(theta),
@@ -169,8 +199,10 @@ export class ParticleSystem {
     // --- 1. UPDATE AMBIENT SWARM ---
     const heroX = heroPosition.x;
     const heroZ = heroPosition.z;
+    const halfWidth = this.arenaWidth / 2;
+    const halfDepth = this.arenaDepth / 2;
 
-    for (let i = 0; i < this.count; i++) {
+    for (let i = 0; i < this.activeCount; i++) {
       const idx = i * 3;
       
       this.positions[idx]   += this.velocities[idx] * deltaTime;
@@ -193,11 +225,11 @@ export class ParticleSystem {
       this.velocities[idx]   *= this.DRAG;
       this.velocities[idx+2] *= this.DRAG;
 
-      if (this.positions[idx] > this.HALF_SIZE) this.positions[idx] -= this.WORLD_SIZE;
-      else if (this.positions[idx] < -this.HALF_SIZE) this.positions[idx] += this.WORLD_SIZE;
+      if (this.positions[idx] > halfWidth) this.positions[idx] -= this.arenaWidth;
+      else if (this.positions[idx] < -halfWidth) this.positions[idx] += this.arenaWidth;
       
-      if (this.positions[idx+2] > this.HALF_SIZE) this.positions[idx+2] -= this.WORLD_SIZE;
-      else if (this.positions[idx+2] < -this.HALF_SIZE) this.positions[idx+2] += this.WORLD_SIZE;
+      if (this.positions[idx+2] > halfDepth) this.positions[idx+2] -= this.arenaDepth;
+      else if (this.positions[idx+2] < -halfDepth) this.positions[idx+2] += this.arenaDepth;
 
       this.updateInstanceMatrix(i);
     }
@@ -1,20 +1,118 @@
 import Matter from 'matter-js';
 import * as THREE from 'three';
+import { GravityVector } from './types';
+import { Mover, MoverPose } from './Mover';
 
 // SCALING: Matter.js struggles with small bodies (< 1 unit).
 // We scale the physics world up by 10x to ensure stable collision detection.
 const PHYSICS_SCALE = 10;
 
+/** Body fields the solver reads that @types/matter-js leaves out (or marks readonly) */
+interface BodyMotionState {
+  position: Matter.Vector;
+  positionPrev: Matter.Vector;
+  angle: number;
+  anglePrev: number;
+  velocity: Matter.Vector;
+  speed: number;
+  angularVelocity: number;
+  angularSpeed: number;
+}
+
+/** Hero and engine constants, live-tunable from the debug overlay (not saved; replays store non-default values) */
+export interface PhysicsTuning {
+  heroFrictionAir: number; // Air drag: caps speed and damps rolling
+  heroFriction: number;    // Against walls and obstacles
+  heroRestitution: number; // Bounce off walls
+  maxHeroSpeed: number;    // Velocity clamp, scaled units per step (anti-tunneling)
+  gravityScale: number;    // Matter engine.gravity.scale (tilt gravity is multiplied by it)
+}
+
+export const DEFAULT_PHYSICS_TUNING: Readonly<PhysicsTuning> = {
+  heroFrictionAir: 0.075, // High drag to prevent infinite acceleration (was 0.01)
+  heroFriction: 0.075,    // Higher rolling resistance (was 0.01)
+  heroRestitution: 0.3,   // Less bouncy (was 0.4)
+  maxHeroSpeed: 15,
+  gravityScale: 0.001
+};
+
+export function isDefaultTuning(tuning: PhysicsTuning): boolean {
+  return (Object.keys(DEFAULT_PHYSICS_TUNING) as Array<keyof PhysicsTuning>)
+    .every(key => tuning[key] === DEFAULT_PHYSICS_TUNING[key]);
+}
+
+/** One body outline in world units (X-Z floor plane), for the debug overlay */
+export interface BodyOutline {
+  label: string;
+  isStatic: boolean;
+  isMover: boolean; // Static, but moved every step (see addMover)
+  isSensor: boolean;
+  points: Array<{ x: number, z: number }>;
+}
+
+interface KinematicBody {
+  mover: Mover;
+  body: Matter.Body;
+  localVertices: Matter.Vector[]; // Relative to the centre at angle 0 (scaled units)
+  stepTravel: number;             // Furthest any point moved over the last full step (world units)
+}
+
 export class PhysicsWorld {
   private engine: Matter.Engine;
   private heroBody: Matter.Body | null = null;
+  private heroRadius: number = 0.5;
+  private tuning: PhysicsTuning = { ...DEFAULT_PHYSICS_TUNING };
+  private heroFrictionAirOverride: number | null = null; // Sticky zones (see setHeroFrictionAir)
+  private onHeroContact?: (other: Matter.Body, phase: 'start' | 'end') => void;
   private meshBodyPairs: Array<{ mesh: THREE.Mesh, body: Matter.Body }> = [];
 
+  // Kinematic obstacles (sliding walls, spinning bars, doors)
+  private kinematics: KinematicBody[] = [];
+  private heroMoverContacts = new Set<Matter.Body>();
+  private moverTime = 0; // Seconds since resetMovers()
+  private heroWallHits = 0; // Impacts with level geometry since the last takeHeroWallHits()
+  private readonly GEOMETRY_LABEL = /^(Wall|Obstacle|Mover)/; // Boundaries, walls, obstacles, movers (not hazards)
+  private readonly MAX_SUBSTEP_TRAVEL = 0.2; // World units a mover may sweep per substep (hero radius 0.5)
+  private readonly MAX_SUBSTEPS = 8;
+
+  // Scratch objects for the rolling visual (reused every sync)
+  private readonly rollAxis = new THREE.Vector3();
+  private readonly rollStep = new THREE.Quaternion();
+
   constructor() {
     this.engine = Matter.Engine.create({
       // We disable internal gravity calculations because we apply our own
       // vector manually based on device orientation.
-      gravity: { x: 0, y: 0, scale: 0.001 } 
+      gravity: { x: 0, y: 0, scale: DEFAULT_PHYSICS_TUNING.gravityScale }
+    });
+
+    // Forward hero contacts (hazards, triggers). Fired inside Engine.update.
+    Matter.Events.on(this.engine, 'collisionStart', (event) => this.emitHeroContacts(event.pairs, 'start'));
+    Matter.Events.on(this.engine, 'collisionEnd', (event) => this.emitHeroContacts(event.pairs, 'end'));
+  }
+
+  /**
+   * Called for every body the hero starts/stops touching (sensors included).
+   * Runs mid-step: listeners should queue work rather than move bodies.
+   */
+  public setHeroContactCallback(callback: (other: Matter.Body, phase: 'start' | 'end') => void): void {
+    this.onHeroContact = callback;
+  }
+
+  private emitHeroContacts(pairs: Matter.Pair[], phase: 'start' | 'end'): void {
+    if (!this.heroBody) return;
+    pairs.forEach(pair => {
+      const other = pair.bodyA === this.heroBody ? pair.bodyB
+        : pair.bodyB === this.heroBody ? pair.bodyA
+        : null;
+      if (!other) return;
+
+      if (this.kinematics.some(k => k.body === other)) {
+        if (phase === 'start') this.heroMoverContacts.add(other);
+        else this.heroMoverContacts.delete(other);
+      }
+      if (phase === 'start' && this.GEOMETRY_LABEL.test(other.label)) this.heroWallHits++;
+      this.onHeroContact?.(other, phase);
     });
   }
 
@@ -28,80 +126,292 @@ export class PhysicsWorld {
     const radius = (mesh.geometry as THREE.SphereGeometry).parameters.radius || 0.5;
 
     // 2. Create Body
-    const body = Matter.Bodies.circle(
-      mesh.position.x * PHYSICS_SCALE,
-      mesh.position.z * PHYSICS_SCALE,
-      radius * PHYSICS_SCALE,
+    const body = this.createHero(mesh.position.x, mesh.position.z, radius);
+    
+    // 3. Track for visual sync
+    this.meshBodyPairs.push({ mesh, body });
+    
+    return body;
+  }
+
+  /**
+   * Creates the hero body without any visual (headless simulation).
+   */
+  public createHero(x: number, z: number, radius: number = 0.5): Matter.Body {
+    this.heroRadius = radius;
+    const body = this.createHeroBody(x, z);
+    Matter.Composite.add(this.engine.world, body);
+    this.heroBody = body;
+    return body;
+  }
+
+  private createHeroBody(x: number, z: number): Matter.Body {
+    return Matter.Bodies.circle(
+      x * PHYSICS_SCALE,
+      z * PHYSICS_SCALE,
+      this.heroRadius * PHYSICS_SCALE,
       { 
-        // TUNING: Heavier, more controllable physics
-        restitution: 0.3,   // Less bouncy (was 0.4)
-        friction: 0.075,     // Higher rolling resistance (was 0.01)
-        frictionAir: 0.075,  // High drag to prevent infinite acceleration (was 0.01)
+        // TUNING: Heavier, more controllable physics (see DEFAULT_PHYSICS_TUNING)
+        restitution: this.tuning.heroRestitution,
+        friction: this.tuning.heroFriction,
+        frictionAir: this.tuning.heroFrictionAir,
         density: 0.001,
         label: 'Hero'
       }
     );
-    
-    // 3. Add to World & Track
-    Matter.Composite.add(this.engine.world, body);
-    this.heroBody = body;
-    this.meshBodyPairs.push({ mesh, body });
-    
-    return body;
   }
 
   /**
-   * Creates the 20x20 unit boundary box around the play area.
+   * Creates the boundary box around the play area (20x20 units by default).
    */
-  public addBoundaries(): Matter.Body[] {
-    const worldSize = 20;
-    
+  public addBoundaries(width: number = 20, depth: number = width): Matter.Body[] {
     // TUNING: Thicker walls (5 units) to prevent tunneling at high speeds
     const wallThickness = 5; 
     
-    const halfSize = (worldSize / 2) * PHYSICS_SCALE;
+    const halfWidth = (width / 2) * PHYSICS_SCALE;
+    const halfDepth = (depth / 2) * PHYSICS_SCALE;
     const thickness = wallThickness * PHYSICS_SCALE;
     
     // Extend length to cover corners fully with new thickness
-    const fullSize = (worldSize + wallThickness * 2) * PHYSICS_SCALE; 
+    const fullWidth = (width + wallThickness * 2) * PHYSICS_SCALE; 
+    const fullDepth = (depth + wallThickness * 2) * PHYSICS_SCALE; 
 
     // Matter.js rectangles are defined by (Center X, Center Y, Width, Height)
     // Note: Y represents Three.js Z (Depth)
     const walls = [
       // Top Wall (Positive Z / Positive Y in Matter)
-      Matter.Bodies.rectangle(0, halfSize + (thickness/2), fullSize, thickness, { isStatic: true, label: 'Wall_Top' }),
+      Matter.Bodies.rectangle(0, halfDepth + (thickness/2), fullWidth, thickness, { isStatic: true, label: 'Wall_Top' }),
       // Bottom Wall (Negative Z / Negative Y in Matter)
-      Matter.Bodies.rectangle(0, -halfSize - (thickness/2), fullSize, thickness, { isStatic: true, label: 'Wall_Bottom' }),
+      Matter.Bodies.rectangle(0, -halfDepth - (thickness/2), fullWidth, thickness, { isStatic: true, label: 'Wall_Bottom' }),
       // Left Wall
-      Matter.Bodies.rectangle(-halfSize - (thickness/2), 0, thickness, fullSize, { isStatic: true, label: 'Wall_Left' }),
+      Matter.Bodies.rectangle(-halfWidth - (thickness/2), 0, thickness, fullDepth, { isStatic: true, label: 'Wall_Left' }),
       // Right Wall
-      Matter.Bodies.rectangle(halfSize + (thickness/2), 0, thickness, fullSize, { isStatic: true, label: 'Wall_Right' })
+      Matter.Bodies.rectangle(halfWidth + (thickness/2), 0, thickness, fullDepth, { isStatic: true, label: 'Wall_Right' })
     ];
 
     walls.forEach(wall => Matter.Composite.add(this.engine.world, wall));
     return walls;
   }
 
+  /**
+   * Static rectangle in world units. Angle is in radians, measured from +X towards +Z.
+   * Pass `{ isSensor: true }` for trigger areas the hero passes through.
+   */
+  public addStaticBox(
+    x: number, z: number, width: number, depth: number, angle: number = 0, label: string = 'Obstacle',
+    options: Matter.IChamferableBodyDefinition = {}
+  ): Matter.Body {
+    const body = Matter.Bodies.rectangle(
+      x * PHYSICS_SCALE,
+      z * PHYSICS_SCALE,
+      width * PHYSICS_SCALE,
+      depth * PHYSICS_SCALE,
+      { ...options, isStatic: true, angle, label }
+    );
+    Matter.Composite.add(this.engine.world, body);
+    return body;
+  }
+
+  /**
+   * Static circle (pillar) in world units.
+   * Pass `{ isSensor: true }` for trigger areas the hero passes through.
+   */
+  public addStaticCircle(
+    x: number, z: number, radius: number, label: string = 'Obstacle',
+    options: Matter.IBodyDefinition = {}
+  ): Matter.Body {
+    const body = Matter.Bodies.circle(
+      x * PHYSICS_SCALE,
+      z * PHYSICS_SCALE,
+      radius * PHYSICS_SCALE,
+      { ...options, isStatic: true, label }
+    );
+    Matter.Composite.add(this.engine.world, body);
+    return body;
+  }
+
+  public removeBody(body: Matter.Body): void {
+    Matter.Composite.remove(this.engine.world, body);
+    this.kinematics = this.kinematics.filter(k => k.body !== body);
+    this.meshBodyPairs = this.meshBodyPairs.filter(pair => pair.body !== body);
+    this.heroMoverContacts.delete(body);
+  }
+
+  /**
+   * Keeps a mesh on a (non-hero) body's position and heading in syncVisuals().
+   */
+  public linkMesh(mesh: THREE.Mesh, body: Matter.Body): void {
+    this.meshBodyPairs.push({ mesh, body });
+  }
+
+  /**
+   * Adds a kinematic obstacle driven by `mover` every step. Static to Matter (infinite
+   * mass, ignores gravity) but its per-step motion is visible to the solver, so it
+   * pushes and carries the hero instead of teleporting through it.
+   */
+  public addMover(mover: Mover, label: string = 'Mover'): Matter.Body {
+    const definition = mover.getDefinition();
+    // Built at angle 0 so the local outline is captured without rotation residue
+    const body = definition.type === 'box'
+      ? this.addStaticBox(definition.x, definition.z, definition.width, definition.depth, 0, label)
+      : this.addStaticCircle(definition.x, definition.z, definition.radius, label);
+
+    const kinematic: KinematicBody = {
+      mover,
+      body,
+      localVertices: body.vertices.map(v => ({ x: v.x - body.position.x, y: v.y - body.position.y })),
+      stepTravel: 0
+    };
+    this.kinematics.push(kinematic);
+    this.applyMoverPose(kinematic, mover.poseAt(this.moverTime), false);
+    return body;
+  }
+
+  /**
+   * Rewinds every mover to its start (t = 0, doors closed).
+   */
+  public resetMovers(): void {
+    this.moverTime = 0;
+    this.kinematics.forEach(kinematic => {
+      kinematic.mover.reset();
+      kinematic.stepTravel = 0;
+      this.applyMoverPose(kinematic, kinematic.mover.poseAt(0), false);
+    });
+  }
+
+  /**
+   * Starts opening every door whose ring requirement is met.
+   */
+  public openDoors(goalsCollected: number): void {
+    this.kinematics.forEach(({ mover }) => {
+      const opensAfter = mover.getOpensAfter();
+      if (opensAfter !== null && goalsCollected >= opensAfter) mover.open(this.moverTime);
+    });
+  }
+
+  /**
+   * Writes an absolute pose into the body. Vertices are rebuilt from the local outline
+   * every time (never moved incrementally), so a mover's shape never drifts and runs
+   * stay bit-identical across resets.
+   * @param withVelocity - treat the change as motion over the last (sub)step
+   */
+  private applyMoverPose(kinematic: KinematicBody, pose: MoverPose, withVelocity: boolean): void {
+    const { body, localVertices } = kinematic;
+    const state = body as unknown as BodyMotionState;
+    const x = pose.x * PHYSICS_SCALE;
+    const y = pose.z * PHYSICS_SCALE;
+
+    // The solver reads motion as position - positionPrev / angle - anglePrev
+    state.positionPrev.x = withVelocity ? state.position.x : x;
+    state.positionPrev.y = withVelocity ? state.position.y : y;
+    state.anglePrev = withVelocity ? state.angle : pose.angle;
+    state.position.x = x;
+    state.position.y = y;
+    state.angle = pose.angle;
+    state.velocity.x = x - state.positionPrev.x;
+    state.velocity.y = y - state.positionPrev.y;
+    state.speed = Math.sqrt(state.velocity.x * state.velocity.x + state.velocity.y * state.velocity.y);
+    state.angularVelocity = pose.angle - state.anglePrev;
+    state.angularSpeed = Math.abs(state.angularVelocity);
+
+    const cos = Math.cos(pose.angle);
+    const sin = Math.sin(pose.angle);
+    body.vertices.forEach((vertex, i) => {
+      const local = localVertices[i];
+      vertex.x = x + local.x * cos - local.y * sin;
+      vertex.y = y + local.x * sin + local.y * cos;
+    });
+    body.axes = Matter.Axes.fromVertices(body.vertices);
+    Matter.Bounds.update(body.bounds, body.vertices as unknown as Matter.Vertices, body.velocity);
+  }
+
+  /**
+   * How many substeps this step needs so no mover sweeps more than MAX_SUBSTEP_TRAVEL
+   * at once (a fast bar could otherwise jump over the hero between two steps).
+   */
+  private planSubsteps(deltaTime: number): number {
+    let travel = 0;
+    const from = this.moverTime;
+    const to = this.moverTime + deltaTime / 1000;
+
+    this.kinematics.forEach(kinematic => {
+      const a = kinematic.mover.poseAt(from);
+      const b = kinematic.mover.poseAt(to);
+      const sweep = Math.sqrt((b.x - a.x) ** 2 + (b.z - a.z) ** 2)
+        + Math.abs(b.angle - a.angle) * kinematic.mover.getBoundingRadius();
+      kinematic.stepTravel = sweep;
+      travel = Math.max(travel, sweep);
+    });
+
+    return Math.min(this.MAX_SUBSTEPS, Math.max(1, Math.ceil(travel / this.MAX_SUBSTEP_TRAVEL)));
+  }
+
+  /**
+   * Puts the hero at a world position with no motion.
+   *
+   * The body is rebuilt rather than moved: setPosition/setAngle leave float residue in
+   * the polygon vertices, and cached contacts/warm-starting carry over between runs.
+   * Starting from a pristine body + empty pair cache makes every run from here evolve
+   * identically (required for frame-exact replays).
+   */
+  public resetHero(x: number, z: number): void {
+    const oldBody = this.heroBody;
+    if (!oldBody) return;
+
+    const body = this.createHeroBody(x, z);
+    this.heroFrictionAirOverride = null; // The fresh body has the default drag
+    Matter.Composite.remove(this.engine.world, oldBody);
+    Matter.Composite.add(this.engine.world, body);
+    this.heroBody = body;
+    this.meshBodyPairs.forEach(pair => {
+      if (pair.body === oldBody) pair.body = body;
+    });
+
+    // Engine.clear also empties the detector's body list, so re-register the bodies
+    // (in world order, which also resets the broadphase sort order)
+    Matter.Engine.clear(this.engine);
+    Matter.Detector.setBodies(this.engine.detector, Matter.Composite.allBodies(this.engine.world));
+    this.engine.timing.timestamp = 0;
+    this.heroMoverContacts.clear(); // Cleared pairs never report 'end'
+    this.heroWallHits = 0;
+  }
+
   /**
    * The Deterministic Update Step
    * @param deltaTime - Fixed time step (16.66ms)
    * @param gravityVector - Input from Device Controller
    */
-  public update(deltaTime: number, gravityVector: THREE.Vector3) {
+  public update(deltaTime: number, gravityVector: GravityVector) {
     // 1. Map Gravity: Three.js (X, 0, Z) -> Matter.js (X, Y)
     // Matter.js gravity is usually normalized, but we'll feed direct vector
     // and rely on engine.gravity.scale to tune it.
     this.engine.gravity.x = gravityVector.x;
     this.engine.gravity.y = gravityVector.z; // Z becomes Y
 
-    // 2. Step Simulation
-    Matter.Engine.update(this.engine, deltaTime);
+    // 2. Step Simulation (substepped only while movers are sweeping fast;
+    // a level without movers always takes exactly one step)
+    const substeps = this.planSubsteps(deltaTime);
+    const startTime = this.moverTime;
+    for (let i = 1; i <= substeps; i++) {
+      const time = startTime + (deltaTime / 1000) * (i / substeps);
+      this.kinematics.forEach(kinematic => {
+        this.applyMoverPose(kinematic, kinematic.mover.poseAt(time), true);
+      });
+      Matter.Engine.update(this.engine, deltaTime / substeps);
+    }
+    this.moverTime = startTime + deltaTime / 1000;
 
     // TUNING: Velocity Clamping (Anti-Tunneling)
     if (this.heroBody) {
-      // 15 units/sec (scaled) is fast enough for fun, slow enough for safety
-      const maxSpeed = 15; 
-      const velocity = this.heroBody.velocity;
+      // 15 units/sec (scaled) is fast enough for fun, slow enough for safety.
+      // A mover pushing the hero must be able to carry it at its own speed,
+      // otherwise the clamp would let the mover sink into (and through) the ball.
+      let maxSpeed = this.tuning.maxHeroSpeed;
+      this.kinematics.forEach(({ body, stepTravel }) => {
+        if (this.heroMoverContacts.has(body)) maxSpeed = Math.max(maxSpeed, stepTravel * PHYSICS_SCALE * 1.5);
+      });
+      // Per-step velocity, normalised so substeps don't shrink it
+      const velocity = Matter.Body.getVelocity(this.heroBody);
       const speed = Math.sqrt(velocity.x * velocity.x + velocity.y * velocity.y);
       
       if (speed > maxSpeed) {
@@ -123,25 +433,134 @@ export class PhysicsWorld {
       // Position Sync: Divide by Scale to get back to World Units
       mesh.position.x = body.position.x / PHYSICS_SCALE;
       mesh.position.z = body.position.y / PHYSICS_SCALE;
-      
-      // Y is constant (floor plane) for now
-      mesh.position.y = 0.5;
-
-      // Rotation Sync: Visual cues for rolling
-      // In 2D, angle is Z-rotation. In 3D rolling on floor, it maps to X/Z rotation complexly,
-      // but for simple visuals, mapping angle to Y gives a spin effect, 
-      // or we calculate rolling axis. For Phase 2, we just ensure it doesn't look static.
-      // A simple approximation for "rolling direction" is tricky in 1:1 map.
-      // We will leave rotation simple or strictly based on velocity later.
-      // For now, let's just apply the Z-spin to Y-spin to show activity.
-      // mesh.rotation.y = -body.angle; 
-      
-      // Better Rolling Visual (Phase 3 Prep):
-      // Actually, we want the ball to roll "over" the ground.
-      // That requires calculating axis of rotation based on velocity.
-      // Leaving rotation logic explicitly simple for Phase 2 foundation.
+
+      if (body === this.heroBody) {
+        // Y is constant (floor plane) for now
+        mesh.position.y = 0.5;
+        // Rotation Sync: the hero rolls
+        this.applyRolling(mesh, body);
+      } else {
+        // Movers turn about the vertical axis (Three's Y rotation is opposite to Matter's angle)
+        mesh.rotation.y = -body.angle;
+      }
     });
   }
 
+  /**
+   * Rolls the mesh by the distance covered in the last step: a ball rolling without
+   * slipping turns about the axis up × motion by (distance / radius) radians.
+   * Integrated every step, so callers reset the orientation on restart.
+   */
+  private applyRolling(mesh: THREE.Mesh, body: Matter.Body): void {
+    // Matter's velocity is the displacement per 1/60s step (scaled units)
+    const velocity = Matter.Body.getVelocity(body);
+    const dx = velocity.x / PHYSICS_SCALE;
+    const dz = velocity.y / PHYSICS_SCALE;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    if (distance < 1e-6) return;
+
+    this.rollAxis.set(dz, 0, -dx).divideScalar(distance);
+    this.rollStep.setFromAxisAngle(this.rollAxis, distance / this.heroRadius);
+    mesh.quaternion.premultiply(this.rollStep).normalize(); // World-space axis
+  }
+
+  /**
+   * True if a circle (world units) would overlap solid geometry: boundaries, obstacles
+   * and movers, with spinners blocking their whole sweep. Sensors and the hero are ignored.
+   */
+  public isAreaBlocked(x: number, z: number, radius: number): boolean {
+    const probe = Matter.Bodies.circle(x * PHYSICS_SCALE, z * PHYSICS_SCALE, radius * PHYSICS_SCALE);
+    const solids = Matter.Composite.allBodies(this.engine.world)
+      .filter(body => body !== this.heroBody && !body.isSensor);
+    if (Matter.Query.collides(probe, solids).length > 0) return true;
+
+    return this.kinematics.some(({ mover, body }) => {
+      if (!mover.getDefinition().spin) return false;
+      const dx = body.position.x / PHYSICS_SCALE - x;
+      const dz = body.position.y / PHYSICS_SCALE - z;
+      return Math.hypot(dx, dz) < mover.getBoundingRadius() + radius;
+    });
+  }
+
+  /**
+   * How many times the hero started touching a wall, obstacle or mover since the last call.
+   */
+  public takeHeroWallHits(): number {
+    const hits = this.heroWallHits;
+    this.heroWallHits = 0;
+    return hits;
+  }
+
   public getHeroBody() { return this.heroBody; }
+  public getHeroRadius(): number { return this.heroRadius; }
+
+  /**
+   * Sets the hero's velocity in world units per second (inverse of getHeroVelocity).
+   */
+  public setHeroVelocity(x: number, z: number): void {
+    if (!this.heroBody) return;
+    Matter.Body.setVelocity(this.heroBody, {
+      x: (x * PHYSICS_SCALE) / 60,
+      y: (z * PHYSICS_SCALE) / 60
+    });
+  }
+
+  /**
+   * Overrides the hero's air drag (e.g. sticky zones). Pass null to restore the tuned default.
+   */
+  public setHeroFrictionAir(frictionAir: number | null): void {
+    this.heroFrictionAirOverride = frictionAir;
+    if (!this.heroBody) return;
+    this.heroBody.frictionAir = frictionAir ?? this.tuning.heroFrictionAir;
+  }
+
+  public getTuning(): PhysicsTuning {
+    return { ...this.tuning };
+  }
+
+  /** Applies tuning changes to the engine and the live hero body at once */
+  public setTuning(changes: Partial<PhysicsTuning>): void {
+    this.tuning = { ...this.tuning, ...changes };
+    this.engine.gravity.scale = this.tuning.gravityScale;
+    if (!this.heroBody) return;
+    this.heroBody.restitution = this.tuning.heroRestitution;
+    this.heroBody.friction = this.tuning.heroFriction;
+    this.heroBody.frictionAir = this.heroFrictionAirOverride ?? this.tuning.heroFrictionAir;
+  }
+
+  /** Every body's outline (circles come as Matter's polygon approximation) */
+  public getBodyOutlines(): BodyOutline[] {
+    const movers = new Set(this.kinematics.map(kinematic => kinematic.body));
+    return Matter.Composite.allBodies(this.engine.world).map(body => ({
+      label: body.label,
+      isStatic: body.isStatic,
+      isMover: movers.has(body),
+      isSensor: body.isSensor,
+      points: body.vertices.map(vertex => ({ x: vertex.x / PHYSICS_SCALE, z: vertex.y / PHYSICS_SCALE }))
+    }));
+  }
+
+  /**
+   * Hero position in world units, written into `target` (floor height 0.5, like the mesh).
+   */
+  public getHeroPosition(target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    if (!this.heroBody) return target.set(0, 0.5, 0);
+    return target.set(
+      this.heroBody.position.x / PHYSICS_SCALE,
+      0.5,
+      this.heroBody.position.y / PHYSICS_SCALE
+    );
+  }
+
+  /**
+   * Hero velocity in world units per second (Matter velocities are per 1/60s step).
+   */
+  public getHeroVelocity(): { x: number, z: number } {
+    if (!this.heroBody) return { x: 0, z: 0 };
+    const velocity = Matter.Body.getVelocity(this.heroBody);
+    return {
+      x: (velocity.x / PHYSICS_SCALE) * 60,
+      z: (velocity.y / PHYSICS_SCALE) * 60
+    };
+  }
 }
\ No newline at end of file
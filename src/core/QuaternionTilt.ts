@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+
+/**
+ * QuaternionTilt
+ * Responsibility: Lock-free tilt from DeviceOrientation. The alpha/beta/gamma Euler angles
+ * are turned into a quaternion, the real gravity direction is expressed in the device's
+ * frame, and its projection onto the screen plane is reported as beta/gamma-style angles.
+ * Unlike raw Euler beta/gamma this is continuous in every orientation: there is no
+ * gimbal lock near upright, and equivalent Euler triples give the same tilt.
+ */
+
+const DEG = Math.PI / 180;
+const EARTH_DOWN = new THREE.Vector3(0, 0, -1);
+
+// Scratch objects: tilt is computed for every sensor event
+const scratchEuler = new THREE.Euler();
+const scratchQuaternion = new THREE.Quaternion();
+const scratchOrientation = new THREE.Quaternion();
+const scratchGravity = new THREE.Vector3();
+
+/**
+ * Device -> Earth rotation for DeviceOrientation angles (degrees), per the W3C
+ * definition: intrinsic Z (alpha), then X' (beta), then Y'' (gamma).
+ */
+export function orientationToQuaternion(
+  alpha: number, beta: number, gamma: number,
+  target: THREE.Quaternion = new THREE.Quaternion()
+): THREE.Quaternion {
+  scratchEuler.set(beta * DEG, gamma * DEG, alpha * DEG, 'ZXY');
+  return target.setFromEuler(scratchEuler);
+}
+
+/**
+ * Unit vector of gravity in device coordinates (x: right edge, y: top edge, z: out of the screen).
+ */
+export function gravityInDeviceFrame(
+  orientation: THREE.Quaternion,
+  target: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  return target.copy(EARTH_DOWN).applyQuaternion(scratchQuaternion.copy(orientation).invert());
+}
+
+/**
+ * Projects gravity (any length, device coordinates) onto the screen plane as degrees:
+ * beta > 0 when the top edge is raised, gamma > 0 when the right edge is lowered.
+ * Both stay within [-90, 90] and match Euler beta/gamma for moderate single-axis tilts.
+ */
+export function tiltFromGravity(gravity: { x: number, y: number, z: number }): { beta: number, gamma: number } {
+  const length = Math.hypot(gravity.x, gravity.y, gravity.z);
+  if (length === 0) return { beta: 0, gamma: 0 };
+  return {
+    beta: Math.asin(THREE.MathUtils.clamp(-gravity.y / length, -1, 1)) / DEG,
+    gamma: Math.asin(THREE.MathUtils.clamp(gravity.x / length, -1, 1)) / DEG
+  };
+}
+
+/**
+ * DeviceOrientation angles -> lock-free tilt. Alpha (compass heading) doesn't change where
+ * gravity points, so a missing alpha can be passed as 0.
+ */
+export function tiltFromOrientation(alpha: number, beta: number, gamma: number): { beta: number, gamma: number } {
+  orientationToQuaternion(alpha, beta, gamma, scratchOrientation);
+  return tiltFromGravity(gravityInDeviceFrame(scratchOrientation, scratchGravity));
+}
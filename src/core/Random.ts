@@ -0,0 +1,76 @@
+/**
+ * Anything that can hand out uniform numbers in [0, 1).
+ * Systems take this instead of calling Math.random() so a run can be replayed from its seed.
+ */
+export interface RandomSource {
+  next(): number;
+}
+
+/**
+ * SeededRandom
+ * Responsibility: Small, fast deterministic PRNG (mulberry32) with named sub-streams.
+ *
+ * Each system gets its own fork (e.g. 'goals', 'particles') so that purely cosmetic
+ * randomness — which depends on frame rate — can never shift the gameplay sequence.
+ */
+export class SeededRandom implements RandomSource {
+  private readonly seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /** Uniform float in [0, 1) */
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Uniform float in [min, max) */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Independent stream derived from this seed and a label.
+   * The same (seed, label) pair always yields the same sequence.
+   */
+  public fork(label: string): SeededRandom {
+    return new SeededRandom(hashString(label) ^ this.seed);
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  public static randomSeed(): number {
+    return Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+  }
+
+  /**
+   * Parses a shareable seed (e.g. from `?seed=`). Numbers are used as-is,
+   * any other text is hashed so "my-run" works as a seed too.
+   */
+  public static parseSeed(value: string | null): number | null {
+    if (value === null) return null;
+    const trimmed = value.trim();
+    if (trimmed.length === 0) return null;
+    if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+    return hashString(trimmed);
+  }
+}
+
+/** FNV-1a, 32-bit */
+function hashString(text: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
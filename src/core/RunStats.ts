@@ -0,0 +1,109 @@
+import { ScoreEvent, ScoreEventKind } from './ScoringEngine';
+import { GRAVITY_MULTIPLIER } from './GravityController';
+import { GravityVector } from './types';
+
+/** End-of-run summary, plain data (stored as the personal best) */
+export interface RunStats {
+  levelId: string;
+  won: boolean;
+  score: number;
+  duration: number;   // Seconds of play
+  splits: number[];   // Seconds from start at which each ring was collected
+  distance: number;   // World units rolled
+  topSpeed: number;   // World units per second
+  wallHits: number;
+  maxTiltTime: number; // Seconds spent with the board tilted (nearly) all the way
+  breakdown: Partial<Record<ScoreEventKind, number>>; // Points per kind of score event
+}
+
+/** What one PLAYING step contributes to the stats */
+export interface RunStatsSample {
+  gravity: GravityVector;
+  heroX: number;
+  heroZ: number;
+  speed: number;     // World units per second
+  wallHits: number;
+  collected: boolean; // A counted ring was collected on this step
+}
+
+/**
+ * RunStatsCollector
+ * Responsibility: Accumulates per-step facts about the current run (movement, input,
+ * contacts, ring splits) and turns them into a RunStats summary at the end.
+ *
+ * Fed by GameSimulation, so live runs, replays and headless runs all measure the same way.
+ */
+export class RunStatsCollector {
+  private steps = 0;
+  private splitSteps: number[] = [];
+  private distance = 0;
+  private topSpeed = 0;
+  private wallHits = 0;
+  private maxTiltSteps = 0;
+  private lastPosition: { x: number, z: number } | null = null;
+
+  private readonly stepSeconds: number;
+  // Count anything past 95% of full tilt
+  private readonly MAX_TILT_GRAVITY = GRAVITY_MULTIPLIER * 0.95;
+
+  constructor(stepSeconds: number) {
+    this.stepSeconds = stepSeconds;
+  }
+
+  public reset(): void {
+    this.steps = 0;
+    this.splitSteps = [];
+    this.distance = 0;
+    this.topSpeed = 0;
+    this.wallHits = 0;
+    this.maxTiltSteps = 0;
+    this.lastPosition = null;
+  }
+
+  /**
+   * Call once per PLAYING step, after physics and rules.
+   */
+  public recordStep(sample: RunStatsSample): void {
+    this.steps++;
+
+    if (this.lastPosition) {
+      this.distance += Math.hypot(sample.heroX - this.lastPosition.x, sample.heroZ - this.lastPosition.z);
+    }
+    this.lastPosition = { x: sample.heroX, z: sample.heroZ };
+
+    this.topSpeed = Math.max(this.topSpeed, sample.speed);
+    this.wallHits += sample.wallHits;
+
+    const tilt = Math.max(Math.abs(sample.gravity.x), Math.abs(sample.gravity.z));
+    if (tilt >= this.MAX_TILT_GRAVITY) this.maxTiltSteps++;
+
+    if (sample.collected) this.splitSteps.push(this.steps);
+  }
+
+  /**
+   * Hero moved without rolling there (pit respawn): don't count the jump as distance.
+   */
+  public breakPath(): void {
+    this.lastPosition = null;
+  }
+
+  public summarize(run: { levelId: string, won: boolean, score: number, scoreEvents: readonly ScoreEvent[] }): RunStats {
+    const breakdown: RunStats['breakdown'] = {};
+    run.scoreEvents.forEach(event => {
+      breakdown[event.kind] = (breakdown[event.kind] ?? 0) + event.points;
+    });
+
+    return {
+      levelId: run.levelId,
+      won: run.won,
+      score: run.score,
+      duration: this.steps * this.stepSeconds,
+      splits: this.splitSteps.map(step => step * this.stepSeconds),
+      distance: this.distance,
+      topSpeed: this.topSpeed,
+      wallHits: this.wallHits,
+      maxTiltTime: this.maxTiltSteps * this.stepSeconds,
+      breakdown
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { RunStats } from './RunStats';
+import { KeyValueStorage, getDefaultStorage } from './Storage';
+
+interface SaveData {
+  version: 1;
+  runs: Record<string, RunStats>; // Keyed by level id
+}
+
+/**
+ * RunStatsStore
+ * Responsibility: Keeps the statistics of the personal best (highest scoring winning)
+ * run on each level, for comparison on the results screen.
+ */
+export class RunStatsStore {
+  private readonly STORAGE_KEY = 'kinetic-tilt-best-runs';
+  private storage: KeyValueStorage;
+  private data: SaveData = { version: 1, runs: {} };
+
+  constructor(storage: KeyValueStorage = getDefaultStorage()) {
+    this.storage = storage;
+    this.load();
+  }
+
+  public getBest(levelId: string): RunStats | null {
+    return this.data.runs[levelId] ?? null;
+  }
+
+  /**
+   * Stores a winning run if it beat the level's best score.
+   * @returns true when the run became the new personal best
+   */
+  public saveIfBest(stats: RunStats): boolean {
+    const best = this.getBest(stats.levelId);
+    if (!stats.won || (best && best.score >= stats.score)) return false;
+
+    this.data.runs[stats.levelId] = stats;
+    this.save();
+    console.log(`📈 New Personal Best Run: ${stats.levelId} (${stats.score})`);
+    return true;
+  }
+
+  private load(): void {
+    const saved = this.storage.getItem(this.STORAGE_KEY);
+    if (!saved) return;
+    try {
+      const parsed = JSON.parse(saved) as SaveData;
+      if (parsed.version === 1) this.data = { version: 1, runs: parsed.runs ?? {} };
+    } catch (error) {
+      console.error('Corrupt run stats, starting fresh:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage.setItem(this.STORAGE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      // Quota exceeded: stats are a nice-to-have, never break the game over them
+      console.warn('Could not save run stats:', error);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import { GoalType } from './types';
+
+/** Why points were (or weren't) awarded */
+export type ScoreEventKind = 'ring' | 'combo' | 'multiplier' | 'wallFree' | 'nearMiss' | 'decoy' | 'timeBonus';
+
+/** One line of the score breakdown */
+export interface ScoreEvent {
+  kind: ScoreEventKind;
+  points: number; // Negative for penalties
+  time: number;   // Run clock (seconds since reset) when it was awarded
+}
+
+/** Everything awarded for one action, e.g. a ring with its combo and streak bonuses */
+export interface ScoreAward {
+  points: number;
+  events: ScoreEvent[];
+}
+
+/**
+ * ScoringEngine
+ * Responsibility: The only place points are calculated. Tracks the run's combo,
+ * multiplier rings and wall-free streak, and keeps a breakdown of every award.
+ *
+ * Ring value = (base + speed bonus) x combo x ring multiplier, then flat streak bonuses:
+ * - combo: each ring within COMBO_WINDOW of the previous one adds COMBO_STEP (up to MAX_COMBO_MULTIPLIER)
+ * - multiplier rings: the next MULTIPLIER_RINGS rings score x2
+ * - wall-free streak: from WALL_FREE_STREAK rings in a row without touching a wall, each ring adds WALL_FREE_BONUS
+ */
+export class ScoringEngine {
+  private total = 0;
+  private clock = 0;                      // Seconds of PLAYING time since reset
+  private lastRingTime: number | null = null;
+  private combo = 0;                      // Rings in the current combo (0 = none)
+  private multiplierRingsLeft = 0;
+  private wallFreeStreak = 0;
+  private breakdown: ScoreEvent[] = [];
+
+  private readonly RING_BASE = 100;
+  private readonly MOVING_RING_BASE = 150;  // Harder to catch, worth more
+  private readonly SPEED_BONUS_PER_SECOND = 2; // Per second left on the clock
+  private readonly COMBO_WINDOW = 3;         // Seconds between rings to keep a combo
+  private readonly COMBO_STEP = 0.25;
+  private readonly MAX_COMBO_MULTIPLIER = 2;
+  private readonly MULTIPLIER_RINGS = 3;
+  private readonly WALL_FREE_STREAK = 3;
+  private readonly WALL_FREE_BONUS = 50;
+  private readonly NEAR_MISS_BONUS = 25;
+  private readonly DECOY_SCORE_PENALTY = 50;
+  private readonly TIME_BONUS_PER_SECOND = 10; // Points per second left at win
+
+  public reset(): void {
+    this.total = 0;
+    this.clock = 0;
+    this.lastRingTime = null;
+    this.combo = 0;
+    this.multiplierRingsLeft = 0;
+    this.wallFreeStreak = 0;
+    this.breakdown = [];
+  }
+
+  /**
+   * Advances the combo clock. Call with PLAYING time only, so pauses don't break combos.
+   */
+  public update(deltaTime: number): void {
+    this.clock += deltaTime;
+    if (this.combo > 0 && this.getComboTimeLeft() === 0) {
+      this.combo = 0;
+    }
+  }
+
+  /**
+   * Scores a ring you had to collect (any type but decoy).
+   */
+  public scoreRing(type: GoalType, timeRemaining: number): ScoreAward {
+    // 1. Combo: continues if this ring came quickly after the last one
+    this.combo = this.getComboTimeLeft() > 0 ? this.combo + 1 : 1;
+    this.lastRingTime = this.clock;
+    this.wallFreeStreak++;
+
+    // 2. Multiplied value
+    const base = (type === 'moving' ? this.MOVING_RING_BASE : this.RING_BASE)
+      + Math.floor(timeRemaining * this.SPEED_BONUS_PER_SECOND);
+    const withCombo = Math.round(base * this.getComboMultiplier());
+    const doubled = this.multiplierRingsLeft > 0;
+    if (doubled) this.multiplierRingsLeft--;
+
+    const events: ScoreEvent[] = [this.event('ring', base)];
+    if (withCombo > base) events.push(this.event('combo', withCombo - base));
+    if (doubled) events.push(this.event('multiplier', withCombo));
+
+    // 3. Flat streak bonus
+    if (this.wallFreeStreak >= this.WALL_FREE_STREAK) {
+      events.push(this.event('wallFree', this.WALL_FREE_BONUS));
+    }
+
+    // 4. Effects for the following rings
+    if (type === 'multiplier') this.multiplierRingsLeft = this.MULTIPLIER_RINGS;
+
+    return this.award(events);
+  }
+
+  /**
+   * Decoys cost points (never below zero) and break the combo.
+   */
+  public scoreDecoy(): ScoreAward {
+    this.combo = 0;
+    this.lastRingTime = null;
+    return this.award([this.event('decoy', -Math.min(this.total, this.DECOY_SCORE_PENALTY))]);
+  }
+
+  /** Skimming past a decoy without touching it */
+  public scoreNearMiss(): ScoreAward {
+    return this.award([this.event('nearMiss', this.NEAR_MISS_BONUS)]);
+  }
+
+  /** End-of-run reward for finishing early */
+  public scoreTimeBonus(timeRemaining: number): ScoreAward {
+    return this.award([this.event('timeBonus', Math.floor(timeRemaining * this.TIME_BONUS_PER_SECOND))]);
+  }
+
+  /** The hero touched a wall or obstacle: the wall-free streak starts over */
+  public onWallHit(): void {
+    this.wallFreeStreak = 0;
+  }
+
+  private comboMultiplier(combo: number): number {
+    return Math.min(this.MAX_COMBO_MULTIPLIER, 1 + this.COMBO_STEP * Math.max(0, combo - 1));
+  }
+
+  private event(kind: ScoreEventKind, points: number): ScoreEvent {
+    return { kind, points, time: this.clock };
+  }
+
+  private award(events: ScoreEvent[]): ScoreAward {
+    const points = events.reduce((sum, event) => sum + event.points, 0);
+    this.total += points;
+    this.breakdown.push(...events);
+    return { points, events };
+  }
+
+  // --- Getters for rules/HUD ---
+  public getTotal(): number { return this.total; }
+  public getCombo(): number { return this.combo; }
+  public getMultiplierRingsLeft(): number { return this.multiplierRingsLeft; }
+  public getWallFreeStreak(): number { return this.wallFreeStreak; }
+  public getBreakdown(): readonly ScoreEvent[] { return this.breakdown; }
+
+  /** Total awarded so far for one kind of event (e.g. the win's time bonus) */
+  public getPoints(kind: ScoreEventKind): number {
+    return this.breakdown.reduce((sum, event) => event.kind === kind ? sum + event.points : sum, 0);
+  }
+
+  /** Combo multiplier applied to the last ring */
+  public getComboMultiplier(): number {
+    return this.comboMultiplier(this.combo);
+  }
+
+  /** Everything the next ring would be multiplied by if collected now */
+  public getMultiplier(): number {
+    const nextCombo = this.getComboTimeLeft() > 0 ? this.combo + 1 : 1;
+    return this.comboMultiplier(nextCombo) * (this.multiplierRingsLeft > 0 ? 2 : 1);
+  }
+
+  /** Seconds left to extend the combo (0 when no combo is running) */
+  public getComboTimeLeft(): number {
+    if (this.lastRingTime === null) return 0;
+    return Math.max(0, this.COMBO_WINDOW - (this.clock - this.lastRingTime));
+  }
+
+  public getComboWindow(): number { return this.COMBO_WINDOW; }
+}
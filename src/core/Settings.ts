@@ -0,0 +1,210 @@
+import { KeyValueStorage, getDefaultStorage } from './Storage';
+
+export type GraphicsQuality = 'low' | 'medium' | 'high';
+
+/** How device orientation becomes tilt: raw Euler beta/gamma, or lock-free via quaternions */
+export type TiltInputMode = 'euler' | 'quaternion';
+
+/** Tilt the device (gyro, joystick only as fallback) or always use the on-screen joystick */
+export type SteeringMode = 'tilt' | 'joystick';
+
+export type JoystickStyle = 'floating' | 'fixed';
+
+/** Everything the player can tune on the settings screen */
+export interface GameSettings {
+  maxTiltAngle: number;    // Degrees of tilt for full gravity
+  deadzone: number;        // Degrees of tilt ignored around level
+  smoothing: number;       // Gravity lerp per frame (1 = instant)
+  steering: SteeringMode;
+  joystickStyle: JoystickStyle;
+  joystickSensitivity: number; // 1 = full tilt at the edge of the knob's travel
+  invertX: boolean;
+  invertY: boolean;
+  leftHanded: boolean;     // Mirrors the on-screen buttons
+  allowPortrait: boolean;  // Otherwise portrait shows a rotate prompt
+  neutralBeta: number;     // Calibrated holding angle (degrees), see TiltCalibrator
+  neutralGamma: number;
+  tiltInput: TiltInputMode;
+  muted: boolean;
+  telemetry: boolean;      // Anonymous usage events (opt-out)
+  graphicsQuality: GraphicsQuality;
+}
+
+export type NumericSetting = 'maxTiltAngle' | 'deadzone' | 'smoothing' | 'joystickSensitivity' | 'neutralBeta' | 'neutralGamma';
+export type ToggleSetting = 'invertX' | 'invertY' | 'leftHanded' | 'allowPortrait' | 'muted' | 'telemetry';
+
+export const DEFAULT_SETTINGS: Readonly<GameSettings> = {
+  maxTiltAngle: 45,
+  deadzone: 2,
+  smoothing: 0.15,
+  steering: 'tilt',
+  joystickStyle: 'floating',
+  joystickSensitivity: 1,
+  invertX: false,
+  invertY: false,
+  leftHanded: false,
+  allowPortrait: false,
+  neutralBeta: 0,
+  neutralGamma: 0,
+  tiltInput: 'euler',
+  muted: false,
+  telemetry: true,
+  graphicsQuality: 'high'
+};
+
+/** Valid ranges (and slider steps); saved values outside them are clamped on load */
+export const SETTING_RANGES: Readonly<Record<NumericSetting, { min: number, max: number, step: number }>> = {
+  maxTiltAngle: { min: 15, max: 80, step: 1 },
+  deadzone: { min: 0, max: 10, step: 0.5 },
+  smoothing: { min: 0.05, max: 1, step: 0.05 },
+  joystickSensitivity: { min: 0.5, max: 2, step: 0.1 },
+  neutralBeta: { min: -80, max: 80, step: 0.1 },
+  neutralGamma: { min: -80, max: 80, step: 0.1 }
+};
+
+/** What each graphics quality costs: renderer resolution and ambient particle count */
+export const GRAPHICS_PRESETS: Readonly<Record<GraphicsQuality, { maxPixelRatio: number, particleDensity: number }>> = {
+  low: { maxPixelRatio: 1, particleDensity: 0.25 },
+  medium: { maxPixelRatio: 1.5, particleDensity: 0.5 },
+  high: { maxPixelRatio: 2, particleDensity: 1 }
+};
+
+const GRAPHICS_QUALITIES: GraphicsQuality[] = ['low', 'medium', 'high'];
+const TILT_INPUT_MODES: TiltInputMode[] = ['euler', 'quaternion'];
+const STEERING_MODES: SteeringMode[] = ['tilt', 'joystick'];
+const JOYSTICK_STYLES: JoystickStyle[] = ['floating', 'fixed'];
+
+/** Current save format; bump it and add a MIGRATIONS entry when a setting changes meaning */
+export const SETTINGS_VERSION = 2;
+
+type RawSettings = Record<string, unknown>;
+
+/** MIGRATIONS[n] upgrades a version-n save to version n + 1 */
+const MIGRATIONS: Record<number, (settings: RawSettings) => RawSettings> = {
+  // v2: the invisible drag (degrees per pixel, default 0.3) became the on-screen joystick
+  1: ({ dragSensitivity, ...settings }) => typeof dragSensitivity === 'number'
+    ? { ...settings, joystickSensitivity: dragSensitivity / 0.3 }
+    : settings
+};
+
+interface SaveData {
+  version: number;
+  settings: GameSettings;
+}
+
+/**
+ * SettingsStore
+ * Responsibility: The player's settings, persisted with a format version.
+ * Older saves are migrated step by step; every value is validated, so missing,
+ * corrupt or out-of-range entries fall back to (or are clamped within) the defaults.
+ */
+export class SettingsStore {
+  private readonly STORAGE_KEY = 'kinetic-tilt-settings';
+
+  private storage: KeyValueStorage;
+  private settings: GameSettings = { ...DEFAULT_SETTINGS };
+  private onChange?: (settings: GameSettings, changed: Array<keyof GameSettings>) => void;
+
+  constructor(storage: KeyValueStorage = getDefaultStorage()) {
+    this.storage = storage;
+    this.load();
+  }
+
+  public get(): GameSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Applies (validated) changes, saves them and notifies the change callback.
+   * @returns The settings after the update
+   */
+  public update(changes: Partial<GameSettings>): GameSettings {
+    const next = sanitizeSettings({ ...this.settings, ...changes });
+    const changed = (Object.keys(next) as Array<keyof GameSettings>).filter(key => next[key] !== this.settings[key]);
+    if (changed.length === 0) return this.get();
+
+    this.settings = next;
+    this.save();
+    if (this.onChange) this.onChange(this.get(), changed);
+    return this.get();
+  }
+
+  public reset(): GameSettings {
+    return this.update(DEFAULT_SETTINGS);
+  }
+
+  /** Called after every effective change with the full settings and the keys that changed */
+  public setChangeCallback(callback: (settings: GameSettings, changed: Array<keyof GameSettings>) => void): void {
+    this.onChange = callback;
+  }
+
+  private load(): void {
+    const saved = this.storage.getItem(this.STORAGE_KEY);
+    if (!saved) return;
+    try {
+      const parsed = JSON.parse(saved);
+      if (typeof parsed?.version !== 'number' || typeof parsed.settings !== 'object') {
+        throw new Error('Missing version or settings');
+      }
+
+      let raw: RawSettings = parsed.settings ?? {};
+      for (let version = parsed.version; version < SETTINGS_VERSION; version++) {
+        if (MIGRATIONS[version]) raw = MIGRATIONS[version](raw);
+      }
+      // Saves from a newer build keep every setting this build understands
+      this.settings = sanitizeSettings(raw);
+      if (parsed.version < SETTINGS_VERSION) {
+        console.log(`⚙️ Settings migrated from v${parsed.version} to v${SETTINGS_VERSION}`);
+        this.save();
+      }
+    } catch (error) {
+      console.error('Corrupt settings, using defaults:', error);
+    }
+  }
+
+  private save(): void {
+    const data: SaveData = { version: SETTINGS_VERSION, settings: this.settings };
+    try {
+      this.storage.setItem(this.STORAGE_KEY, JSON.stringify(data));
+    } catch (error) {
+      console.warn('Could not save settings:', error);
+    }
+  }
+}
+
+/**
+ * Validates every setting: wrong types fall back to the default, numbers are clamped to their range.
+ */
+export function sanitizeSettings(raw: RawSettings): GameSettings {
+  const number = (key: NumericSetting): number => {
+    const value = raw[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) return DEFAULT_SETTINGS[key];
+    const { min, max } = SETTING_RANGES[key];
+    return Math.min(max, Math.max(min, value));
+  };
+  const bool = (key: ToggleSetting): boolean =>
+    typeof raw[key] === 'boolean' ? raw[key] as boolean : DEFAULT_SETTINGS[key];
+  const oneOf = <K extends 'steering' | 'joystickStyle' | 'tiltInput' | 'graphicsQuality'>(
+    key: K, options: ReadonlyArray<GameSettings[K]>
+  ): GameSettings[K] =>
+    options.includes(raw[key] as GameSettings[K]) ? raw[key] as GameSettings[K] : DEFAULT_SETTINGS[key];
+
+  return {
+    maxTiltAngle: number('maxTiltAngle'),
+    deadzone: number('deadzone'),
+    smoothing: number('smoothing'),
+    steering: oneOf('steering', STEERING_MODES),
+    joystickStyle: oneOf('joystickStyle', JOYSTICK_STYLES),
+    joystickSensitivity: number('joystickSensitivity'),
+    invertX: bool('invertX'),
+    invertY: bool('invertY'),
+    leftHanded: bool('leftHanded'),
+    allowPortrait: bool('allowPortrait'),
+    neutralBeta: number('neutralBeta'),
+    neutralGamma: number('neutralGamma'),
+    tiltInput: oneOf('tiltInput', TILT_INPUT_MODES),
+    muted: bool('muted'),
+    telemetry: bool('telemetry'),
+    graphicsQuality: oneOf('graphicsQuality', GRAPHICS_QUALITIES)
+  };
+}
@@ -0,0 +1,117 @@
+import { RandomSource } from './Random';
+import { Point2D, RingSpawnRules } from './types';
+
+/** Answers "would a ring of this clearance overlap something solid here?" */
+export type SpawnBlockedQuery = (x: number, z: number, clearance: number) => boolean;
+
+/** Where a ring is being placed */
+export interface SpawnContext {
+  arenaWidth: number;
+  arenaDepth: number;
+  hero: Point2D;
+  avoid?: Point2D[]; // Extra points to keep apart from (e.g. the real ring, when placing a decoy)
+}
+
+/**
+ * SpawnPolicy
+ * Responsibility: Picks fair ring positions. Rules, in order of importance:
+ * 1. Never inside or against solid geometry (clearance for the ring and the ball)
+ * 2. At least minHeroDistance from the hero (further with the difficulty curve)
+ * 3. Spread out from the last few rings, so waves don't cluster in one corner
+ *
+ * Random candidates are scored against the rules and the first perfect one wins.
+ * If none is perfect (tiny or crowded arenas) the least bad unblocked one is used,
+ * so spawning always succeeds.
+ */
+export class SpawnPolicy {
+  private rules: RingSpawnRules;
+  private goalsRequired: number;
+  private isBlocked: SpawnBlockedQuery;
+  private history: Point2D[] = []; // Recorded rings, oldest first
+
+  private readonly MIN_EDGE_DIST = 3;
+  private readonly CLEARANCE = 0.8;          // Ring visual radius plus a little air
+  private readonly SPREAD_DISTANCE = 4;      // Min distance from recent rings
+  private readonly SPREAD_MEMORY = 3;        // How many recent rings count
+  private readonly CURVE_EXTRA_DISTANCE = 4; // Added to minHeroDistance by the last ring
+  private readonly MAX_ATTEMPTS = 30;
+
+  constructor(
+    rules: RingSpawnRules = { minHeroDistance: 4, difficultyCurve: false },
+    goalsRequired: number = 10,
+    isBlocked: SpawnBlockedQuery = () => false
+  ) {
+    this.rules = rules;
+    this.goalsRequired = goalsRequired;
+    this.isBlocked = isBlocked;
+  }
+
+  /**
+   * Chooses a position. Does not change the policy; call record() for rings that count.
+   */
+  public pick(random: RandomSource, context: SpawnContext): Point2D {
+    const rangeX = Math.max(0, context.arenaWidth - this.MIN_EDGE_DIST * 2);
+    const rangeZ = Math.max(0, context.arenaDepth - this.MIN_EDGE_DIST * 2);
+    const neighbours = [...this.history.slice(-this.SPREAD_MEMORY), ...(context.avoid ?? [])];
+    const minHeroDistance = this.getMinHeroDistance();
+
+    let best: Point2D | null = null;
+    let bestPenalty = Infinity;
+
+    for (let i = 0; i < this.MAX_ATTEMPTS; i++) {
+      const candidate = {
+        x: (random.next() - 0.5) * rangeX,
+        z: (random.next() - 0.5) * rangeZ
+      };
+      // 1. Solid geometry is a hard rule
+      if (this.isBlocked(candidate.x, candidate.z, this.CLEARANCE)) continue;
+
+      // 2. & 3. Distance rules: penalise by how far short they fall
+      let penalty = Math.max(0, minHeroDistance - distance(candidate, context.hero));
+      neighbours.forEach(point => {
+        penalty += Math.max(0, this.SPREAD_DISTANCE - distance(candidate, point));
+      });
+
+      if (penalty === 0) return candidate;
+      if (penalty < bestPenalty) {
+        best = candidate;
+        bestPenalty = penalty;
+      }
+    }
+
+    if (!best) console.warn('⚠️ SpawnPolicy: no clear spot found, using arena centre');
+    return best ?? { x: 0, z: 0 };
+  }
+
+  /**
+   * Moving rings: every point along their path needs the clearance of a spawn point.
+   */
+  public isPathClear(path: Point2D[]): boolean {
+    return path.every(point => !this.isBlocked(point.x, point.z, this.CLEARANCE));
+  }
+
+  /**
+   * Remembers a ring for anti-clustering and to advance the difficulty curve.
+   */
+  public record(point: Point2D): void {
+    this.history.push({ x: point.x, z: point.z });
+  }
+
+  public reset(): void {
+    this.history = [];
+  }
+
+  /**
+   * Rings must be at least this far from the hero. With the curve enabled it ramps
+   * linearly from minHeroDistance (first ring) to + CURVE_EXTRA_DISTANCE (last ring).
+   */
+  public getMinHeroDistance(): number {
+    if (!this.rules.difficultyCurve) return this.rules.minHeroDistance;
+    const progress = Math.min(1, this.history.length / Math.max(1, this.goalsRequired - 1));
+    return this.rules.minHeroDistance + this.CURVE_EXTRA_DISTANCE * progress;
+  }
+}
+
+function distance(a: Point2D, b: Point2D): number {
+  return Math.hypot(a.x - b.x, a.z - b.z);
+}
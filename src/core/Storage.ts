@@ -0,0 +1,31 @@
+/**
+ * The subset of the Web Storage API the game persists through.
+ * Injected so gameplay systems also run headless (Node, tests) where there is no localStorage.
+ */
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/**
+ * Non-persistent storage for headless simulations and tests.
+ */
+export class MemoryStorage implements KeyValueStorage {
+  private data = new Map<string, string>();
+
+  public getItem(key: string): string | null {
+    return this.data.get(key) ?? null;
+  }
+
+  public setItem(key: string, value: string): void {
+    this.data.set(key, value);
+  }
+
+  public removeItem(key: string): void {
+    this.data.delete(key);
+  }
+}
+
+/**
+ * Browser localStorage when available, otherwise an in-memory fallback.
+ */
+export function getDefaultStorage(): KeyValueStorage {
+  return typeof localStorage !== 'undefined' ? localStorage : new MemoryStorage();
+}
@@ -0,0 +1,81 @@
+/** Result of feeding one orientation sample to the calibrator */
+export type CalibrationStatus = 'sampling' | 'moved' | 'done';
+
+/**
+ * TiltCalibrator
+ * Responsibility: Finds the player's natural holding angle. Orientation samples are
+ * averaged while the device is held still; any sample too far from the running
+ * average restarts the count, so only a steady hold becomes the neutral offset.
+ */
+export class TiltCalibrator {
+  private readonly DURATION = 2;            // Seconds of steady holding needed
+  private readonly STILLNESS_TOLERANCE = 4; // Degrees from the running average
+
+  private startTime: number | null = null;
+  private sumBeta = 0;
+  private sumGamma = 0;
+  private count = 0;
+  private progress = 0;
+  private neutral: { beta: number, gamma: number } | null = null;
+
+  /** Starts (or restarts) a calibration */
+  public start(): void {
+    this.neutral = null;
+    this.restartSampling();
+  }
+
+  /**
+   * @param time - Seconds on any monotonic clock
+   */
+  public addSample(beta: number, gamma: number, time: number): CalibrationStatus {
+    if (this.neutral) return 'done';
+
+    // 1. STILLNESS CHECK (against the average so far)
+    if (this.count > 0) {
+      const moved = Math.abs(beta - this.sumBeta / this.count) > this.STILLNESS_TOLERANCE
+        || Math.abs(gamma - this.sumGamma / this.count) > this.STILLNESS_TOLERANCE;
+      if (moved) {
+        this.restartSampling();
+        this.accumulate(beta, gamma, time);
+        return 'moved';
+      }
+    }
+
+    // 2. ACCUMULATE
+    this.accumulate(beta, gamma, time);
+    this.progress = Math.min(1, (time - this.startTime!) / this.DURATION);
+
+    // 3. HELD LONG ENOUGH
+    if (this.progress >= 1) {
+      this.neutral = { beta: this.sumBeta / this.count, gamma: this.sumGamma / this.count };
+      console.log(`📐 Calibrated neutral: beta ${this.neutral.beta.toFixed(1)}°, gamma ${this.neutral.gamma.toFixed(1)}°`);
+      return 'done';
+    }
+    return 'sampling';
+  }
+
+  /** 0..1 share of the steady hold completed */
+  public getProgress(): number {
+    return this.progress;
+  }
+
+  /** The averaged orientation once calibration is done, otherwise null */
+  public getNeutral(): { beta: number, gamma: number } | null {
+    return this.neutral;
+  }
+
+  private accumulate(beta: number, gamma: number, time: number): void {
+    if (this.startTime === null) this.startTime = time;
+    this.sumBeta += beta;
+    this.sumGamma += gamma;
+    this.count++;
+  }
+
+  private restartSampling(): void {
+    this.startTime = null;
+    this.sumBeta = 0;
+    this.sumGamma = 0;
+    this.count = 0;
+    this.progress = 0;
+  }
+}
@@ -4,15 +4,112 @@ export interface GravityVector {
   z: number;
 }
 
+/**
+ * Anything that can drive the board's gravity each fixed step
+ * (live tilt via GravityController, or a recorded replay).
+ */
+export interface GravitySource {
+  getGravityVector(): GravityVector;
+}
+
+/**
+ * Ring kinds (see GoalSystem for visuals, GameStateManager for their effect):
+ * standard, time (adds seconds), multiplier (doubles the next rings), moving (orbits/patrols, worth more),
+ * decoy (penalty, doesn't count towards the goal)
+ */
+export type GoalType = 'standard' | 'time' | 'multiplier' | 'moving' | 'decoy';
+
+/** Device that steers: sensor tilt, on-screen joystick, keyboard, gamepad or a tilt script */
+export type InputMode = 'tilt' | 'touch' | 'keyboard' | 'gamepad' | 'scripted';
+
 export interface InputState {
   isSupported: boolean;
   permissionGranted: boolean;
   usingFallback: boolean; // True if on desktop/mouse
   debugMode: boolean;
+  inputMode: InputMode;   // Used last; only this one drives gravity
 }
 
+export type TelemetryEventName =
+  // Input / device capability
+  | 'PERMISSION_DENIED' | 'FALLBACK_TRIGGERED' | 'UNSUPPORTED_DEVICE'
+  // Gameplay
+  | 'RUN_START' | 'RUN_END' | 'GOAL_COLLECTED' | 'PAUSE' | 'FPS_DROP';
+
+/** Flat key/value details attached to an event (kept small: they are stored and sent in batches) */
+export type TelemetryData = Record<string, string | number | boolean>;
+
 export interface TelemetryEvent {
-  event: 'PERMISSION_DENIED' | 'FALLBACK_TRIGGERED' | 'UNSUPPORTED_DEVICE';
-  timestamp: number;
+  event: TelemetryEventName;
+  timestamp: number;   // Date.now()
   userAgent: string;
-}
\ No newline at end of file
+  sessionId: string;   // One per page load
+  data?: TelemetryData;
+}
+
+// --- LEVEL FORMAT ---
+// All positions/sizes are in world units on the X-Z floor plane
+// (the same units as Three.js; PhysicsWorld applies its own scale).
+
+export interface Point2D {
+  x: number;
+  z: number;
+}
+
+export interface WallSegment {
+  from: Point2D;
+  to: Point2D;
+  thickness?: number; // Default 0.5
+}
+
+export type ObstacleDefinition =
+  | { type: 'box'; x: number; z: number; width: number; depth: number; angle?: number } // angle in degrees
+  | { type: 'circle'; x: number; z: number; radius: number };
+
+// Movers: kinematic obstacles (see Mover). Offsets are relative to the mover's x/z.
+export type MoverMotion =
+  | { type: 'sine'; dx: number; dz: number; period: number; phase?: number } // period in seconds, phase in [0, 1)
+  | { type: 'keyframes'; points: Point2D[]; period: number }; // Loops through the offsets at constant timing
+
+export interface DoorDefinition {
+  opensAfter: number; // Rings collected before it opens
+  dx: number;         // Slide offset when fully open
+  dz: number;
+  duration: number;   // Seconds to open
+}
+
+export type MoverDefinition = ObstacleDefinition & {
+  motion?: MoverMotion;
+  spin?: number; // Degrees per second
+  door?: DoorDefinition;
+};
+
+// Hazards: trigger areas/bodies with gameplay effects (see HazardSystem)
+export type HazardDefinition =
+  | { type: 'pit'; x: number; z: number; radius: number; penalty?: number } // penalty: seconds lost on falling in
+  | { type: 'bumper'; x: number; z: number; radius: number; strength?: number } // strength: launch speed (units/s)
+  | { type: 'boost'; x: number; z: number; width: number; depth: number; angle?: number; strength?: number } // angle: push direction in degrees
+  | { type: 'sticky'; x: number; z: number; width: number; depth: number; angle?: number; drag?: number }; // drag: hero frictionAir while inside
+
+export type HazardType = HazardDefinition['type'];
+
+/** Per-level ring placement rules (see SpawnPolicy) */
+export interface RingSpawnRules {
+  minHeroDistance: number;  // Rings never spawn closer than this to the hero
+  difficultyCurve: boolean; // Push rings further away as the run progresses
+}
+
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  arena: { width: number; depth: number };
+  spawn: Point2D;
+  goalsRequired: number;
+  timeLimit: number; // Seconds
+  stars: [number, number, number]; // Score thresholds for 1/2/3 stars
+  walls: WallSegment[];
+  obstacles: ObstacleDefinition[];
+  movers: MoverDefinition[];
+  hazards: HazardDefinition[];
+  ringSpawn: RingSpawnRules;
+}
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { RandomSource, SeededRandom } from '../core/Random';
 
 export class ScreenShake {
   private camera: THREE.Camera;
@@ -6,9 +7,11 @@ export class ScreenShake {
   private shakeIntensity: number = 0;
   private shakeDuration: number = 0;
   private shakeDecay: number = 0.9; // How fast shake stops
+  private random: RandomSource;
 
-  constructor(camera: THREE.Camera) {
+  constructor(camera: THREE.Camera, random: RandomSource = new SeededRandom()) {
     this.camera = camera;
+    this.random = random;
     this.originalPosition = camera.position.clone();
   }
 
@@ -22,6 +25,10 @@ export class ScreenShake {
     this.shakeDuration = duration;
   }
 
+  public setRandom(random: RandomSource): void {
+    this.random = random;
+  }
+
   /**
    * Update shake effect (call every frame)
    */
@@ -39,9 +46,9 @@ export class ScreenShake {
     // Reduce intensity by decay factor
     this.shakeIntensity = Math.max(0, this.shakeIntensity - (this.shakeDecay * deltaTime));
     
-    const rx = (Math.random() - 0.5) * 2 * this.shakeIntensity;
-    const ry = (Math.random() - 0.5) * 2 * this.shakeIntensity;
-    const rz = (Math.random() - 0.5) * 2 * this.shakeIntensity;
+    const rx = (this.random.next() - 0.5) * 2 * this.shakeIntensity;
+    const ry = (this.random.next() - 0.5) * 2 * this.shakeIntensity;
+    const rz = (this.random.next() - 0.5) * 2 * this.shakeIntensity;
 
     this.camera.position.set(
       this.originalPosition.x + rx,
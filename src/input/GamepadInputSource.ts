@@ -0,0 +1,44 @@
+import { GamepadTilt } from '../core/GamepadTilt';
+import { BaseInputSource } from './InputSource';
+
+/**
+ * GamepadInputSource
+ * Responsibility: Polls the Gamepad API every frame (it has no input events) and emits the
+ * left stick as tilt. Start and Back/Select are forwarded as pause and restart.
+ */
+export class GamepadInputSource extends BaseInputSource {
+  public readonly mode = 'gamepad';
+
+  private pad = new GamepadTilt();
+  private connected = false;
+  private onPause?: () => void;
+  private onRestart?: () => void;
+
+  public setPauseCallback(callback: () => void): void {
+    this.onPause = callback;
+  }
+
+  public setRestartCallback(callback: () => void): void {
+    this.onRestart = callback;
+  }
+
+  public update(): void {
+    if (!this.isRunning()) return;
+    const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+    const reading = this.pad.poll(pads);
+    if (!reading) {
+      if (this.connected) this.emit(0, 0, false); // Unplugged mid-tilt: level out
+      this.connected = false;
+      return;
+    }
+    this.connected = true;
+
+    this.emit(reading.beta, reading.gamma, reading.active);
+    if (reading.pausePressed && this.onPause) this.onPause();
+    if (reading.restartPressed && this.onRestart) this.onRestart();
+  }
+
+  protected attach(): void {
+    // Polled in update(): nothing to listen to
+  }
+}
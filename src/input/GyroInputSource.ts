@@ -0,0 +1,81 @@
+import { ScreenAngle, readScreenAngle, remapTilt } from '../core/OrientationRemap';
+import { tiltFromOrientation } from '../core/QuaternionTilt';
+import { TiltInputMode } from '../core/Settings';
+import { BaseInputSource, TiltSample } from './InputSource';
+
+/**
+ * GyroInputSource
+ * Responsibility: DeviceOrientation -> tilt relative to the screen as shown. While another
+ * device steers, the phone only takes over again once it is clearly moved, so resting it
+ * on a desk doesn't fight the keyboard.
+ */
+export class GyroInputSource extends BaseInputSource {
+  public readonly mode = 'tilt';
+
+  private readonly ORIENTATION_SETTLE_MS = 400;
+  private readonly TAKEOVER_ANGLE = 10; // Degrees the phone must move to take over again
+
+  private screenAngle: ScreenAngle = readScreenAngle();
+  private settleUntil = 0;
+  private tiltMode: TiltInputMode = 'euler';
+  private active = true;
+  private anchor: { beta: number, gamma: number } | null = null;
+  private lastReading: TiltSample | null = null;
+
+  /** 'quaternion' projects real gravity onto the screen (no gimbal lock near upright) */
+  public setTiltMode(mode: TiltInputMode): void {
+    this.tiltMode = mode;
+  }
+
+  /** Latest sensor reading even while another device steers (null until the sensor reports) */
+  public getLastReading(): TiltSample | null {
+    return this.lastReading;
+  }
+
+  public setActive(active: boolean): void {
+    this.active = active;
+    this.anchor = null;
+  }
+
+  protected attach(signal: AbortSignal): void {
+    this.screenAngle = readScreenAngle(); // May have turned while stopped
+    window.addEventListener('deviceorientation', (event) => this.handleOrientation(event), { signal });
+
+    // While the screen turns, readings swing wildly and the axes swap under the player, so
+    // sensor events are ignored briefly (gravity keeps its last value) instead of spiking.
+    const onRotate = () => {
+      const angle = readScreenAngle();
+      if (angle === this.screenAngle) return;
+      this.screenAngle = angle;
+      this.settleUntil = performance.now() + this.ORIENTATION_SETTLE_MS;
+      console.log(`[Input] Screen rotated to ${angle}°`);
+    };
+    if (typeof screen !== 'undefined' && screen.orientation) {
+      screen.orientation.addEventListener('change', onRotate, { signal });
+    } else {
+      window.addEventListener('orientationchange', onRotate, { signal });
+    }
+  }
+
+  protected detach(): void {
+    this.anchor = null;
+  }
+
+  private handleOrientation(event: DeviceOrientationEvent): void {
+    if (event.beta === null || event.gamma === null) return;
+    if (performance.now() < this.settleUntil) return;
+    const device = this.tiltMode === 'quaternion'
+      ? tiltFromOrientation(event.alpha ?? 0, event.beta, event.gamma)
+      : { beta: event.beta, gamma: event.gamma };
+    const { beta, gamma } = remapTilt(device.beta, device.gamma, this.screenAngle);
+
+    let engaged = true;
+    if (!this.active) {
+      if (!this.anchor) this.anchor = { beta, gamma };
+      engaged = Math.abs(beta - this.anchor.beta) > this.TAKEOVER_ANGLE
+        || Math.abs(gamma - this.anchor.gamma) > this.TAKEOVER_ANGLE;
+    }
+    this.lastReading = { beta, gamma, source: this.mode, timestamp: performance.now(), engaged };
+    this.emit(beta, gamma, engaged);
+  }
+}
@@ -0,0 +1,94 @@
+import { InputMode } from '../core/types';
+import { InputSource, SampleListener, TiltSample } from './InputSource';
+
+/**
+ * InputCoordinator
+ * Responsibility: Runs the input sources (at most one per mode) and decides which one steers.
+ * Samples from the active source are forwarded; an idle source takes over with an engaged
+ * sample. Sources can be added, removed or swapped at runtime: a replaced source is disposed,
+ * so none of its handlers outlive it, and late samples from it are dropped.
+ */
+export class InputCoordinator {
+  private sources = new Map<InputMode, InputSource>();
+  private activeMode: InputMode;
+  private lastSample: TiltSample | null = null;
+  private onSample: SampleListener;
+  private onModeChange?: (mode: InputMode) => void;
+
+  constructor(onSample: SampleListener, initialMode: InputMode = 'tilt') {
+    this.onSample = onSample;
+    this.activeMode = initialMode;
+  }
+
+  public setModeChangeCallback(callback: (mode: InputMode) => void): void {
+    this.onModeChange = callback;
+  }
+
+  /**
+   * Starts a source. If another source already handles its mode, that one is disposed and
+   * replaced; using the same source again is a no-op (it is never started twice).
+   */
+  public use(source: InputSource): void {
+    const previous = this.sources.get(source.mode);
+    if (previous === source) return;
+    previous?.dispose();
+
+    this.sources.set(source.mode, source);
+    source.setActive?.(source.mode === this.activeMode);
+    source.start((sample) => this.handleSample(source, sample));
+  }
+
+  /**
+   * Stops the source for a mode and hands it back (it can be `use`d again later).
+   * The active mode is kept, so gravity holds its last value until another source engages.
+   */
+  public remove(mode: InputMode): InputSource | undefined {
+    const source = this.sources.get(mode);
+    if (!source) return undefined;
+    source.stop();
+    this.sources.delete(mode);
+    return source;
+  }
+
+  public get(mode: InputMode): InputSource | undefined {
+    return this.sources.get(mode);
+  }
+
+  public getActiveMode(): InputMode {
+    return this.activeMode;
+  }
+
+  /** Hands steering to a mode without waiting for it to engage (e.g. no sensors found) */
+  public setActiveMode(mode: InputMode): void {
+    if (mode === this.activeMode) return;
+    this.sources.get(this.activeMode)?.setActive?.(false);
+    this.activeMode = mode;
+    this.sources.get(mode)?.setActive?.(true);
+    console.log(`[Input] Switched to ${mode}`);
+    if (this.onModeChange) this.onModeChange(mode);
+  }
+
+  public getLastSample(): TiltSample | null {
+    return this.lastSample;
+  }
+
+  /** Per-frame work for polled sources (gamepad, keyboard ramp, scripts) */
+  public update(dtSeconds: number): void {
+    this.sources.forEach(source => source.update?.(dtSeconds));
+  }
+
+  public dispose(): void {
+    this.sources.forEach(source => source.dispose());
+    this.sources.clear();
+  }
+
+  private handleSample(source: InputSource, sample: TiltSample): void {
+    if (this.sources.get(source.mode) !== source) return; // Removed or swapped out
+    if (sample.source !== this.activeMode) {
+      if (!sample.engaged) return;
+      this.setActiveMode(sample.source);
+    }
+    this.lastSample = sample;
+    this.onSample(sample);
+  }
+}
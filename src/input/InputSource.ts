@@ -0,0 +1,81 @@
+import { InputMode } from '../core/types';
+
+/** One tilt reading from one device, in degrees (same axes as DeviceOrientation beta/gamma) */
+export interface TiltSample {
+  beta: number;
+  gamma: number;
+  source: InputMode;
+  timestamp: number; // performance.now() milliseconds
+  /** Deliberate input (key pressed, stick pushed, phone clearly moved): lets an idle source take over */
+  engaged: boolean;
+}
+
+export type SampleListener = (sample: TiltSample) => void;
+
+/**
+ * InputSource
+ * Responsibility: One steering device. start() attaches its handlers and begins emitting
+ * samples; stop() detaches every one of them and may be followed by another start();
+ * dispose() stops the source for good.
+ */
+export interface InputSource {
+  readonly mode: InputMode;
+  start(listener: SampleListener): void;
+  stop(): void;
+  dispose(): void;
+  isRunning(): boolean;
+  /** Per-frame work for devices without useful events (polling, ramps, scripts) */
+  update?(dtSeconds: number): void;
+  /** Told by the coordinator whether this source is the one steering */
+  setActive?(active: boolean): void;
+}
+
+/**
+ * BaseInputSource
+ * Responsibility: Listener bookkeeping shared by the sources. Every handler is attached with
+ * the AbortSignal of the current run, so stop() removes all of them at once, and starting
+ * twice never attaches a second set.
+ */
+export abstract class BaseInputSource implements InputSource {
+  public abstract readonly mode: InputMode;
+
+  private listener: SampleListener | null = null;
+  private controller: AbortController | null = null;
+  private disposed = false;
+
+  public start(listener: SampleListener): void {
+    if (this.disposed) throw new Error(`The ${this.mode} input source was disposed`);
+    this.listener = listener;
+    if (this.controller) return; // Already listening: only the listener is replaced
+    this.controller = new AbortController();
+    this.attach(this.controller.signal);
+  }
+
+  public stop(): void {
+    if (!this.controller) return;
+    this.controller.abort();
+    this.controller = null;
+    this.listener = null;
+    this.detach();
+  }
+
+  public dispose(): void {
+    this.stop();
+    this.disposed = true;
+  }
+
+  public isRunning(): boolean {
+    return this.controller !== null;
+  }
+
+  /** Adds the handlers; pass `signal` to every addEventListener so stop() can remove them */
+  protected abstract attach(signal: AbortSignal): void;
+
+  /** Clears state that must not survive a stop (held keys, anchors) */
+  protected detach(): void {}
+
+  protected emit(beta: number, gamma: number, engaged: boolean): void {
+    if (!this.listener) return;
+    this.listener({ beta, gamma, source: this.mode, timestamp: performance.now(), engaged });
+  }
+}
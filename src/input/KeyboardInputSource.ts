@@ -0,0 +1,43 @@
+import { KeyboardTilt } from '../core/KeyboardTilt';
+import { BaseInputSource } from './InputSource';
+
+/**
+ * KeyboardInputSource
+ * Responsibility: WASD / arrow key events -> KeyboardTilt. Pressing a steering key engages
+ * the keyboard; the ramp is advanced every frame so it also eases out after release.
+ */
+export class KeyboardInputSource extends BaseInputSource {
+  public readonly mode = 'keyboard';
+
+  private keys = new KeyboardTilt();
+
+  public update(dtSeconds: number): void {
+    if (!this.isRunning()) return;
+    const { beta, gamma } = this.keys.update(dtSeconds);
+    this.emit(beta, gamma, this.keys.isHeld());
+  }
+
+  /** Back to level at once (run restart) */
+  public reset(): void {
+    this.keys.reset();
+  }
+
+  protected attach(signal: AbortSignal): void {
+    window.addEventListener('keydown', (e) => {
+      // Typing a player name must not steer
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      if (!this.keys.keyDown(e.code)) return;
+      e.preventDefault();
+      // Take over now; the ramp toward the new key starts on the next update
+      const { beta, gamma } = this.keys.update(0);
+      this.emit(beta, gamma, true);
+    }, { signal });
+    window.addEventListener('keyup', (e) => this.keys.keyUp(e.code), { signal });
+    // Focus lost: keyup events won't arrive, so nothing may stay held
+    window.addEventListener('blur', () => this.keys.releaseAll(), { signal });
+  }
+
+  protected detach(): void {
+    this.keys.reset();
+  }
+}
@@ -0,0 +1,41 @@
+import * as THREE from 'three';
+import { BaseInputSource } from './InputSource';
+
+/** Something that reports a knob displacement, -1..1 per axis (y down) and 0, 0 on release */
+export interface PointerStick {
+  setMoveCallback(callback: ((x: number, y: number) => void) | null): void;
+}
+
+/**
+ * PointerInputSource
+ * Responsibility: On-screen joystick (touch or mouse) -> tilt. The stick tracks the pointers
+ * itself; this source maps its knob displacement to degrees while running.
+ */
+export class PointerInputSource extends BaseInputSource {
+  public readonly mode = 'touch';
+
+  private readonly MAX_ANGLE = 45; // Degrees at the edge of the knob's travel
+  private stick: PointerStick;
+  private sensitivity = 1;
+
+  constructor(stick: PointerStick) {
+    super();
+    this.stick = stick;
+  }
+
+  /** 1 = full tilt at the edge of the knob's travel */
+  public setSensitivity(sensitivity: number): void {
+    this.sensitivity = sensitivity;
+  }
+
+  protected attach(signal: AbortSignal): void {
+    // Pushing the knob up (-y) rolls the ball away, like raising the top edge (+beta)
+    this.stick.setMoveCallback((x, y) => {
+      const max = this.MAX_ANGLE;
+      const beta = THREE.MathUtils.clamp(-y * max * this.sensitivity, -max, max);
+      const gamma = THREE.MathUtils.clamp(x * max * this.sensitivity, -max, max);
+      this.emit(beta, gamma, true);
+    });
+    signal.addEventListener('abort', () => this.stick.setMoveCallback(null));
+  }
+}
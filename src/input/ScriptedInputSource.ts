@@ -0,0 +1,60 @@
+import { BaseInputSource } from './InputSource';
+
+/** Tilt to reach at a point in the script */
+export interface ScriptedTiltStep {
+  at: number; // Seconds since start()
+  beta: number;
+  gamma: number;
+}
+
+/**
+ * ScriptedInputSource
+ * Responsibility: Plays back a fixed tilt timeline (tests, demos, attract mode). Tilt is
+ * interpolated linearly between steps and holds the last one once the script ends.
+ * Time only advances through update(), so playback is as deterministic as the game loop.
+ */
+export class ScriptedInputSource extends BaseInputSource {
+  public readonly mode = 'scripted';
+
+  private steps: ScriptedTiltStep[];
+  private time = 0;
+
+  constructor(steps: ScriptedTiltStep[]) {
+    super();
+    if (steps.length === 0) throw new Error('A tilt script needs at least one step');
+    this.steps = [...steps].sort((a, b) => a.at - b.at);
+  }
+
+  public isFinished(): boolean {
+    return this.time >= this.steps[this.steps.length - 1].at;
+  }
+
+  public update(dtSeconds: number): void {
+    if (!this.isRunning()) return;
+    this.time += dtSeconds;
+    this.emitCurrent();
+  }
+
+  protected attach(): void {
+    this.time = 0;
+    this.emitCurrent();
+  }
+
+  private emitCurrent(): void {
+    const next = this.steps.findIndex(step => step.at > this.time);
+    if (next === -1) {
+      const last = this.steps[this.steps.length - 1];
+      this.emit(last.beta, last.gamma, true);
+      return;
+    }
+    if (next === 0) {
+      this.emit(this.steps[0].beta, this.steps[0].gamma, true);
+      return;
+    }
+
+    const from = this.steps[next - 1];
+    const to = this.steps[next];
+    const t = (this.time - from.at) / (to.at - from.at);
+    this.emit(from.beta + (to.beta - from.beta) * t, from.gamma + (to.gamma - from.gamma) * t, true);
+  }
+}
@@ -0,0 +1,25 @@
+import { parseLevel } from '../core/LevelLoader';
+import { LevelDefinition } from '../core/types';
+import classic from './classic.json';
+import warmup from './warmup.json';
+import pillars from './pillars.json';
+import corridor from './corridor.json';
+import gauntlet from './gauntlet.json';
+import funhouse from './funhouse.json';
+import clockwork from './clockwork.json';
+
+/**
+ * Built-in levels, validated once at startup.
+ */
+export const LEVELS: LevelDefinition[] = [classic, warmup, pillars, corridor, gauntlet, funhouse, clockwork].map(parseLevel);
+
+export const DEFAULT_LEVEL_ID = 'classic';
+
+/** Campaign order. The first entry is always unlocked. */
+export const CAMPAIGN_LEVEL_IDS = ['warmup', 'pillars', 'corridor', 'gauntlet', 'funhouse', 'clockwork'];
+
+export function getLevel(id: string): LevelDefinition | undefined {
+  return LEVELS.find(level => level.id === id);
+}
+
+export const CAMPAIGN_LEVELS: LevelDefinition[] = CAMPAIGN_LEVEL_IDS.map(id => getLevel(id)!);
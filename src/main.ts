@@ -1,10 +1,10 @@
-import Matter from 'matter-js'; 
 import './main.css';
 
+import * as THREE from 'three';
 import { GravityController } from './core/GravityController';
 import { DeviceInputManager } from './core/DeviceInputManager';
 import { DebugScene } from './scenes/DebugScene';
-import { PhysicsWorld } from './core/PhysicsWorld';
+import { DEFAULT_PHYSICS_TUNING, PhysicsTuning, PhysicsWorld, isDefaultTuning } from './core/PhysicsWorld';
 import { ParticleSystem } from './core/ParticleSystem';
 import { CollisionDetector } from './core/CollisionDetector';
 import { GoalSystem } from './core/GoalSystem';
@@ -12,6 +12,33 @@ import { GameStateManager, GameState } from './core/GameStateManager';
 import { GameUI } from './ui/GameUI';
 import { SoundManager } from './audio/SoundManager';
 import { ScreenShake } from './effects/ScreenShake';
+import { LevelLoader } from './core/LevelLoader';
+import { GameSimulation } from './core/GameSimulation';
+import { HazardEvent, HazardSystem } from './core/HazardSystem';
+import { Campaign } from './core/Campaign';
+import { RunStatsStore } from './core/RunStatsStore';
+import { Leaderboard, RunMode } from './core/Leaderboard';
+import { HttpLeaderboardService } from './online/HttpLeaderboardService';
+import { RunSubmission } from './online/LeaderboardService';
+import { SubmissionQueue } from './online/SubmissionQueue';
+import { SeededRandom } from './core/Random';
+import { GRAPHICS_PRESETS, GameSettings, SettingsStore } from './core/Settings';
+import { TiltCalibrator } from './core/TiltCalibrator';
+import { GravityVector, LevelDefinition } from './core/types';
+import { ReplayRecorder } from './replay/ReplayRecorder';
+import { ReplayPlayer } from './replay/ReplayPlayer';
+import { ReplayData, deserializeReplay, serializeReplay } from './replay/ReplayFormat';
+import { ReplayControls } from './ui/ReplayControls';
+import { VirtualJoystick } from './ui/VirtualJoystick';
+import { HUD } from './ui/HUD';
+import { PhysicsDebugView } from './scenes/PhysicsDebugView';
+import { GhostRecorder, GhostRun, sampleGhostPosition } from './replay/Ghost';
+import { GhostStore } from './replay/GhostStore';
+import { CAMPAIGN_LEVELS, DEFAULT_LEVEL_ID, getLevel } from './levels';
+import { Telemetry } from './telemetry/Telemetry';
+import { HttpTelemetrySink } from './telemetry/HttpTelemetrySink';
+import { MemoryTelemetrySink } from './telemetry/MemoryTelemetrySink';
+import { FpsMonitor } from './telemetry/FpsMonitor';
 
 console.log("🚀 Booting Kinetic Tilt v1.0");
 
@@ -19,10 +46,17 @@ console.log("🚀 Booting Kinetic Tilt v1.0");
 const canvas = document.getElementById('canvas') as HTMLCanvasElement;
 if (!canvas) throw new Error("Canvas element not found");
 
+// ?telemetry=<url> sends usage events there; ?telemetry=test only logs the batches locally.
+// Nothing is sent until the settings (which can opt out) have been applied.
+const telemetryTarget = new URLSearchParams(window.location.search).get('telemetry');
+const telemetry = telemetryTarget
+  ? new Telemetry(telemetryTarget === 'test' ? new MemoryTelemetrySink(true) : new HttpTelemetrySink(telemetryTarget))
+  : null;
+
 const gravityController = new GravityController();
-const inputManager = new DeviceInputManager((beta, gamma) => {
-  gravityController.update(beta, gamma);
-});
+const inputManager = new DeviceInputManager(({ beta, gamma, source }) => {
+  gravityController.update(beta, gamma, source === 'tilt');
+}, telemetry);
 
 // Fix: Log manager state to silence unused variable warning
 console.log('Input Manager Online:', inputManager.state);
@@ -31,7 +65,8 @@ console.log('Input Manager Online:', inputManager.state);
 const debugScene = new DebugScene(canvas, gravityController);
 const physicsWorld = new PhysicsWorld();
 physicsWorld.addHeroSphere(debugScene.getHeroSphere());
-physicsWorld.addBoundaries();
+const levelLoader = new LevelLoader(physicsWorld, debugScene.getScene());
+const hazardSystem = new HazardSystem(physicsWorld, debugScene.getScene());
 
 // 3. Effects & Audio
 const particleSystem = new ParticleSystem(debugScene.getScene());
@@ -43,51 +78,498 @@ const collisionDetector = new CollisionDetector();
 const goalSystem = new GoalSystem(debugScene.getScene(), collisionDetector);
 const gameState = new GameStateManager();
 const gameUI = new GameUI();
+const simulation = new GameSimulation({
+  scene: debugScene.getScene(),
+  physicsWorld,
+  goalSystem,
+  gameState,
+  levelLoader,
+  hazardSystem
+});
+
+// --- URL PARAMS ---
+const urlParams = new URLSearchParams(window.location.search);
+
+// ?ball=plain swaps the striped hero for the original solid one
+debugScene.setHeroStriped(urlParams.get('ball') !== 'plain');
+
+// ?seed=<number|text> pins every run to the same layout. Otherwise each level rolls a seed
+// the first time it is played and keeps it for the session, so retries race your ghost.
+const fixedSeed = SeededRandom.parseSeed(urlParams.get('seed'));
+let runSeed = fixedSeed ?? SeededRandom.randomSeed();
+const levelSeeds = new Map<string, number>();
+
+// --- LEVEL ---
+
+// ?level=<id> picks a built-in level (handy for testing layouts)
+const requestedLevelId = urlParams.get('level');
+const quickPlayLevel: LevelDefinition = getLevel(requestedLevelId ?? DEFAULT_LEVEL_ID) ?? getLevel(DEFAULT_LEVEL_ID)!;
+let currentLevel: LevelDefinition = quickPlayLevel;
+
+// --- CAMPAIGN ---
+const campaign = new Campaign(CAMPAIGN_LEVELS);
+gameState.unlockLevel(campaign.getFirstLevel().id);
+let inCampaign = false;
 
 // --- WIRING ---
 
-gameUI.setStartCallback(() => {
+/**
+ * Re-seeds every randomised system. Each gets its own named stream so effects
+ * (frame-rate dependent) can never shift where the rings spawn.
+ */
+const seedRun = (seed: number) => {
+  runSeed = seed;
+  const random = new SeededRandom(seed); // Rings are seeded by simulation.reset()
+  particleSystem.setRandom(random.fork('particles'));
+  screenShake.setRandom(random.fork('shake'));
+  soundManager.setRandom(random.fork('sound'));
+
+  const shareUrl = new URL(window.location.href);
+  shareUrl.searchParams.set('level', currentLevel.id);
+  shareUrl.searchParams.set('seed', seed.toString());
+  gameUI.setRunSeed(seed, shareUrl.toString());
+  console.log(`🎲 Run Seed: ${seed}`);
+};
+
+const startRun = () => {
   soundManager.ensureContextResumed(); // Critical for Audio
-  gameState.startGame();
-  gameUI.showGameHUD();
-});
+  if (!levelSeeds.has(currentLevel.id)) levelSeeds.set(currentLevel.id, SeededRandom.randomSeed());
+  seedRun(fixedSeed ?? levelSeeds.get(currentLevel.id)!);
+  resetWorld(); // Respawn rings from the run's seed
+  const tuning = physicsWorld.getTuning();
+  runRetuned = !isDefaultTuning(tuning);
+  replayRecorder.start(currentLevel.id, runSeed, FIXED_TIMESTEP, runRetuned ? tuning : undefined);
+  startGhost();
+  simulation.start(); // PLAYING transition shows the HUD
+  telemetry?.track('RUN_START', {
+    level: currentLevel.id,
+    mode: inCampaign ? 'campaign' : 'quick',
+    seed: runSeed,
+    input: inputManager.state.inputMode
+  });
+};
+
+const resetWorld = () => {
+  replayRecorder.stop(); // Abandoned runs are not kept
+  stopGhost();
 
-gameUI.setRestartCallback(() => {
-  // Logic Reset
-  gameState.reset();
+  // Logic + Physics Reset (rings respawn from the current seed)
+  simulation.reset(runSeed);
   gravityController.reset();
-  goalSystem.reset(debugScene.getScene());
   particleSystem.reset();
   
-  // Physics Reset
-  const heroBody = physicsWorld.getHeroBody();
-  if (heroBody) {
-    Matter.Body.setPosition(heroBody, { x: 0, y: 0 }); 
-    Matter.Body.setVelocity(heroBody, { x: 0, y: 0 });
-    Matter.Body.setAngularVelocity(heroBody, 0);
+  // Visual Reset (position + rolling orientation)
+  const { spawn } = currentLevel;
+  debugScene.resetHero(spawn.x, spawn.z);
+};
+
+/**
+ * Swaps the arena and pushes the level's rules into every system that used to hard-code them.
+ */
+const applyLevel = (level: LevelDefinition) => {
+  currentLevel = level;
+  simulation.loadLevel(level);
+
+  const { width, depth } = level.arena;
+  debugScene.setArenaSize(width, depth);
+  screenShake.updateOrigin(debugScene.getCamera().position);
+  particleSystem.setArena(width, depth);
+  gameUI.setLevelInfo(level.name, level.goalsRequired, level.timeLimit);
+
+  resetWorld();
+};
+
+const showLevelSelect = () => {
+  gameUI.showLevelSelect(campaign.getLevels().map(level => {
+    const record = gameState.getLevelRecord(level.id);
+    return {
+      id: level.id,
+      name: level.name,
+      goalsRequired: level.goalsRequired,
+      timeLimit: level.timeLimit,
+      highScore: record.highScore,
+      stars: record.stars,
+      locked: !gameState.isLevelUnlocked(level.id)
+    };
+  }));
+};
+
+const returnToStart = () => {
+  resetWorld();
+  if (inCampaign) showLevelSelect();
+  else gameUI.showStartScreen();
+};
+
+gameUI.setStartCallback(() => {
+  void inputManager.requestPermission(); // Motion access needs a tap on iOS; menu taps are the first ones
+  inCampaign = false;
+  if (currentLevel !== quickPlayLevel) applyLevel(quickPlayLevel);
+  startRun();
+});
+
+gameUI.setCampaignCallback(() => {
+  inCampaign = true;
+  showLevelSelect();
+});
+
+gameUI.setLevelSelectedCallback((levelId) => {
+  void inputManager.requestPermission();
+  const level = getLevel(levelId);
+  if (!level || !gameState.isLevelUnlocked(levelId)) return;
+  applyLevel(level);
+  startRun();
+});
+
+gameUI.setNextLevelCallback(() => {
+  const next = campaign.getNextLevel(currentLevel.id);
+  if (!next) return;
+  applyLevel(next);
+  startRun();
+});
+
+gameUI.setRestartCallback(returnToStart);
+gameUI.setQuitCallback(returnToStart);
+
+gameUI.setRestartRunCallback(startRun);
+
+// While a replay is showing, "pause" means pausing playback, not the pause menu
+const pauseGame = () => {
+  if (activeReplay) activeReplay.pause();
+  else gameState.pause();
+};
+
+gameUI.setPauseCallback(pauseGame);
+gameUI.setResumeCallback(() => gameState.resume());
+
+// Auto-pause: a phone call or app switch must not burn the timer
+document.addEventListener('visibilitychange', () => {
+  if (document.hidden) pauseGame();
+});
+window.addEventListener('blur', pauseGame);
+
+const togglePause = () => {
+  if (activeReplay) activeReplay.togglePlay();
+  else gameState.togglePause();
+};
+
+window.addEventListener('keydown', (e) => {
+  if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+  if (e.code === 'Escape' || e.code === 'KeyP') togglePause();
+});
+
+// Gamepad: Start pauses, Back restarts the run (replays have their own controls)
+inputManager.setGamepadPauseCallback(togglePause);
+inputManager.setGamepadRestartCallback(() => {
+  if (!activeReplay) startRun();
+});
+inputManager.setInputModeCallback((mode) => gameUI.setInputMode(mode));
+gameUI.setInputMode(inputManager.state.inputMode);
+
+// On-screen joystick: only while actually playing, so menus stay tappable
+const joystick = new VirtualJoystick();
+inputManager.attachJoystick(joystick);
+const updateJoystick = () => {
+  joystick.setEnabled(inputManager.isJoystickNeeded() && gameState.getState() === GameState.PLAYING);
+};
+inputManager.setJoystickCallback(updateJoystick);
+
+// Debug overlay (` key): live readouts, body outlines, trigger zones and physics tuning
+const hud = new HUD();
+const physicsDebugView = new PhysicsDebugView(debugScene.getScene(), collisionDetector);
+let runRetuned = false; // The current run isn't on default physics: no ghost is saved for it
+
+const applyTuning = (tuning: PhysicsTuning) => {
+  physicsWorld.setTuning(tuning);
+  hud.setTuning(physicsWorld.getTuning());
+};
+
+hud.setTuning(physicsWorld.getTuning());
+hud.setTuningCallback((changes) => {
+  // Playback runs on the tuning stored in the replay
+  if (activeReplay) {
+    hud.setTuning(physicsWorld.getTuning());
+    return;
+  }
+  physicsWorld.setTuning(changes);
+  runRetuned = true; // Between runs, startRun re-checks against the defaults anyway
+  // A replay holds one tuning for the whole run, so a mid-run change can't be played back
+  if (replayRecorder.isRecording()) {
+    replayRecorder.stop();
+    console.log('📼 Physics retuned mid-run: this run will not be replayable');
   }
-  
-  // Visual Reset
-  debugScene.getHeroSphere().position.set(0, 0.5, 0);
-  
-  gameUI.showStartScreen();
 });
+inputManager.setDebugModeCallback((enabled) => {
+  hud.setVisible(enabled);
+  physicsDebugView.setVisible(enabled);
+});
+
+// --- SETTINGS ---
+const settingsStore = new SettingsStore();
+
+/** Pushes the settings into the running systems (at boot and after every change) */
+const applySettings = (settings: GameSettings) => {
+  gravityController.setMaxTiltAngle(settings.maxTiltAngle);
+  gravityController.setDeadzone(settings.deadzone);
+  gravityController.setSmoothing(settings.smoothing);
+  gravityController.setInvertAxes(settings.invertX, settings.invertY);
+  gravityController.setNeutral(settings.neutralBeta, settings.neutralGamma);
+  gravityController.setLockFreeInput(settings.tiltInput === 'quaternion');
+  inputManager.setTiltMode(settings.tiltInput);
+  inputManager.setJoystickPreferred(settings.steering === 'joystick');
+  inputManager.setJoystickSensitivity(settings.joystickSensitivity);
+  joystick.setStyle(settings.joystickStyle);
+  joystick.setLeftSide(settings.leftHanded);
+
+  soundManager.setMuted(settings.muted);
+  gameUI.setMuted(settings.muted);
+  gameUI.setLeftHanded(settings.leftHanded);
+  gameUI.setPortraitAllowed(settings.allowPortrait);
+
+  const graphics = GRAPHICS_PRESETS[settings.graphicsQuality];
+  debugScene.setMaxPixelRatio(graphics.maxPixelRatio);
+  particleSystem.setDensity(graphics.particleDensity);
+
+  telemetry?.setEnabled(settings.telemetry);
+};
+
+applySettings(settingsStore.get());
+settingsStore.setChangeCallback(applySettings);
+telemetry?.start();
+void telemetry?.flush(); // Whatever the last session couldn't send
+
+gameUI.setSettingsCallback(() => gameUI.showSettings(settingsStore.get()));
+gameUI.setSettingsChangeCallback((changes) => settingsStore.update(changes));
+gameUI.setSettingsResetCallback(() => gameUI.showSettings(settingsStore.reset()));
+
+gameUI.setMuteCallback(() => settingsStore.update({ muted: !settingsStore.get().muted }).muted);
+
+// --- CALIBRATION ---
+// Sampled every frame (see gameLoop) so a motionless device still makes progress.
+// Only real sensor readings count: without any, calibration fails instead of storing flat.
+const CALIBRATION_SENSOR_TIMEOUT = 1.5; // Seconds to wait for the first reading
+const tiltCalibrator = new TiltCalibrator();
+let calibratingFrom: 'pause' | 'settings' | null = null;
+let calibrationMovedUntil = 0;
+let calibrationStartedAt: number | null = null; // Seconds; null while waiting for sensor access
+
+const endCalibration = () => {
+  const from = calibratingFrom;
+  calibratingFrom = null;
+  calibrationStartedAt = null;
+  if (from === 'settings') gameUI.showSettings(settingsStore.get());
+  else if (gameState.isPaused()) gameUI.showPauseScreen();
+};
+
+const failCalibration = () => {
+  calibrationStartedAt = null;
+  gameUI.showCalibrationError('No motion sensor data. Calibration needs a device with tilt sensors and motion access allowed.');
+};
+
+const updateCalibration = (nowSeconds: number) => {
+  if (calibrationStartedAt === null) return;
+  const reading = inputManager.getLastOrientation();
+  if (!reading || reading.timestamp / 1000 < calibrationStartedAt - CALIBRATION_SENSOR_TIMEOUT) {
+    if (nowSeconds - calibrationStartedAt > CALIBRATION_SENSOR_TIMEOUT) failCalibration();
+    return;
+  }
+
+  const status = tiltCalibrator.addSample(reading.beta, reading.gamma, nowSeconds);
+  if (status === 'moved') calibrationMovedUntil = nowSeconds + 1;
+  gameUI.updateCalibration(tiltCalibrator.getProgress(), nowSeconds < calibrationMovedUntil);
 
-gameUI.setMuteCallback(() => {
-  soundManager.toggleMute();
-  return soundManager.isSoundMuted();
+  const neutral = tiltCalibrator.getNeutral();
+  if (neutral) {
+    settingsStore.update({ neutralBeta: neutral.beta, neutralGamma: neutral.gamma });
+    endCalibration();
+  }
+};
+
+gameUI.setCalibrateCallback((from) => {
+  calibratingFrom = from;
+  calibrationMovedUntil = 0;
+  calibrationStartedAt = null;
+  tiltCalibrator.start();
+  gameUI.showCalibration();
+  // The sensor may only start now (first tap), so sampling waits for the answer
+  inputManager.requestPermission().then((granted) => {
+    if (calibratingFrom !== from) return; // Cancelled meanwhile
+    if (granted) calibrationStartedAt = performance.now() / 1000;
+    else failCalibration();
+  });
+});
+gameUI.setCalibrationCancelCallback(endCalibration);
+gameUI.setCalibrationFlatCallback(() => {
+  settingsStore.update({ neutralBeta: 0, neutralGamma: 0 });
+  endCalibration();
+});
+
+// Run statistics are complete only once the final step has finished, so the results
+// screen fills them in right after that step (see stepSimulation)
+const runStatsStore = new RunStatsStore();
+const leaderboard = new Leaderboard();
+let resultsPending = false;
+
+// ?leaderboard=<url> also submits runs to an online leaderboard (try `npm run leaderboard:mock`)
+const leaderboardUrl = urlParams.get('leaderboard');
+const onlineLeaderboard = leaderboardUrl ? new HttpLeaderboardService(leaderboardUrl) : null;
+const submissionQueue = onlineLeaderboard ? new SubmissionQueue(onlineLeaderboard) : null;
+
+const showRunResults = () => {
+  const stats = simulation.getRunStats();
+  const best = runStatsStore.getBest(stats.levelId); // Compare against the previous best
+  runStatsStore.saveIfBest(stats);
+  const run = {
+    levelId: stats.levelId,
+    mode: (inCampaign ? 'campaign' : 'quick') as RunMode,
+    score: stats.score,
+    time: stats.duration,
+    won: stats.won,
+    seed: runSeed,
+    date: Date.now()
+  };
+  const rank = leaderboard.addRun(run);
+  gameUI.showRunStats(stats, best, rank);
+  submitOnlineRun({
+    ...run,
+    name: leaderboard.getPlayerName(),
+    replay: lastReplay ? serializeReplay(lastReplay) : undefined
+  });
+};
+
+/** Failed submissions stay queued and go out with the next flush */
+const submitOnlineRun = async (run: RunSubmission) => {
+  if (!submissionQueue) return;
+  const rank = await submissionQueue.submit(run);
+  if (rank !== null) gameUI.showOnlineRank(rank);
+};
+
+const pendingUploadsText = (): string => {
+  const pending = submissionQueue?.getPendingCount() ?? 0;
+  return pending > 0 ? `${pending} run${pending === 1 ? '' : 's'} waiting to upload` : '';
+};
+
+let onlineRequestId = 0;
+const showOnlineScores = async (levelId: string, mode: RunMode | null) => {
+  if (!onlineLeaderboard) {
+    gameUI.showOnlineScores(null);
+    return;
+  }
+
+  const requestId = ++onlineRequestId;
+  gameUI.showOnlineScores({ status: 'Loading…', top: [], aroundMe: [] });
+  try {
+    const [top, aroundMe] = await Promise.all([
+      onlineLeaderboard.fetchTop(levelId, mode),
+      onlineLeaderboard.fetchAroundMe(levelId, mode, leaderboard.getPlayerName())
+    ]);
+    if (requestId !== onlineRequestId) return; // The filter changed meanwhile
+    gameUI.showOnlineScores({ status: pendingUploadsText(), top, aroundMe });
+  } catch (error) {
+    if (requestId !== onlineRequestId) return;
+    console.warn('Online leaderboard unavailable:', error);
+    gameUI.showOnlineScores({ status: ['Offline', pendingUploadsText()].filter(Boolean).join(' — '), top: [], aroundMe: [] });
+  }
+};
+
+// --- LEADERBOARD ---
+const showLeaderboard = (levelId: string = currentLevel.id, mode: RunMode | null = null) => {
+  const levelIds = new Set([...CAMPAIGN_LEVELS.map(level => level.id), quickPlayLevel.id, ...leaderboard.getLevelIds()]);
+  gameUI.showLeaderboard({
+    playerName: leaderboard.getPlayerName(),
+    levels: [...levelIds].map(id => ({ id, name: getLevel(id)?.name ?? id })),
+    levelId,
+    mode,
+    entries: leaderboard.getTop(levelId, mode ?? undefined),
+    history: leaderboard.getHistory().slice(0, 10)
+  });
+  showOnlineScores(levelId, mode);
+};
+
+const downloadLeaderboard = () => {
+  const blob = new Blob([leaderboard.exportJSON()], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = 'kinetic-tilt-leaderboard.json';
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+gameUI.setLeaderboardCallback(() => {
+  showLeaderboard();
+  gameUI.setLeaderboardStatus('');
+});
+gameUI.setLeaderboardFilterCallback(showLeaderboard);
+
+// Upload runs queued while offline: now, and whenever the connection comes back
+submissionQueue?.flush();
+window.addEventListener('online', () => submissionQueue?.flush());
+gameUI.setPlayerNameCallback((name) => leaderboard.setPlayerName(name));
+gameUI.setLeaderboardExportCallback(downloadLeaderboard);
+gameUI.setLeaderboardImportCallback((text) => {
+  try {
+    const added = leaderboard.importJSON(text);
+    showLeaderboard();
+    gameUI.setLeaderboardStatus(`Imported ${added} new run${added === 1 ? '' : 's'}`);
+  } catch (error) {
+    console.error('Leaderboard import failed:', error);
+    gameUI.setLeaderboardStatus(`Import failed: ${(error as Error).message}`);
+  }
 });
 
 // State Changes -> Audio/UI
 gameState.setStateChangeCallback((newState: GameState) => {
+  updateJoystick();
+  if (activeReplay) {
+    // Playback re-runs the original session; results were already recorded the first time
+    joystick.setEnabled(false);
+    if (newState === GameState.PLAYING) gameUI.showGameHUD();
+    return;
+  }
+
+  if (newState === GameState.WIN || newState === GameState.GAME_OVER) {
+    lastReplay = replayRecorder.stop();
+    resultsPending = true;
+    telemetry?.track('RUN_END', {
+      level: currentLevel.id,
+      outcome: newState === GameState.WIN ? 'win' : 'lose',
+      score: gameState.getScore(),
+      collected: gameState.getGoalsCollected(),
+      timeLeft: Math.round(gameState.getTimeRemaining())
+    });
+  }
+
   switch (newState) {
-    case GameState.WIN:
+    case GameState.PAUSED:
+      gameUI.showPauseScreen();
+      telemetry?.track('PAUSE', { level: currentLevel.id, timeLeft: Math.round(gameState.getTimeRemaining()) });
+      break;
+
+    case GameState.PLAYING:
+      // Also reached on resume, which must bring the HUD back
+      calibratingFrom = null;
+      calibrationStartedAt = null;
+      gameUI.showGameHUD();
+      break;
+
+    case GameState.WIN: {
       soundManager.playWin();
+      let campaignResult: { stars: number, hasNextLevel: boolean } | undefined;
+
+      if (inCampaign) {
+        const stars = Campaign.computeStars(currentLevel, gameState.getScore(), true);
+        gameState.saveLevelStars(currentLevel.id, stars);
+        const next = campaign.getNextLevel(currentLevel.id);
+        if (next) gameState.unlockLevel(next.id);
+        campaignResult = { stars, hasNextLevel: next !== null };
+      }
+
       gameUI.showWinScreen(
         gameState.getScore(),
-        gameState.getTimeRemaining()
+        gameState.getScoring().getPoints('timeBonus'),
+        campaignResult
       );
       break;
+    }
       
     case GameState.GAME_OVER:
       soundManager.playLose();
@@ -101,71 +583,320 @@ gameState.setStateChangeCallback((newState: GameState) => {
   }
 });
 
+// --- SIMULATION ---
+const FIXED_TIMESTEP = GameSimulation.FIXED_TIMESTEP;
+
+/**
+ * One deterministic tick of the shared GameSimulation, plus the presentation on top of it.
+ * @param withEffects - false while fast-forwarding a replay (no sound/particles/popups)
+ */
+const stepSimulation = (gravityVec: GravityVector, withEffects: boolean): boolean => {
+  const { collected, goal, hazards, nearMiss } = simulation.step(gravityVec);
+  physicsWorld.syncVisuals();
+
+  if (resultsPending) {
+    resultsPending = false;
+    showRunResults();
+  }
+
+  if (withEffects) hazards.forEach(playHazardFeedback);
+  if (nearMiss > 0 && withEffects) {
+    gameUI.showNearMissPopup(nearMiss, debugScene.getHeroSphere().position, debugScene.getCamera());
+  }
+
+  if (goal && withEffects) {
+    // GOAL COLLECTED EVENT: Spawn effects at Hero/Goal Position
+    const heroMesh = debugScene.getHeroSphere();
+    particleSystem.createBurst(heroMesh.position);
+
+    if (goal.type === 'decoy') {
+      screenShake.shake(0.35, 0.3);
+      soundManager.playDecoy();
+    } else {
+      screenShake.shake(0.2, 0.3);
+      soundManager.playGoalCollect();
+    }
+
+    // Show Popup with what the ring actually did
+    gameUI.showGoalPopup(goal, heroMesh.position, debugScene.getCamera());
+  }
+  if (goal && !activeReplay) {
+    telemetry?.track('GOAL_COLLECTED', { level: currentLevel.id, type: goal.type, points: goal.points, combo: goal.combo });
+  }
+
+  return collected;
+};
+
+/**
+ * Sound + shake + particles for a triggered hazard (presentation only).
+ */
+const playHazardFeedback = (event: HazardEvent) => {
+  const position = new THREE.Vector3(event.x, 0.5, event.z);
+  switch (event.type) {
+    case 'pit':
+      particleSystem.createBurst(position, 40);
+      screenShake.shake(0.4, 0.4);
+      soundManager.playFall();
+      break;
+    case 'bumper':
+      particleSystem.createBurst(position, 12);
+      screenShake.shake(0.15, 0.15);
+      soundManager.playBump();
+      break;
+    case 'boost':
+      particleSystem.createBurst(position, 8);
+      soundManager.playBoost();
+      break;
+    case 'sticky':
+      soundManager.playSquelch();
+      break;
+  }
+};
+
+// --- GHOST ---
+const ghostRecorder = new GhostRecorder();
+const ghostStore = new GhostStore();
+let currentGhost: GhostRun | null = null;
+
+const startGhost = () => {
+  ghostRecorder.start();
+  currentGhost = ghostStore.get(currentLevel.id, runSeed);
+  debugScene.setGhostVisible(currentGhost !== null);
+  if (currentGhost) {
+    const start = sampleGhostPosition(currentGhost, 0);
+    debugScene.setGhostPosition(start.x, start.z);
+  }
+  gameUI.updateGhostDelta(null);
+};
+
+const stopGhost = () => {
+  ghostRecorder.cancel();
+  currentGhost = null;
+  debugScene.setGhostVisible(false);
+  gameUI.updateGhostDelta(null);
+};
+
+/**
+ * Ghost bookkeeping for one live step (never runs during replays).
+ */
+const trackGhostStep = (collected: boolean) => {
+  const heroPos = debugScene.getHeroSphere().position;
+  ghostRecorder.recordStep(heroPos.x, heroPos.z);
+
+  if (collected) {
+    const ring = ghostRecorder.markSplit();
+    const ghostSplit = currentGhost?.splits[ring];
+    if (ghostSplit !== undefined) {
+      gameUI.updateGhostDelta(((ghostRecorder.getStep() - ghostSplit) * FIXED_TIMESTEP) / 1000);
+    }
+  }
+
+  if (currentGhost) {
+    const ghostPos = sampleGhostPosition(currentGhost, ghostRecorder.getStep());
+    debugScene.setGhostPosition(ghostPos.x, ghostPos.z);
+  }
+
+  // Finish after the final split is marked, so the ghost keeps every ring
+  const state = gameState.getState();
+  if (state === GameState.WIN || state === GameState.GAME_OVER) {
+    const ghostRun = ghostRecorder.finish(state === GameState.WIN, currentLevel.id, runSeed, gameState.getScore());
+    if (ghostRun && !runRetuned) ghostStore.saveIfFaster(ghostRun);
+  }
+};
+
+// --- REPLAY ---
+const replayRecorder = new ReplayRecorder();
+const replayControls = new ReplayControls();
+let lastReplay: ReplayData | null = null;
+let activeReplay: ReplayPlayer | null = null;
+let levelBeforeReplay: LevelDefinition | null = null;
+let tuningBeforeReplay: PhysicsTuning | null = null;
+
+/**
+ * Puts the world back into the exact state the recorded run started from.
+ */
+const restartReplayRun = (replay: ReplayData) => {
+  seedRun(replay.seed);
+  resetWorld();
+  simulation.start();
+};
+
+/** Throws if the replay's level doesn't exist in this build */
+const startReplay = (replay: ReplayData) => {
+  const level = getLevel(replay.levelId);
+  if (!level) throw new Error(`Replay references unknown level "${replay.levelId}"`);
+
+  levelBeforeReplay = currentLevel;
+  if (level !== currentLevel) applyLevel(level);
+  tuningBeforeReplay = tuningBeforeReplay ?? physicsWorld.getTuning();
+  applyTuning(replay.tuning ?? DEFAULT_PHYSICS_TUNING);
+
+  activeReplay = new ReplayPlayer(replay);
+  restartReplayRun(replay);
+  replayControls.show(activeReplay.getFrameCount(), replay.timestep);
+  console.log(`📼 Watching replay: ${replay.levelId} / seed ${replay.seed}`);
+};
+
+/**
+ * Physics can't run backwards, so seeking re-simulates from step 0 up to the target, silently.
+ */
+const seekReplay = (targetFrame: number) => {
+  if (!activeReplay) return;
+  const replay = activeReplay.getReplay();
+
+  restartReplayRun(replay);
+  activeReplay.rewind();
+  while (activeReplay.getFrame() < targetFrame && !activeReplay.isFinished()) {
+    stepSimulation(activeReplay.getGravityVector(), false);
+    activeReplay.advance();
+  }
+};
+
+const exitReplay = () => {
+  activeReplay = null;
+  replayControls.hide();
+  if (levelBeforeReplay && levelBeforeReplay !== currentLevel) applyLevel(levelBeforeReplay);
+  levelBeforeReplay = null;
+  if (tuningBeforeReplay) applyTuning(tuningBeforeReplay);
+  tuningBeforeReplay = null;
+  returnToStart();
+};
+
+const downloadReplay = (replay: ReplayData) => {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `kinetic-tilt-${replay.levelId}-${replay.seed}.replay.json`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+replayControls.setCallbacks({
+  onTogglePlay: () => activeReplay?.togglePlay(),
+  onToggleSpeed: () => activeReplay?.setSpeed(activeReplay.getSpeed() === 1 ? 2 : 1),
+  onSeek: seekReplay,
+  onDownload: () => { if (activeReplay) downloadReplay(activeReplay.getReplay()); },
+  onExit: exitReplay
+});
+
+gameUI.setWatchReplayCallback(() => {
+  if (lastReplay) startReplay(lastReplay);
+});
+
+// A downloaded .replay.json, picked on the start screen
+gameUI.setLoadReplayCallback((text) => {
+  try {
+    startReplay(deserializeReplay(text));
+    gameUI.setStartStatus('');
+  } catch (error) {
+    console.error('Replay load failed:', error);
+    gameUI.setStartStatus(`Could not load replay: ${(error as Error).message}`);
+  }
+});
+
+seedRun(runSeed);
+applyLevel(currentLevel);
+
 // --- MAIN GAME LOOP ---
-const FIXED_TIMESTEP = 1000 / 60;
 let accumulator = 0;
 let lastTime = performance.now();
+const fpsMonitor = new FpsMonitor();
+
+const updateDebugOverlay = (now: number, frameMs: number) => {
+  const sample = inputManager.getLastSample();
+  const bodies = physicsWorld.getBodyOutlines();
+  hud.update({
+    inputMode: inputManager.state.inputMode,
+    beta: sample?.beta ?? 0,
+    gamma: sample?.gamma ?? 0,
+    sampleAgeMs: sample ? now - sample.timestamp : null,
+    gravity: gravityController.peekGravityVector(),
+    heroVelocity: physicsWorld.getHeroVelocity(),
+    frameMs,
+    step: simulation.getTick(),
+    bodies: bodies.length,
+    movingBodies: bodies.filter(body => !body.isStatic || body.isMover).length
+  });
+  physicsDebugView.update(bodies, goalSystem.getTriggerZones().map(({ goal, radius }) => ({
+    key: goal, position: goal.position, radius
+  })));
+};
 
 debugScene.start(); 
 
 const gameLoop = () => {
   const currentTime = performance.now();
-  const frameTime = Math.min(currentTime - lastTime, 100);
+  const rawFrameTime = currentTime - lastTime;
+  const frameTime = Math.min(rawFrameTime, 100);
+  const droppedFps = fpsMonitor.addFrame(rawFrameTime);
+  if (droppedFps !== null) {
+    telemetry?.track('FPS_DROP', { fps: Math.round(droppedFps), graphics: settingsStore.get().graphicsQuality });
+  }
   lastTime = currentTime;
-  accumulator += frameTime;
+
+  // 0. Input without events (gamepad polling, keyboard ramp)
+  inputManager.update(frameTime / 1000);
   
-  // 1. Physics (Fixed)
+  // 1. Simulation (Fixed)
+  // While paused, drop the accumulated time entirely: otherwise the backlog
+  // is replayed on resume and the ball visibly jumps.
+  if (gameState.isPaused() || (activeReplay && !activeReplay.isPlaying())) {
+    accumulator = 0;
+  } else {
+    accumulator += frameTime * (activeReplay ? activeReplay.getSpeed() : 1);
+  }
+
   while (accumulator >= FIXED_TIMESTEP) {
-    const gravityVec = gravityController.getGravityVector();
-    physicsWorld.update(FIXED_TIMESTEP, gravityVec);
+    if (activeReplay) {
+      if (activeReplay.isFinished()) {
+        accumulator = 0;
+        break;
+      }
+      stepSimulation(activeReplay.getGravityVector(), true);
+      activeReplay.advance();
+    } else {
+      // The recorder hands back the quantized vector so live play matches playback exactly
+      const isPlaying = gameState.getState() === GameState.PLAYING;
+      const gravityVec = isPlaying
+        ? replayRecorder.record(gravityController.getGravityVector())
+        : gravityController.getGravityVector();
+      const collected = stepSimulation(gravityVec, true);
+      if (isPlaying) trackGhostStep(collected);
+    }
     accumulator -= FIXED_TIMESTEP;
   }
   
-  physicsWorld.syncVisuals();
-  
   // 2. Effects (Variable)
   const dtSeconds = frameTime / 1000;
   const heroMesh = debugScene.getHeroSphere();
   
   particleSystem.update(dtSeconds, heroMesh.position);
+  hazardSystem.animate(dtSeconds);
   screenShake.update(dtSeconds); // Apply camera shake
   
-  // 3. Gameplay Logic
+  // 3. HUD
   if (gameState.getState() === GameState.PLAYING) {
-    gameState.update(dtSeconds);
-    
-    // Check Goals
-    const collectedIndex = goalSystem.update(
-      dtSeconds,
-      heroMesh.position,
-      debugScene.getScene()
-    );
-    
-    if (collectedIndex !== null) {
-      // GOAL COLLECTED EVENT
-      
-      // Spawn effects at Hero/Goal Position
-      particleSystem.createBurst(heroMesh.position);
-      screenShake.shake(0.2, 0.3);
-      soundManager.playGoalCollect();
-      
-      // Calculate Score for Popup
-      const scoreGained = 100 + Math.floor(gameState.getTimeRemaining() * 2);
-      
-      // Show Popup (Now using the fixed getCamera method)
-      gameUI.showScorePopup(scoreGained, heroMesh.position, debugScene.getCamera());
-      
-      gameState.onGoalCollected();
-    }
-    
-    // Sync HUD
     gameUI.updateTimer(gameState.getTimeRemaining());
     gameUI.updateScore(gameState.getScore());
+    const scoring = gameState.getScoring();
+    gameUI.updateCombo(
+      scoring.getCombo(),
+      scoring.getMultiplier(),
+      scoring.getComboTimeLeft() / scoring.getComboWindow()
+    );
     const p = gameState.getProgress();
     gameUI.updateProgress(p.collected, p.required);
   }
+
+  if (calibratingFrom) updateCalibration(currentTime / 1000);
+
+  if (activeReplay) {
+    replayControls.update(activeReplay.getFrame(), activeReplay.isPlaying(), activeReplay.getSpeed());
+  }
+
+  if (inputManager.state.debugMode) updateDebugOverlay(currentTime, rawFrameTime);
   
   requestAnimationFrame(gameLoop);
 };
 
-gameLoop();
\ No newline at end of file
+gameLoop();
@@ -0,0 +1,97 @@
+import { RunMode } from '../core/Leaderboard';
+import { LeaderboardRequestError, LeaderboardService, RemoteScore, RunSubmission } from './LeaderboardService';
+
+/**
+ * HttpLeaderboardService
+ * Responsibility: LeaderboardService over a small JSON HTTP API:
+ * - POST {base}/runs                                   -> { rank }
+ * - GET  {base}/scores?level=&mode=&limit=             -> { scores }
+ * - GET  {base}/scores/around?level=&mode=&name=&range= -> { scores }
+ *
+ * `mode` is omitted to query every mode. Network failures reject; non-2xx responses
+ * reject with a LeaderboardRequestError carrying the status. The server is untrusted
+ * (any URL can be passed in via ?leaderboard=), so malformed scores are dropped.
+ */
+export class HttpLeaderboardService implements LeaderboardService {
+  private baseUrl: string;
+  private fetchFn: typeof fetch;
+  private readonly TIMEOUT_MS = 8000;
+
+  constructor(baseUrl: string, fetchFn: typeof fetch = (...args) => fetch(...args)) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.fetchFn = fetchFn;
+  }
+
+  public async submitRun(run: RunSubmission): Promise<{ rank: number }> {
+    const body = await this.request<{ rank: number }>('/runs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(run)
+    });
+    if (!isNumber(body.rank)) throw new Error('Leaderboard server returned no rank');
+    return { rank: body.rank };
+  }
+
+  public async fetchTop(levelId: string, mode: RunMode | null, limit: number = 10): Promise<RemoteScore[]> {
+    const query = this.query({ level: levelId, mode, limit: String(limit) });
+    return this.parseScores(await this.request<{ scores?: unknown }>(`/scores?${query}`));
+  }
+
+  public async fetchAroundMe(levelId: string, mode: RunMode | null, name: string, range: number = 2): Promise<RemoteScore[]> {
+    const query = this.query({ level: levelId, mode, name, range: String(range) });
+    return this.parseScores(await this.request<{ scores?: unknown }>(`/scores/around?${query}`));
+  }
+
+  private parseScores(body: { scores?: unknown }): RemoteScore[] {
+    if (body.scores === undefined) return [];
+    if (!Array.isArray(body.scores)) throw new Error('Leaderboard server returned no score list');
+    const scores = body.scores.map(parseScore).filter((score): score is RemoteScore => score !== null);
+    if (scores.length < body.scores.length) {
+      console.warn(`⚠️ Leaderboard: ignored ${body.scores.length - scores.length} malformed score(s)`);
+    }
+    return scores;
+  }
+
+  private query(params: Record<string, string | null>): string {
+    const search = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== null) search.set(key, value);
+    });
+    return search.toString();
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await this.fetchFn(`${this.baseUrl}${path}`, {
+      ...init,
+      signal: AbortSignal.timeout(this.TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new LeaderboardRequestError(`Leaderboard request failed: ${response.status} ${response.statusText}`, response.status);
+    }
+    return await response.json() as T;
+  }
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function parseScore(value: unknown): RemoteScore | null {
+  const e = value as Record<string, unknown>;
+  if (typeof e?.name !== 'string' || typeof e.levelId !== 'string'
+    || (e.mode !== 'quick' && e.mode !== 'campaign')
+    || !isNumber(e.score) || !isNumber(e.time) || !isNumber(e.seed) || !isNumber(e.date) || !isNumber(e.rank)) {
+    return null;
+  }
+  return {
+    name: e.name.trim() || 'Player',
+    levelId: e.levelId,
+    mode: e.mode,
+    score: e.score,
+    time: e.time,
+    won: e.won === true,
+    seed: e.seed >>> 0,
+    date: e.date,
+    rank: Math.floor(e.rank)
+  };
+}
@@ -0,0 +1,45 @@
+import { LeaderboardEntry, RunMode } from '../core/Leaderboard';
+
+/** A run sent to an online leaderboard. The replay lets the server verify or show it. */
+export interface RunSubmission extends LeaderboardEntry {
+  replay?: string; // serializeReplay() output
+}
+
+/** A run as ranked by the server */
+export interface RemoteScore extends LeaderboardEntry {
+  rank: number; // 1-based
+}
+
+/**
+ * The server answered, but not with success. `status` is the HTTP status code.
+ */
+export class LeaderboardRequestError extends Error {
+  public status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'LeaderboardRequestError';
+    this.status = status;
+  }
+
+  /** 4xx: the request itself is wrong (malformed run, body too large), so resending can't help */
+  public isPermanent(): boolean {
+    return this.status >= 400 && this.status < 500 && this.status !== 408 && this.status !== 429;
+  }
+}
+
+/**
+ * Where runs are submitted and rankings fetched. The game only talks to this
+ * interface, so the backend (HTTP, mock, none) can be swapped freely.
+ */
+export interface LeaderboardService {
+  /**
+   * Resolves with the run's rank; rejects if the submission did not reach the server,
+   * or with a LeaderboardRequestError if the server refused it
+   */
+  submitRun(run: RunSubmission): Promise<{ rank: number }>;
+  /** Highest scores first */
+  fetchTop(levelId: string, mode: RunMode | null, limit?: number): Promise<RemoteScore[]>;
+  /** The player's best run with `range` runs either side of it (empty if they have none) */
+  fetchAroundMe(levelId: string, mode: RunMode | null, name: string, range?: number): Promise<RemoteScore[]>;
+}
@@ -0,0 +1,144 @@
+import { KeyValueStorage, getDefaultStorage } from '../core/Storage';
+import { LeaderboardRequestError, LeaderboardService, RunSubmission } from './LeaderboardService';
+
+/**
+ * SubmissionQueue
+ * Responsibility: Gets runs to an online leaderboard despite flaky or missing networks.
+ * Each submission is retried with exponential backoff; if it still fails it is kept in
+ * a persistent queue and sent (oldest first) by the next flush(), e.g. when the
+ * browser comes back online or on the next launch. Runs the server rejects outright
+ * (4xx) are dropped instead, so one bad run can't block everything behind it.
+ */
+export class SubmissionQueue {
+  private readonly STORAGE_KEY = 'kinetic-tilt-pending-runs';
+  private readonly MAX_ATTEMPTS = 3;
+  private readonly RETRY_DELAY_MS = 1000; // Doubles after each failed attempt
+  private readonly MAX_PENDING = 50;      // Oldest runs are dropped beyond this
+
+  private service: LeaderboardService;
+  private storage: KeyValueStorage;
+  private wait: (ms: number) => Promise<void>;
+  private pending: RunSubmission[] = [];
+  private flushing: Promise<number> | null = null;
+
+  constructor(
+    service: LeaderboardService,
+    storage: KeyValueStorage = getDefaultStorage(),
+    wait: (ms: number) => Promise<void> = (ms) => new Promise(resolve => setTimeout(resolve, ms))
+  ) {
+    this.service = service;
+    this.storage = storage;
+    this.wait = wait;
+    this.load();
+  }
+
+  /**
+   * Submits a run (after anything still queued, to keep the order).
+   * @returns The run's rank, or null if it was queued for later
+   */
+  public async submit(run: RunSubmission): Promise<number | null> {
+    if (this.pending.length > 0 || this.flushing) {
+      this.enqueue(run);
+      await this.flush();
+      return null;
+    }
+
+    try {
+      return (await this.sendWithRetry(run)).rank;
+    } catch (error) {
+      if (isRejection(error)) {
+        console.warn('📡 Run rejected by the leaderboard, dropped:', error);
+        return null;
+      }
+      console.warn('📡 Run submission failed, queued for later:', error);
+      this.enqueue(run);
+      return null;
+    }
+  }
+
+  /**
+   * Sends queued runs oldest first, stopping at the first one that still fails
+   * (rejected runs are dropped and the flush carries on).
+   * Concurrent calls share one flush.
+   * @returns How many runs were sent
+   */
+  public flush(): Promise<number> {
+    if (!this.flushing) {
+      this.flushing = this.sendPending().finally(() => { this.flushing = null; });
+    }
+    return this.flushing;
+  }
+
+  public getPendingCount(): number {
+    return this.pending.length;
+  }
+
+  private async sendPending(): Promise<number> {
+    let sent = 0;
+    while (this.pending.length > 0) {
+      try {
+        await this.sendWithRetry(this.pending[0]);
+        sent++;
+      } catch (error) {
+        if (!isRejection(error)) {
+          console.warn(`📡 Leaderboard still unreachable, ${this.pending.length} run(s) queued:`, error);
+          break;
+        }
+        console.warn('📡 Queued run rejected by the leaderboard, dropped:', error);
+      }
+      this.pending.shift();
+      this.save();
+    }
+    if (sent > 0) console.log(`📡 Sent ${sent} queued run(s)`);
+    return sent;
+  }
+
+  private async sendWithRetry(run: RunSubmission): Promise<{ rank: number }> {
+    let delay = this.RETRY_DELAY_MS;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.service.submitRun(run);
+      } catch (error) {
+        if (attempt >= this.MAX_ATTEMPTS || isRejection(error)) throw error;
+        await this.wait(delay);
+        delay *= 2;
+      }
+    }
+  }
+
+  private enqueue(run: RunSubmission): void {
+    this.pending.push(run);
+    if (this.pending.length > this.MAX_PENDING) this.pending.shift();
+    this.save();
+  }
+
+  private load(): void {
+    const saved = this.storage.getItem(this.STORAGE_KEY);
+    if (!saved) return;
+    try {
+      const parsed = JSON.parse(saved);
+      this.pending = Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Corrupt submission queue, discarding:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage.setItem(this.STORAGE_KEY, JSON.stringify(this.pending));
+    } catch (error) {
+      // Replays can be large: drop them rather than lose the queue
+      console.warn('Could not save submission queue, retrying without replays:', error);
+      try {
+        this.storage.setItem(this.STORAGE_KEY, JSON.stringify(this.pending.map(({ replay: _replay, ...run }) => run)));
+      } catch {
+        // Storage is full; the queue survives in memory until the page closes
+      }
+    }
+  }
+}
+
+/** The server refused the run for good (network errors and 5xx are worth retrying) */
+function isRejection(error: unknown): boolean {
+  return error instanceof LeaderboardRequestError && error.isPermanent();
+}
@@ -0,0 +1,104 @@
+/**
+ * Ghost racer data: a compact position trace of a winning run plus its ring split times.
+ * Positions are sampled every `sampleInterval` fixed steps and rounded to centimetres;
+ * playback interpolates between samples.
+ */
+export interface GhostRun {
+  version: number;
+  levelId: string;
+  seed: number;
+  score: number;
+  finishStep: number;     // Fixed steps from start to the winning ring
+  sampleInterval: number; // Fixed steps between position samples
+  positions: number[];    // Interleaved [x0, z0, x1, z1, ...] in world units
+  splits: number[];       // Fixed step at which each ring was collected
+  savedAt: number;        // Epoch ms
+}
+
+export const GHOST_VERSION = 1;
+
+/**
+ * GhostRecorder
+ * Responsibility: Samples the hero's position on every live fixed step of a run.
+ */
+export class GhostRecorder {
+  private readonly SAMPLE_INTERVAL = 4; // 15 Hz at 60 steps/sec
+
+  private recording = false;
+  private step = 0;
+  private positions: number[] = [];
+  private splits: number[] = [];
+
+  public start(): void {
+    this.recording = true;
+    this.step = 0;
+    this.positions = [];
+    this.splits = [];
+  }
+
+  /**
+   * Call once per fixed step, after physics, with the hero's world position.
+   */
+  public recordStep(x: number, z: number): void {
+    if (!this.recording) return;
+    if (this.step % this.SAMPLE_INTERVAL === 0) {
+      this.positions.push(Math.round(x * 100) / 100, Math.round(z * 100) / 100);
+    }
+    this.step++;
+  }
+
+  /** Marks a ring collection on the current step; returns the ring's index */
+  public markSplit(): number {
+    this.splits.push(this.step);
+    return this.splits.length - 1;
+  }
+
+  /**
+   * Ends the recording. Returns a ghost for winning runs only.
+   */
+  public finish(won: boolean, levelId: string, seed: number, score: number): GhostRun | null {
+    if (!this.recording) return null;
+    this.recording = false;
+    if (!won) return null;
+
+    return {
+      version: GHOST_VERSION,
+      levelId,
+      seed,
+      score,
+      finishStep: this.step,
+      sampleInterval: this.SAMPLE_INTERVAL,
+      positions: this.positions,
+      splits: this.splits,
+      savedAt: Date.now()
+    };
+  }
+
+  public cancel(): void {
+    this.recording = false;
+  }
+
+  /** Fixed steps elapsed in the current run */
+  public getStep(): number {
+    return this.step;
+  }
+}
+
+/**
+ * Ghost position at a given fixed step (linear interpolation between samples).
+ * Holds the final position once the ghost has finished.
+ */
+export function sampleGhostPosition(ghost: GhostRun, step: number): { x: number, z: number } {
+  const sampleCount = ghost.positions.length / 2;
+  if (sampleCount === 0) return { x: 0, z: 0 };
+
+  const exact = Math.max(0, step / ghost.sampleInterval);
+  const i = Math.min(Math.floor(exact), sampleCount - 1);
+  const j = Math.min(i + 1, sampleCount - 1);
+  const t = Math.min(exact - i, 1);
+
+  return {
+    x: ghost.positions[i * 2] + (ghost.positions[j * 2] - ghost.positions[i * 2]) * t,
+    z: ghost.positions[i * 2 + 1] + (ghost.positions[j * 2 + 1] - ghost.positions[i * 2 + 1]) * t
+  };
+}
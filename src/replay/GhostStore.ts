@@ -0,0 +1,77 @@
+import { GHOST_VERSION, GhostRun } from './Ghost';
+import { KeyValueStorage, getDefaultStorage } from '../core/Storage';
+
+/**
+ * GhostStore
+ * Responsibility: Persists the fastest winning run per level + seed.
+ * Only a handful of ghosts are kept (most recently improved first) to stay well
+ * inside storage quotas.
+ */
+export class GhostStore {
+  private readonly STORAGE_KEY = 'kinetic-tilt-ghosts';
+  private readonly MAX_GHOSTS = 20;
+
+  private storage: KeyValueStorage;
+  private ghosts: Record<string, GhostRun> = {};
+
+  constructor(storage: KeyValueStorage = getDefaultStorage()) {
+    this.storage = storage;
+    this.load();
+  }
+
+  public get(levelId: string, seed: number): GhostRun | null {
+    return this.ghosts[this.key(levelId, seed)] ?? null;
+  }
+
+  /**
+   * Stores the run if it finished faster than the current ghost.
+   * @returns true when the run became the new ghost
+   */
+  public saveIfFaster(run: GhostRun): boolean {
+    const key = this.key(run.levelId, run.seed);
+    const existing = this.ghosts[key];
+    if (existing && existing.finishStep <= run.finishStep) return false;
+
+    this.ghosts[key] = run;
+    this.prune();
+    this.save();
+    console.log(`👻 New Ghost: ${run.levelId} / seed ${run.seed} in ${run.finishStep} steps`);
+    return true;
+  }
+
+  private key(levelId: string, seed: number): string {
+    return `${levelId}/${seed}`;
+  }
+
+  private prune(): void {
+    const entries = Object.entries(this.ghosts);
+    if (entries.length <= this.MAX_GHOSTS) return;
+
+    entries.sort(([, a], [, b]) => b.savedAt - a.savedAt);
+    this.ghosts = Object.fromEntries(entries.slice(0, this.MAX_GHOSTS));
+  }
+
+  private load(): void {
+    const saved = this.storage.getItem(this.STORAGE_KEY);
+    if (!saved) return;
+    try {
+      const parsed = JSON.parse(saved) as Record<string, GhostRun>;
+      // Drop ghosts written by an incompatible format
+      this.ghosts = Object.fromEntries(
+        Object.entries(parsed).filter(([, ghost]) => ghost.version === GHOST_VERSION)
+      );
+    } catch (error) {
+      console.error('Corrupt ghost data, discarding:', error);
+      this.ghosts = {};
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage.setItem(this.STORAGE_KEY, JSON.stringify(this.ghosts));
+    } catch (error) {
+      // Quota exceeded: ghosts are a nice-to-have, never break the game over them
+      console.warn('Could not save ghost:', error);
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { GameSimulation } from '../core/GameSimulation';
+import { DEFAULT_PHYSICS_TUNING, PhysicsTuning } from '../core/PhysicsWorld';
+
+/**
+ * Replay file format.
+ *
+ * A replay is everything needed to re-run a session through the fixed-timestep loop:
+ * the level, the RNG seed, and the gravity vector fed to PhysicsWorld on every step.
+ * Gravity is stored as interleaved float32 pairs [x0, z0, x1, z1, ...] (Y is always 0),
+ * packed little-endian and base64-encoded inside a small JSON envelope.
+ */
+export interface ReplayData {
+  version: number;
+  levelId: string;
+  seed: number;
+  startTime: number;     // Epoch ms when the run started
+  timestep: number;      // Fixed step (ms) the run was simulated with
+  gravity: Float32Array; // 2 floats (x, z) per fixed step
+  tuning?: PhysicsTuning; // Debug-overlay physics tuning of the run (absent: the defaults)
+}
+
+export const REPLAY_VERSION = 1;
+
+export function getFrameCount(replay: ReplayData): number {
+  return replay.gravity.length / 2;
+}
+
+export function serializeReplay(replay: ReplayData): string {
+  return JSON.stringify({
+    version: replay.version,
+    levelId: replay.levelId,
+    seed: replay.seed,
+    startTime: replay.startTime,
+    timestep: replay.timestep,
+    frames: getFrameCount(replay),
+    gravity: encodeFloats(replay.gravity),
+    tuning: replay.tuning
+  });
+}
+
+/**
+ * Parses a serialized replay. Throws on malformed or incompatible files.
+ */
+export function deserializeReplay(text: string): ReplayData {
+  const raw = JSON.parse(text);
+
+  if (raw?.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${raw?.version}`);
+  }
+  if (typeof raw.levelId !== 'string' || typeof raw.seed !== 'number' || typeof raw.gravity !== 'string') {
+    throw new Error('Replay is missing levelId, seed or gravity data');
+  }
+
+  // Playback always steps at FIXED_TIMESTEP, so a run recorded at another step would diverge
+  const timestep = typeof raw.timestep === 'number' ? raw.timestep : GameSimulation.FIXED_TIMESTEP;
+  if (timestep !== GameSimulation.FIXED_TIMESTEP) {
+    throw new Error(`Replay was recorded at a ${timestep}ms step, this game runs at ${GameSimulation.FIXED_TIMESTEP}ms`);
+  }
+
+  const gravity = decodeFloats(raw.gravity);
+  if (typeof raw.frames === 'number' && raw.frames * 2 !== gravity.length) {
+    throw new Error(`Replay is truncated: expected ${raw.frames} frames, got ${gravity.length / 2}`);
+  }
+
+  return {
+    version: raw.version,
+    levelId: raw.levelId,
+    seed: raw.seed >>> 0,
+    startTime: typeof raw.startTime === 'number' ? raw.startTime : 0,
+    timestep,
+    gravity,
+    tuning: raw.tuning !== undefined ? parseTuning(raw.tuning) : undefined
+  };
+}
+
+function parseTuning(raw: unknown): PhysicsTuning {
+  const tuning = { ...DEFAULT_PHYSICS_TUNING };
+  (Object.keys(tuning) as Array<keyof PhysicsTuning>).forEach(key => {
+    const value = (raw as Partial<Record<keyof PhysicsTuning, unknown>> | null)?.[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`Replay physics tuning is missing ${key}`);
+    }
+    tuning[key] = value;
+  });
+  return tuning;
+}
+
+function encodeFloats(values: Float32Array): string {
+  const view = new DataView(new ArrayBuffer(values.length * 4));
+  values.forEach((v, i) => view.setFloat32(i * 4, v, true));
+
+  let binary = '';
+  const bytes = new Uint8Array(view.buffer);
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function decodeFloats(encoded: string): Float32Array {
+  const binary = atob(encoded);
+  if (binary.length % 8 !== 0) throw new Error('Replay gravity data is corrupt');
+
+  const view = new DataView(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) view.setUint8(i, binary.charCodeAt(i));
+
+  const values = new Float32Array(binary.length / 4);
+  for (let i = 0; i < values.length; i++) values[i] = view.getFloat32(i * 4, true);
+  return values;
+}
@@ -0,0 +1,57 @@
+import { GravitySource, GravityVector } from '../core/types';
+import { ReplayData, getFrameCount } from './ReplayFormat';
+
+/**
+ * ReplayPlayer
+ * Responsibility: Stands in for GravityController during playback, serving the
+ * recorded gravity vector for the current fixed step.
+ *
+ * The player only tracks the cursor and transport state (play/pause/speed); the
+ * main loop owns the simulation and calls advance() after each step it runs.
+ */
+export class ReplayPlayer implements GravitySource {
+  private replay: ReplayData;
+  private frame = 0;
+  private playing = true;
+  private speed = 1;
+  private vector: GravityVector = { x: 0, y: 0, z: 0 };
+
+  constructor(replay: ReplayData) {
+    this.replay = replay;
+  }
+
+  /** Gravity for the current step (does not advance) */
+  public getGravityVector(): GravityVector {
+    const i = Math.min(this.frame, getFrameCount(this.replay) - 1) * 2;
+    this.vector.x = this.replay.gravity[i] ?? 0;
+    this.vector.z = this.replay.gravity[i + 1] ?? 0;
+    return this.vector;
+  }
+
+  public advance(): void {
+    if (!this.isFinished()) this.frame++;
+  }
+
+  /** Back to step 0; the caller must reset the world before stepping again */
+  public rewind(): void {
+    this.frame = 0;
+  }
+
+  public isFinished(): boolean {
+    return this.frame >= getFrameCount(this.replay);
+  }
+
+  // --- Transport ---
+  public play(): void { this.playing = true; }
+  public pause(): void { this.playing = false; }
+  public togglePlay(): void { this.playing = !this.playing; }
+  public isPlaying(): boolean { return this.playing && !this.isFinished(); }
+
+  public setSpeed(speed: number): void { this.speed = speed; }
+  public getSpeed(): number { return this.speed; }
+
+  // --- Getters ---
+  public getReplay(): ReplayData { return this.replay; }
+  public getFrame(): number { return this.frame; }
+  public getFrameCount(): number { return getFrameCount(this.replay); }
+}
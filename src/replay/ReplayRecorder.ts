@@ -0,0 +1,76 @@
+import { GravityVector } from '../core/types';
+import { REPLAY_VERSION, ReplayData } from './ReplayFormat';
+import { PhysicsTuning } from '../core/PhysicsWorld';
+
+/**
+ * ReplayRecorder
+ * Responsibility: Captures the gravity vector of every fixed physics step of a run.
+ *
+ * Vectors are quantized to float32 on capture and the quantized copy is what the live
+ * simulation must use, so playback of the stored data reproduces the run bit-for-bit.
+ */
+export class ReplayRecorder {
+  private recording = false;
+  private frames: number[] = [];
+  private levelId = '';
+  private seed = 0;
+  private startTime = 0;
+  private timestep = 1000 / 60;
+  private tuning: PhysicsTuning | undefined;
+
+  // Reused output vector (avoids allocating every step)
+  private quantized: GravityVector = { x: 0, y: 0, z: 0 };
+
+  /**
+   * @param tuning - Physics tuning the run uses, if not the defaults (playback applies it)
+   */
+  public start(levelId: string, seed: number, timestep: number, tuning?: PhysicsTuning): void {
+    this.recording = true;
+    this.frames = [];
+    this.levelId = levelId;
+    this.seed = seed;
+    this.timestep = timestep;
+    this.tuning = tuning ? { ...tuning } : undefined;
+    this.startTime = Date.now();
+  }
+
+  /**
+   * Stores one step and returns the float32-quantized vector to feed into physics.
+   * When not recording, the input is returned untouched.
+   */
+  public record(gravity: GravityVector): GravityVector {
+    if (!this.recording) return gravity;
+
+    this.quantized.x = Math.fround(gravity.x);
+    this.quantized.y = 0;
+    this.quantized.z = Math.fround(gravity.z);
+    this.frames.push(this.quantized.x, this.quantized.z);
+    return this.quantized;
+  }
+
+  /**
+   * Ends the recording and returns it (null if nothing was being recorded).
+   */
+  public stop(): ReplayData | null {
+    if (!this.recording) return null;
+    this.recording = false;
+
+    const replay: ReplayData = {
+      version: REPLAY_VERSION,
+      levelId: this.levelId,
+      seed: this.seed,
+      startTime: this.startTime,
+      timestep: this.timestep,
+      gravity: new Float32Array(this.frames),
+      tuning: this.tuning
+    };
+    this.frames = [];
+
+    console.log(`📼 Replay Captured: ${replay.gravity.length / 2} steps`);
+    return replay;
+  }
+
+  public isRecording(): boolean {
+    return this.recording;
+  }
+}
@@ -12,8 +12,13 @@ export class DebugScene {
   
   // Objects
   private heroSphere: THREE.Mesh;
+  private ghostSphere: THREE.Mesh;
+  private plainHeroMaterial: THREE.MeshStandardMaterial;
+  private stripedHeroMaterial: THREE.MeshStandardMaterial;
   private gravityArrow: THREE.ArrowHelper;
+  private grid: THREE.GridHelper;
   private animationId: number = 0;
+  private maxPixelRatio = 2;
 
   constructor(canvas: HTMLCanvasElement, gravityController: GravityController) {
     this.canvas = canvas;
@@ -39,17 +44,32 @@ export class DebugScene {
     const dirLight = new THREE.DirectionalLight(0xffffff, 0.8);
     dirLight.position.set(5, 10, 5);
     this.scene.add(dirLight);
-    this.scene.add(new THREE.GridHelper(20, 20, 0x444444, 0x888888));
+    this.grid = new THREE.GridHelper(20, 20, 0x444444, 0x888888);
+    this.scene.add(this.grid);
 
-    // HERO SPHERE
+    // HERO SPHERE (striped by default so rolling reads clearly)
     const geometry = new THREE.SphereGeometry(0.5, 32, 32);
-    const material = new THREE.MeshStandardMaterial({ 
+    this.plainHeroMaterial = new THREE.MeshStandardMaterial({ 
       color: 0x4488ff, metalness: 0.6, roughness: 0.3 
     });
-    this.heroSphere = new THREE.Mesh(geometry, material);
+    this.stripedHeroMaterial = new THREE.MeshStandardMaterial({
+      map: this.createStripeTexture(), metalness: 0.3, roughness: 0.4
+    });
+    this.heroSphere = new THREE.Mesh(geometry, this.stripedHeroMaterial);
     this.heroSphere.position.set(0, 0.5, 0);
     this.scene.add(this.heroSphere);
 
+    // GHOST SPHERE (visual only: never added to PhysicsWorld or GoalSystem)
+    this.ghostSphere = new THREE.Mesh(
+      geometry,
+      new THREE.MeshStandardMaterial({
+        color: 0xaaddff, emissive: 0x224466,
+        transparent: true, opacity: 0.35, depthWrite: false
+      })
+    );
+    this.ghostSphere.visible = false;
+    this.scene.add(this.ghostSphere);
+
     // GRAVITY ARROW
     this.gravityArrow = new THREE.ArrowHelper(
       new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0.5, 0), 1, 0x00ff00
@@ -60,6 +80,30 @@ export class DebugScene {
     this.setupResizeHandler();
   }
 
+  /**
+   * Beach-ball texture: alternating meridian segments plus an equator band,
+   * so rotation about any horizontal axis is visible.
+   */
+  private createStripeTexture(): THREE.CanvasTexture {
+    const canvas = document.createElement('canvas');
+    canvas.width = 256;
+    canvas.height = 128;
+    const ctx = canvas.getContext('2d')!;
+
+    const segments = 6;
+    const segmentWidth = canvas.width / segments;
+    for (let i = 0; i < segments; i++) {
+      ctx.fillStyle = i % 2 === 0 ? '#4488ff' : '#e8f0ff';
+      ctx.fillRect(i * segmentWidth, 0, segmentWidth, canvas.height);
+    }
+    ctx.fillStyle = '#ffaa00';
+    ctx.fillRect(0, canvas.height / 2 - 6, canvas.width, 12);
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return texture;
+  }
+
   private setupResizeHandler(): void {
     const onResize = () => {
       const width = window.innerWidth;
@@ -69,8 +113,8 @@ export class DebugScene {
       this.camera.updateProjectionMatrix();
       
       this.renderer.setSize(width, height);
-      // Cap Pixel Ratio to 2 to save battery
-      this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+      // Cap Pixel Ratio (2 at most) to save battery
+      this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, this.maxPixelRatio));
     };
 
     window.addEventListener('resize', onResize);
@@ -79,10 +123,41 @@ export class DebugScene {
 
   // --- PUBLIC INTERFACE ---
 
+  /**
+   * Caps the render resolution (graphics quality); 1 renders at CSS pixel size.
+   */
+  public setMaxPixelRatio(ratio: number): void {
+    this.maxPixelRatio = ratio;
+    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, ratio));
+  }
+
   public getHeroSphere(): THREE.Mesh {
     return this.heroSphere;
   }
+
+  /**
+   * Switches between the striped hero (rolling visible) and the original plain one.
+   */
+  public setHeroStriped(striped: boolean): void {
+    this.heroSphere.material = striped ? this.stripedHeroMaterial : this.plainHeroMaterial;
+  }
+
+  /**
+   * Puts the hero mesh back at a position with its original (upright) orientation.
+   */
+  public resetHero(x: number, z: number): void {
+    this.heroSphere.position.set(x, 0.5, z);
+    this.heroSphere.quaternion.identity();
+  }
   
+  public setGhostVisible(visible: boolean): void {
+    this.ghostSphere.visible = visible;
+  }
+
+  public setGhostPosition(x: number, z: number): void {
+    this.ghostSphere.position.set(x, 0.5, z);
+  }
+
   public getScene(): THREE.Scene {
     return this.scene;
   }
@@ -92,6 +167,22 @@ export class DebugScene {
     return this.camera;
   }
   
+  /**
+   * Rebuilds the floor grid for a level's arena (1 cell = 1 world unit).
+   */
+  public setArenaSize(width: number, depth: number): void {
+    const size = Math.max(width, depth);
+    this.scene.remove(this.grid);
+    this.grid.dispose();
+    this.grid = new THREE.GridHelper(size, size, 0x444444, 0x888888);
+    this.scene.add(this.grid);
+
+    // Pull the camera back for larger arenas so the whole board stays in view
+    const distance = 15 * Math.max(1, size / 20);
+    this.camera.position.set(0, distance, distance);
+    this.camera.lookAt(0, 0, 0);
+  }
+
   public start(): void {
     if (!this.animationId) this.animate();
   }
@@ -0,0 +1,120 @@
+import * as THREE from 'three';
+import { BodyOutline } from '../core/PhysicsWorld';
+import { CollisionDetector } from '../core/CollisionDetector';
+
+/** A ring's trigger area, keyed by the ring object so its marker follows it */
+export interface TriggerZone {
+  key: object;
+  position: THREE.Vector3;
+  radius: number;
+}
+
+/**
+ * PhysicsDebugView
+ * Responsibility: Draws what the simulation sees on top of the scene: every Matter body
+ * outline (walls, obstacles, movers, hazard sensors, the hero) and each ring's trigger
+ * zone. Visual only; it reads state and never feeds anything back.
+ */
+export class PhysicsDebugView {
+  private readonly OUTLINE_HEIGHT = 0.03; // Just above the floor grid
+  private readonly COLORS = {
+    hero: new THREE.Color(0x44ff88),
+    sensor: new THREE.Color(0xffdd00),
+    mover: new THREE.Color(0xff66cc),
+    static: new THREE.Color(0x00ccff)
+  };
+
+  private scene: THREE.Scene;
+  private collisionDetector: CollisionDetector;
+  private outlines: THREE.LineSegments;
+  private capacity = 0; // Line segments the geometry can hold
+  private zoneMeshes = new Map<object, THREE.Mesh>();
+  private visible = false;
+
+  constructor(scene: THREE.Scene, collisionDetector: CollisionDetector) {
+    this.scene = scene;
+    this.collisionDetector = collisionDetector;
+
+    this.outlines = new THREE.LineSegments(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ vertexColors: true, depthTest: false, transparent: true })
+    );
+    this.outlines.renderOrder = 999;
+    this.outlines.frustumCulled = false; // Bounds change every frame
+    this.outlines.visible = false;
+    this.scene.add(this.outlines);
+  }
+
+  public setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.outlines.visible = visible;
+    if (!visible) this.updateZones([]); // Rebuilt from the live rings when shown again
+  }
+
+  public update(bodies: BodyOutline[], zones: TriggerZone[]): void {
+    if (!this.visible) return;
+    this.updateOutlines(bodies);
+    this.updateZones(zones);
+  }
+
+  private updateOutlines(bodies: BodyOutline[]): void {
+    // 1. CAPACITY: one segment per polygon edge (grown, never shrunk)
+    const segments = bodies.reduce((total, body) => total + body.points.length, 0);
+    const geometry = this.outlines.geometry;
+    if (segments === 0 && this.capacity === 0) return;
+    if (segments > this.capacity) {
+      this.capacity = Math.max(segments, this.capacity * 2);
+      geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(this.capacity * 6), 3));
+      geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(this.capacity * 6), 3));
+    }
+
+    // 2. EDGES
+    const positions = geometry.getAttribute('position') as THREE.BufferAttribute;
+    const colors = geometry.getAttribute('color') as THREE.BufferAttribute;
+    let vertex = 0;
+    bodies.forEach(body => {
+      const color = body.label === 'Hero' ? this.COLORS.hero
+        : body.isMover ? this.COLORS.mover
+        : body.isSensor ? this.COLORS.sensor
+        : this.COLORS.static;
+      body.points.forEach((point, i) => {
+        const next = body.points[(i + 1) % body.points.length];
+        positions.setXYZ(vertex, point.x, this.OUTLINE_HEIGHT, point.z);
+        positions.setXYZ(vertex + 1, next.x, this.OUTLINE_HEIGHT, next.z);
+        colors.setXYZ(vertex, color.r, color.g, color.b);
+        colors.setXYZ(vertex + 1, color.r, color.g, color.b);
+        vertex += 2;
+      });
+    });
+
+    geometry.setDrawRange(0, vertex);
+    positions.needsUpdate = true;
+    colors.needsUpdate = true;
+  }
+
+  private updateZones(zones: TriggerZone[]): void {
+    const live = new Set<object>();
+    zones.forEach(zone => {
+      live.add(zone.key);
+      let mesh = this.zoneMeshes.get(zone.key);
+      if (!mesh) {
+        mesh = this.collisionDetector.getDebugVisual(zone.position, zone.radius);
+        (mesh.material as THREE.Material).depthTest = false;
+        mesh.renderOrder = 999;
+        this.zoneMeshes.set(zone.key, mesh);
+        this.scene.add(mesh);
+      }
+      mesh.position.x = zone.position.x; // Moving rings carry their zone along
+      mesh.position.z = zone.position.z;
+    });
+
+    // Collected or cleared rings
+    this.zoneMeshes.forEach((mesh, key) => {
+      if (live.has(key)) return;
+      this.scene.remove(mesh);
+      mesh.geometry.dispose();
+      (mesh.material as THREE.Material).dispose();
+      this.zoneMeshes.delete(key);
+    });
+  }
+}
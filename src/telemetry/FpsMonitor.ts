@@ -0,0 +1,41 @@
+/**
+ * FpsMonitor
+ * Responsibility: Spots sustained frame-rate drops worth reporting. Frames are averaged over
+ * WINDOW_MS so a single hitch doesn't count, and after a report it stays quiet for
+ * COOLDOWN_MS so a slow device doesn't flood the telemetry queue.
+ */
+export class FpsMonitor {
+  private readonly WINDOW_MS = 2000;
+  private readonly DROP_FPS = 30;
+  private readonly COOLDOWN_MS = 30000;
+  private readonly MAX_FRAME_MS = 1000; // Longer gaps are a hidden tab, not a slow frame
+
+  private frames = 0;
+  private elapsed = 0;
+  private cooldown = 0;
+
+  /**
+   * @param frameMs - Unclamped time since the previous frame
+   * @returns The window's average FPS when it dropped below DROP_FPS, otherwise null
+   */
+  public addFrame(frameMs: number): number | null {
+    if (frameMs > this.MAX_FRAME_MS) {
+      this.frames = 0;
+      this.elapsed = 0;
+      return null;
+    }
+
+    this.cooldown = Math.max(0, this.cooldown - frameMs);
+    this.frames++;
+    this.elapsed += frameMs;
+    if (this.elapsed < this.WINDOW_MS) return null;
+
+    const fps = (this.frames * 1000) / this.elapsed;
+    this.frames = 0;
+    this.elapsed = 0;
+    if (fps >= this.DROP_FPS || this.cooldown > 0) return null;
+
+    this.cooldown = this.COOLDOWN_MS;
+    return fps;
+  }
+}
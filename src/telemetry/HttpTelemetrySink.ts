@@ -0,0 +1,49 @@
+import { TelemetryEvent } from '../core/types';
+import { TelemetrySink } from './TelemetrySink';
+
+/**
+ * HttpTelemetrySink
+ * Responsibility: POSTs batches as `{ events: [...] }` JSON to a configurable endpoint.
+ * While the page unloads navigator.sendBeacon is used (it survives the page closing);
+ * otherwise fetch with keepalive, where a non-2xx response or network error means "retry later".
+ */
+export class HttpTelemetrySink implements TelemetrySink {
+  private endpoint: string;
+  private fetchFn: typeof fetch;
+  private beaconFn: ((url: string, data: BodyInit) => boolean) | null;
+  private readonly TIMEOUT_MS = 8000;
+
+  constructor(
+    endpoint: string,
+    fetchFn: typeof fetch = (...args) => fetch(...args),
+    beaconFn: ((url: string, data: BodyInit) => boolean) | null =
+      typeof navigator !== 'undefined' && navigator.sendBeacon ? (url, data) => navigator.sendBeacon(url, data) : null
+  ) {
+    this.endpoint = endpoint;
+    this.fetchFn = fetchFn;
+    this.beaconFn = beaconFn;
+  }
+
+  public async send(events: TelemetryEvent[], unloading: boolean): Promise<boolean> {
+    const body = JSON.stringify({ events });
+
+    // sendBeacon only queues the request: true means the browser took it, not that it arrived
+    if (unloading && this.beaconFn) {
+      return this.beaconFn(this.endpoint, new Blob([body], { type: 'application/json' }));
+    }
+
+    try {
+      const response = await this.fetchFn(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        keepalive: true,
+        signal: AbortSignal.timeout(this.TIMEOUT_MS)
+      });
+      return response.ok;
+    } catch (error) {
+      console.warn('📈 Telemetry endpoint unreachable:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { TelemetryEvent } from '../core/types';
+import { TelemetrySink } from './TelemetrySink';
+
+/**
+ * MemoryTelemetrySink
+ * Responsibility: Test sink for local verification. Keeps every batch it receives (tests
+ * inspect `batches`) and optionally logs them, so `?telemetry=test` shows in the console
+ * exactly what would have been sent.
+ */
+export class MemoryTelemetrySink implements TelemetrySink {
+  public batches: TelemetryEvent[][] = [];
+  private log: boolean;
+  private accept = true;
+
+  constructor(log: boolean = false) {
+    this.log = log;
+  }
+
+  /** false simulates an unreachable endpoint */
+  public setAccepting(accept: boolean): void {
+    this.accept = accept;
+  }
+
+  public getEvents(): TelemetryEvent[] {
+    return this.batches.flat();
+  }
+
+  public async send(events: TelemetryEvent[], unloading: boolean): Promise<boolean> {
+    if (!this.accept) return false;
+    this.batches.push(events);
+    if (this.log) {
+      console.log(`📈 Telemetry batch (${events.length} events${unloading ? ', unloading' : ''}):`, events);
+    }
+    return true;
+  }
+}
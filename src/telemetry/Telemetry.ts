@@ -0,0 +1,143 @@
+import { KeyValueStorage, getDefaultStorage } from '../core/Storage';
+import { TelemetryData, TelemetryEvent, TelemetryEventName } from '../core/types';
+import { TelemetrySink } from './TelemetrySink';
+
+/**
+ * Telemetry
+ * Responsibility: Builds TelemetryEvent records and gets them to a sink in batches.
+ * Events are queued in memory and mirrored to storage, so a closed tab or a failed upload
+ * sends them on the next flush (or the next launch). A batch goes out once BATCH_SIZE events
+ * are waiting, every FLUSH_INTERVAL_MS, and with sendBeacon when the page is hidden.
+ *
+ * Opt-out: nothing is sent until setEnabled() has been called, and disabling drops the queue.
+ */
+export class Telemetry {
+  private readonly STORAGE_KEY = 'kinetic-tilt-telemetry';
+  private readonly BATCH_SIZE = 20;
+  private readonly FLUSH_INTERVAL_MS = 30000;
+  private readonly MAX_QUEUED = 200; // Oldest events are dropped beyond this
+
+  private sink: TelemetrySink;
+  private storage: KeyValueStorage;
+  private sessionId: string;
+  private queue: TelemetryEvent[] = [];
+  private enabled: boolean | null = null; // null: the player's choice isn't known yet
+  private flushing: Promise<number> | null = null;
+  private controller: AbortController | null = null;
+
+  constructor(sink: TelemetrySink, storage: KeyValueStorage = getDefaultStorage()) {
+    this.sink = sink;
+    this.storage = storage;
+    this.sessionId = Telemetry.createSessionId();
+    this.load();
+  }
+
+  /** Records an event (dropped when the player opted out) */
+  public track(event: TelemetryEventName, data?: TelemetryData): void {
+    if (this.enabled === false) return;
+
+    const record: TelemetryEvent = {
+      event,
+      timestamp: Date.now(),
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown',
+      sessionId: this.sessionId
+    };
+    if (data) record.data = data;
+
+    this.queue.push(record);
+    if (this.queue.length > this.MAX_QUEUED) this.queue.shift();
+    this.save();
+    if (this.queue.length >= this.BATCH_SIZE) void this.flush();
+  }
+
+  /** Settings opt-out. Disabling also forgets every queued event. */
+  public setEnabled(enabled: boolean): void {
+    if (enabled === this.enabled) return;
+    this.enabled = enabled;
+    if (!enabled) {
+      this.queue = [];
+      this.storage.removeItem(this.STORAGE_KEY);
+    }
+  }
+
+  /**
+   * Sends queued events oldest first, stopping at the first batch the sink refuses.
+   * While unloading everything goes in one beacon, since later requests may never run.
+   * Concurrent calls share one flush.
+   * @returns How many events were sent
+   */
+  public flush(unloading: boolean = false): Promise<number> {
+    if (!this.flushing) {
+      this.flushing = this.sendQueued(unloading).finally(() => { this.flushing = null; });
+    }
+    return this.flushing;
+  }
+
+  public getPendingCount(): number {
+    return this.queue.length;
+  }
+
+  /** Periodic flushes, plus a beacon when the page is hidden (the last reliable moment on mobile) */
+  public start(): void {
+    if (this.controller) return;
+    this.controller = new AbortController();
+    const { signal } = this.controller;
+
+    const timer = setInterval(() => void this.flush(), this.FLUSH_INTERVAL_MS);
+    signal.addEventListener('abort', () => clearInterval(timer));
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') void this.flush(true);
+    }, { signal });
+    window.addEventListener('pagehide', () => void this.flush(true), { signal });
+  }
+
+  public stop(): void {
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  private async sendQueued(unloading: boolean): Promise<number> {
+    let sent = 0;
+    while (this.enabled === true && this.queue.length > 0) {
+      const batch = this.queue.slice(0, unloading ? this.queue.length : this.BATCH_SIZE);
+      let accepted = false;
+      try {
+        accepted = await this.sink.send(batch, unloading);
+      } catch (error) {
+        console.warn('📈 Telemetry batch failed:', error);
+      }
+      if (!accepted) break;
+
+      // Events tracked during the send stay queued; opting out during it already cleared them
+      if (this.enabled !== true) break;
+      this.queue.splice(0, batch.length);
+      this.save();
+      sent += batch.length;
+    }
+    return sent;
+  }
+
+  private load(): void {
+    const saved = this.storage.getItem(this.STORAGE_KEY);
+    if (!saved) return;
+    try {
+      const parsed = JSON.parse(saved);
+      this.queue = Array.isArray(parsed) ? parsed.slice(-this.MAX_QUEUED) : [];
+    } catch (error) {
+      console.error('Corrupt telemetry queue, discarding:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage.setItem(this.STORAGE_KEY, JSON.stringify(this.queue));
+    } catch {
+      // Storage is full; the queue survives in memory until the page closes
+    }
+  }
+
+  private static createSessionId(): string {
+    if (typeof crypto !== 'undefined' && crypto.randomUUID) return crypto.randomUUID();
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+}
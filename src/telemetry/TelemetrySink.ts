@@ -0,0 +1,10 @@
+import { TelemetryEvent } from '../core/types';
+
+/**
+ * Where telemetry batches go. `unloading` is set when the page is being hidden or closed,
+ * when only a fire-and-forget request (sendBeacon) is likely to make it out.
+ * @returns true once the batch was accepted (it is then dropped from the queue)
+ */
+export interface TelemetrySink {
+  send(events: TelemetryEvent[], unloading: boolean): Promise<boolean>;
+}
@@ -0,0 +1,103 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { GameSimulation, InputScript } from '../core/GameSimulation';
+import { GameState } from '../core/GameStateManager';
+import { SeededRandom } from '../core/Random';
+import { getLevel } from '../levels';
+
+const MAX_TILT = 1.5;
+const TICK_SECONDS = GameSimulation.FIXED_TIMESTEP / 1000;
+const NO_INPUT: InputScript = () => ({ x: 0, y: 0, z: 0 });
+
+const clampTilt = (v: number) => Math.max(-MAX_TILT, Math.min(MAX_TILT, v));
+
+/**
+ * Steers towards the nearest real ring (skipping decoys), braking as it closes in.
+ * Moving rings are led by matching their velocity, estimated from the last tick.
+ */
+const createAutopilot = (): InputScript => {
+  let last: { x: number, z: number } | null = null;
+  return (_tick, simulation) => {
+    const { hero, goals } = simulation.getSnapshot();
+    const real = goals.filter(goal => goal.type !== 'decoy');
+    if (real.length === 0) return { x: 0, y: 0, z: 0 };
+
+    const target = real.reduce((best, goal) =>
+      Math.hypot(goal.x - hero.x, goal.z - hero.z) < Math.hypot(best.x - hero.x, best.z - hero.z) ? goal : best
+    );
+    // A jump means a new ring spawned: no velocity to match yet
+    const moved = last && Math.hypot(target.x - last.x, target.z - last.z) < 0.5;
+    const targetVx = moved ? (target.x - last!.x) / TICK_SECONDS : 0;
+    const targetVz = moved ? (target.z - last!.z) / TICK_SECONDS : 0;
+    last = { x: target.x, z: target.z };
+
+    const desiredVx = (target.x - hero.x) * 2 + targetVx;
+    const desiredVz = (target.z - hero.z) * 2 + targetVz;
+    return { x: clampTilt(desiredVx - hero.vx), y: 0, z: clampTilt(desiredVz - hero.vz) };
+  };
+};
+
+function createSimulation(levelId: string, seed: number): GameSimulation {
+  const simulation = GameSimulation.createHeadless(getLevel(levelId)!);
+  simulation.reset(seed);
+  simulation.start();
+  return simulation;
+}
+
+describe('GameSimulation', () => {
+  it('should end in GAME_OVER when the clock runs out', () => {
+    const simulation = createSimulation('classic', 1);
+    const result = simulation.runToEnd(NO_INPUT);
+
+    expect(result.state).toBe(GameState.GAME_OVER);
+    expect(result.timeRemaining).toBe(0);
+    expect(result.tick).toBeCloseTo(60 * 60, -1);
+  });
+
+  it('should win a level when every ring is collected', () => {
+    const simulation = createSimulation('classic', 42);
+    const result = simulation.runToEnd(createAutopilot());
+
+    expect(result.state).toBe(GameState.WIN);
+    expect(result.goalsCollected).toBe(10);
+    // Every ring is worth at least its 100 base points
+    expect(result.score).toBeGreaterThan(10 * 100);
+  });
+
+  it('should keep the hero inside the arena under maximum tilt', () => {
+    const simulation = createSimulation('classic', 1);
+    const result = simulation.run(600, () => ({ x: MAX_TILT, y: 0, z: MAX_TILT }));
+
+    expect(result.hero.x).toBeLessThan(10);
+    expect(result.hero.z).toBeLessThan(10);
+  });
+
+  it('should not tunnel through interior walls', () => {
+    // Switchback spawns above a wall running along z = 4
+    const simulation = createSimulation('corridor', 1);
+    const result = simulation.run(600, () => ({ x: 0, y: 0, z: -MAX_TILT }));
+
+    expect(result.hero.z).toBeGreaterThan(4);
+  });
+
+  it('should produce identical runs for the same seed and input', () => {
+    const jitter = (seed: number): InputScript => {
+      const input = new SeededRandom(seed);
+      return () => ({ x: input.range(-MAX_TILT, MAX_TILT), y: 0, z: input.range(-MAX_TILT, MAX_TILT) });
+    };
+
+    const a = createSimulation('pillars', 99).run(900, jitter(5));
+    const b = createSimulation('pillars', 99).run(900, jitter(5));
+    expect(b).toEqual(a);
+
+    const other = createSimulation('pillars', 100).run(0, NO_INPUT);
+    expect(other.goals).not.toEqual(createSimulation('pillars', 99).run(0, NO_INPUT).goals);
+  });
+
+  it('should be winnable across seeds (balance check)', () => {
+    for (const seed of [1, 2, 3]) {
+      const result = createSimulation('classic', seed).runToEnd(createAutopilot());
+      expect(result.state, `seed ${seed}`).toBe(GameState.WIN);
+    }
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameStateManager, GameState } from '../core/GameStateManager';
+import { MemoryStorage } from '../core/Storage';
+
+describe('GameStateManager ring types', () => {
+  let gameState: GameStateManager;
+
+  beforeEach(() => {
+    gameState = new GameStateManager(new MemoryStorage());
+    gameState.startGame();
+  });
+
+  it('should add time for a time ring', () => {
+    const outcome = gameState.onGoalCollected('time');
+    expect(outcome.timeChange).toBe(5);
+    expect(gameState.getTimeRemaining()).toBe(65);
+  });
+
+  it('should double the next three rings after a multiplier', () => {
+    gameState.onGoalCollected('multiplier');
+    const doubled = [1, 2, 3, 4].map(() =>
+      gameState.onGoalCollected('standard').breakdown.some(event => event.kind === 'multiplier')
+    );
+
+    expect(doubled).toEqual([true, true, true, false]);
+  });
+
+  it('should score moving rings from a higher base', () => {
+    expect(gameState.onGoalCollected('moving').points).toBe(150 + 120);
+  });
+
+  it('should penalise decoys without counting them', () => {
+    gameState.onGoalCollected('standard');
+    const outcome = gameState.onGoalCollected('decoy');
+
+    expect(outcome.counted).toBe(false);
+    expect(outcome.points).toBe(-50);
+    expect(gameState.getScore()).toBe(220 - 50);
+    expect(gameState.getTimeRemaining()).toBe(57);
+    expect(gameState.getGoalsCollected()).toBe(1);
+    expect(gameState.getState()).toBe(GameState.PLAYING);
+  });
+});
@@ -0,0 +1,49 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { GhostRecorder, sampleGhostPosition } from '../replay/Ghost';
+import { GhostStore } from '../replay/GhostStore';
+import { MemoryStorage } from '../core/Storage';
+
+function recordStraightLine(steps: number) {
+  const recorder = new GhostRecorder();
+  recorder.start();
+  for (let i = 0; i < steps; i++) {
+    recorder.recordStep(i * 0.1, 0);
+    if (i === steps - 1) recorder.markSplit();
+  }
+  return recorder.finish(true, 'classic', 42, 1000)!;
+}
+
+describe('Ghost', () => {
+  it('should only produce a ghost for winning runs', () => {
+    const recorder = new GhostRecorder();
+    recorder.start();
+    recorder.recordStep(0, 0);
+    expect(recorder.finish(false, 'classic', 1, 0)).toBeNull();
+  });
+
+  it('should interpolate between samples and hold the final position', () => {
+    const ghost = recordStraightLine(9); // Samples at steps 0, 4, 8
+    expect(sampleGhostPosition(ghost, 2).x).toBeCloseTo(0.2);
+    expect(sampleGhostPosition(ghost, 6).x).toBeCloseTo(0.6);
+    expect(sampleGhostPosition(ghost, 1000).x).toBeCloseTo(0.8);
+  });
+
+  it('should record the step of each ring split', () => {
+    const ghost = recordStraightLine(30);
+    expect(ghost.splits).toEqual([30]); // Steps elapsed when the ring was taken
+    expect(ghost.finishStep).toBe(30);
+  });
+
+  it('should keep only the fastest run per level and seed', () => {
+    const storage = new MemoryStorage();
+    const store = new GhostStore(storage);
+    expect(store.saveIfFaster(recordStraightLine(100))).toBe(true);
+    expect(store.saveIfFaster(recordStraightLine(120))).toBe(false);
+    expect(store.saveIfFaster(recordStraightLine(80))).toBe(true);
+
+    // Persisted across instances
+    expect(new GhostStore(storage).get('classic', 42)?.finishStep).toBe(80);
+    expect(new GhostStore(storage).get('classic', 43)).toBeNull();
+  });
+});
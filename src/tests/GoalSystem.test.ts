@@ -0,0 +1,57 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { GoalSystem } from '../core/GoalSystem';
+import { CollisionDetector } from '../core/CollisionDetector';
+import { SeededRandom } from '../core/Random';
+import { SpawnPolicy } from '../core/SpawnPolicy';
+
+const STEP = 1 / 60;
+
+describe('GoalSystem near misses', () => {
+  it('should pay a decoy near miss only once, however often the hero circles it', () => {
+    const scene = new THREE.Scene();
+    const goals = new GoalSystem(scene, new CollisionDetector(), new SeededRandom(3));
+    // Turn the first ring into a still decoy at a known spot
+    const decoy = goals.getGoals()[0];
+    decoy.type = 'decoy';
+    decoy.motion = null;
+    decoy.position.set(0, 0.5, 0);
+    goals.getGoals().splice(1);
+
+    let nearMisses = 0;
+    for (let pass = 0; pass < 4; pass++) {
+      // In to 1.0 (near, not touching), then back out to 3.0
+      [3, 1, 1, 3].forEach(x => {
+        const update = goals.update(STEP, new THREE.Vector3(x, 0.5, 0), scene);
+        expect(update.collected).toBeNull();
+        if (update.nearMiss) nearMisses++;
+      });
+    }
+    expect(nearMisses).toBe(1);
+  });
+});
+
+describe('GoalSystem moving rings', () => {
+  it('should keep the whole path of a moving ring clear of solid geometry', () => {
+    const scene = new THREE.Scene();
+    const goals = new GoalSystem(scene, new CollisionDetector(), new SeededRandom(1));
+    // Everything right of x = 2 is a solid block
+    goals.setSpawnPolicy(new SpawnPolicy({ minHeroDistance: 0, difficultyCurve: false }, 10, (x, _z, clearance) => x + clearance > 2));
+    const hero = new THREE.Vector3(-10, 0.5, -10); // Out of reach of every ring
+
+    let moving = 0;
+    for (let seed = 1; seed <= 80; seed++) {
+      goals.setRandom(new SeededRandom(seed));
+      goals.reset(scene, hero);
+      const ring = goals.getGoals().find(goal => goal.type === 'moving');
+      if (!ring) continue;
+      moving++;
+      for (let t = 0; t < 8; t += 0.1) {
+        goals.update(0.1, hero, scene);
+        expect(ring.position.x + 0.8).toBeLessThanOrEqual(2 + 1e-9);
+      }
+    }
+    expect(moving).toBeGreaterThan(5);
+  });
+});
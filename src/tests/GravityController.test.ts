@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { GravityController } from '../core/GravityController';
+import { TiltCalibrator } from '../core/TiltCalibrator';
 
 describe('GravityController', () => {
   let controller: GravityController;
@@ -36,6 +37,47 @@ describe('GravityController', () => {
     expect(v.x).toBeCloseTo(9.8, 0.1);
   });
 
+  it('should flip inverted axes and respect a custom max tilt', () => {
+    controller.setInvertAxes(true, true);
+    controller.update(20, 20);
+    const inverted = controller.getGravityVector().clone();
+    expect(inverted.x).toBeLessThan(0);
+    expect(inverted.z).toBeGreaterThan(0);
+
+    controller.setInvertAxes(false, false);
+    controller.setMaxTiltAngle(20);
+    controller.update(0, 20);
+    const full = controller.getGravityVector().x;
+    controller.update(0, 40);
+    expect(controller.getGravityVector().x).toBe(full); // Already at full gravity
+  });
+
+  it('should treat the calibrated neutral angle as level', () => {
+    controller.setNeutral(30, -10);
+    controller.update(30, -10);
+    let v = controller.getGravityVector();
+    expect(v.x).toBe(0);
+    expect(v.z).toBe(0);
+
+    // Offset is applied before the deadzone: 1 degree past neutral is still level
+    controller.update(31, -9);
+    v = controller.getGravityVector();
+    expect(v.x).toBe(0);
+    expect(v.z).toBe(0);
+  });
+
+  it('should measure tilt from the neutral angle', () => {
+    controller.update(20, 0);
+    const fromFlat = controller.getGravityVector().z;
+
+    controller.setNeutral(30, 0);
+    controller.update(50, 0); // 20 degrees past neutral
+    expect(controller.getGravityVector().z).toBeCloseTo(fromFlat, 5);
+
+    controller.update(10, 0); // 20 degrees before neutral
+    expect(controller.getGravityVector().z).toBeCloseTo(-fromFlat, 5);
+  });
+
   it('should handle gimbal lock zone safely', () => {
     // FIX 2 Verification
     // Input 89 degrees (unsafe zone), should be clamped to 80
@@ -45,4 +87,35 @@ describe('GravityController', () => {
     const v = controller.getGravityVector();
     expect(v.z).toBeCloseTo(-9.8, 0.1); 
   });
-});
\ No newline at end of file
+});
+describe('TiltCalibrator', () => {
+  let calibrator: TiltCalibrator;
+
+  beforeEach(() => {
+    calibrator = new TiltCalibrator();
+    calibrator.start();
+  });
+
+  it('should average a steady hold into the neutral angle', () => {
+    expect(calibrator.addSample(29, 1, 0)).toBe('sampling');
+    expect(calibrator.addSample(31, -1, 1)).toBe('sampling');
+    expect(calibrator.getProgress()).toBeCloseTo(0.5);
+    expect(calibrator.getNeutral()).toBeNull();
+
+    expect(calibrator.addSample(30, 0, 2)).toBe('done');
+    const neutral = calibrator.getNeutral()!;
+    expect(neutral.beta).toBeCloseTo(30);
+    expect(neutral.gamma).toBeCloseTo(0);
+  });
+
+  it('should start over when the device moves', () => {
+    calibrator.addSample(30, 0, 0);
+    calibrator.addSample(30, 0, 1.5);
+    expect(calibrator.addSample(50, 0, 1.6)).toBe('moved');
+    expect(calibrator.getProgress()).toBe(0);
+
+    expect(calibrator.addSample(50, 0, 3)).toBe('sampling'); // Only 1.4s steady at the new angle
+    expect(calibrator.addSample(50, 0, 3.6)).toBe('done');
+    expect(calibrator.getNeutral()!.beta).toBeCloseTo(50);
+  });
+});
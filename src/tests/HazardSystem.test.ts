@@ -0,0 +1,79 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { GameSimulation } from '../core/GameSimulation';
+import { GameState } from '../core/GameStateManager';
+import { parseLevel } from '../core/LevelLoader';
+
+/** Open 20x20 arena with a single hazard */
+function createSimulation(hazard: object, spawn = { x: 0, z: 0 }): GameSimulation {
+  const level = parseLevel({
+    id: 'hazard-test',
+    arena: { width: 20, depth: 20 },
+    spawn,
+    timeLimit: 60,
+    hazards: [hazard]
+  });
+  const simulation = GameSimulation.createHeadless(level);
+  simulation.reset(1);
+  simulation.start();
+  return simulation;
+}
+
+const push = (x: number, z: number) => () => ({ x, y: 0, z });
+
+describe('HazardSystem', () => {
+  it('should respawn the hero and take time off when it falls into a pit', () => {
+    const simulation = createSimulation({ type: 'pit', x: 4, z: 0, radius: 1.5, penalty: 5 });
+
+    let fell = false;
+    for (let i = 0; i < 120 && !fell; i++) {
+      fell = simulation.step({ x: 1, y: 0, z: 0 }).hazards.some(event => event.type === 'pit');
+    }
+
+    const snapshot = simulation.getSnapshot();
+    expect(fell).toBe(true);
+    expect(snapshot.hero.x).toBe(0);
+    expect(snapshot.hero.z).toBe(0);
+    expect(snapshot.timeRemaining).toBeLessThan(60 - 5);
+    expect(snapshot.state).toBe(GameState.PLAYING);
+  });
+
+  it('should end the run when a pit penalty empties the clock', () => {
+    const simulation = createSimulation({ type: 'pit', x: 4, z: 0, radius: 1.5, penalty: 120 });
+    const result = simulation.run(120, push(1, 0));
+
+    expect(result.state).toBe(GameState.GAME_OVER);
+    expect(result.timeRemaining).toBe(0);
+  });
+
+  it('should launch the hero away from a bumper', () => {
+    const simulation = createSimulation({ type: 'bumper', x: 4, z: 0, radius: 1, strength: 12 });
+
+    let bumped = false;
+    for (let i = 0; i < 120 && !bumped; i++) {
+      bumped = simulation.step({ x: 1, y: 0, z: 0 }).hazards.some(event => event.type === 'bumper');
+    }
+
+    expect(bumped).toBe(true);
+    expect(simulation.getSnapshot().hero.vx).toBeCloseTo(-12, 0);
+  });
+
+  it('should speed the hero up along a boost pad', () => {
+    const plain = createSimulation({ type: 'sticky', x: 8, z: 8, width: 1, depth: 1 }).run(40, push(0, -0.5));
+    const boosted = createSimulation({ type: 'boost', x: 0, z: -2, width: 4, depth: 1, angle: -90 }).run(40, push(0, -0.5));
+
+    expect(boosted.hero.vz).toBeLessThan(plain.hero.vz); // Both roll towards -Z, boosted faster
+  });
+
+  it('should raise air drag only while inside a sticky zone', () => {
+    const simulation = createSimulation({ type: 'sticky', x: 0, z: 0, width: 4, depth: 4, drag: 0.3 });
+    const hero = () => simulation.getPhysicsWorld().getHeroBody()!;
+
+    simulation.run(2, push(0, 0));
+    expect(hero().frictionAir).toBe(0.3);
+
+    simulation.run(240, push(1.5, 0)); // Roll out to the right
+    expect(simulation.getSnapshot().hero.x).toBeGreaterThan(2.5);
+    expect(hero().frictionAir).toBe(0.075);
+  });
+});
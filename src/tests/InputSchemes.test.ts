@@ -0,0 +1,64 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { KeyboardTilt } from '../core/KeyboardTilt';
+import { GamepadTilt } from '../core/GamepadTilt';
+
+const pad = (axes: number[], pressed: number[] = []): Gamepad => ({
+  connected: true,
+  axes,
+  buttons: Array.from({ length: 16 }, (_, i) => ({ pressed: pressed.includes(i), touched: false, value: 0 }))
+}) as unknown as Gamepad;
+
+describe('KeyboardTilt', () => {
+  it('should ramp up while held and ease back after release', () => {
+    const keys = new KeyboardTilt();
+    keys.keyDown('KeyD');
+
+    const nudge = keys.update(0.1).gamma;
+    expect(nudge).toBeGreaterThan(0);
+    expect(nudge).toBeLessThan(45);
+    expect(keys.update(1).gamma).toBe(45);
+
+    keys.keyUp('KeyD');
+    expect(keys.update(0.1).gamma).toBeLessThan(45);
+    expect(keys.update(1).gamma).toBe(0);
+  });
+
+  it('should map up/forward to positive beta and cancel opposite keys', () => {
+    const keys = new KeyboardTilt();
+    keys.keyDown('ArrowUp');
+    keys.keyDown('KeyW'); // Same direction counts once
+    expect(keys.update(1).beta).toBe(45);
+
+    keys.keyDown('ArrowLeft');
+    keys.keyDown('ArrowRight');
+    expect(keys.update(1).gamma).toBe(0);
+    expect(keys.keyDown('KeyQ')).toBe(false);
+  });
+});
+
+describe('GamepadTilt', () => {
+  it('should ignore the stick inside the deadzone and rescale outside it', () => {
+    const gamepad = new GamepadTilt();
+    const resting = gamepad.poll([pad([0.1, -0.05])])!;
+    expect(resting.gamma).toBe(0);
+    expect(resting.beta).toBe(0);
+    expect(resting.active).toBe(false);
+
+    const full = gamepad.poll([pad([0, -1])])!; // Stick up
+    expect(full.beta).toBeCloseTo(45);
+    expect(full.active).toBe(true);
+
+    const justOut = gamepad.poll([pad([0.2, 0])])!;
+    expect(justOut.gamma).toBeGreaterThan(0);
+    expect(justOut.gamma).toBeLessThan(5);
+  });
+
+  it('should report button presses once per press', () => {
+    const gamepad = new GamepadTilt();
+    expect(gamepad.poll([null, pad([0, 0], [9])])!.pausePressed).toBe(true);
+    expect(gamepad.poll([null, pad([0, 0], [9])])!.pausePressed).toBe(false); // Still held
+    expect(gamepad.poll([pad([0, 0], [8])])!.restartPressed).toBe(true);
+    expect(gamepad.poll([null])).toBeNull();
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TiltSample } from '../input/InputSource';
+import { InputCoordinator } from '../input/InputCoordinator';
+import { GyroInputSource } from '../input/GyroInputSource';
+import { KeyboardInputSource } from '../input/KeyboardInputSource';
+import { PointerInputSource } from '../input/PointerInputSource';
+import { ScriptedInputSource } from '../input/ScriptedInputSource';
+import { VirtualJoystick } from '../ui/VirtualJoystick';
+import { DeviceInputManager } from '../core/DeviceInputManager';
+
+// jsdom has no DeviceOrientationEvent, so the angles are attached to a plain Event
+const orientation = (beta: number, gamma: number): Event =>
+  Object.assign(new Event('deviceorientation'), { alpha: 0, beta, gamma });
+
+const key = (type: 'keydown' | 'keyup', code: string): KeyboardEvent =>
+  new KeyboardEvent(type, { code, cancelable: true });
+
+describe('InputSource', () => {
+  let samples: TiltSample[];
+  const collect = (sample: TiltSample) => samples.push(sample);
+
+  beforeEach(() => {
+    samples = [];
+  });
+
+  it('should never attach twice and remove every handler on stop', () => {
+    const gyro = new GyroInputSource();
+    gyro.start(collect);
+    gyro.start(collect);
+    window.dispatchEvent(orientation(10, -5));
+    expect(samples).toHaveLength(1);
+    expect(samples[0]).toMatchObject({ beta: 10, gamma: -5, source: 'tilt', engaged: true });
+    expect(samples[0].timestamp).toBeGreaterThan(0);
+
+    gyro.stop();
+    window.dispatchEvent(orientation(20, 0));
+    expect(samples).toHaveLength(1);
+
+    gyro.start(collect); // Restartable after stop
+    window.dispatchEvent(orientation(20, 0));
+    expect(samples).toHaveLength(2);
+
+    gyro.dispose();
+    window.dispatchEvent(orientation(30, 0));
+    expect(samples).toHaveLength(2);
+    expect(() => gyro.start(collect)).toThrow();
+  });
+
+  it('should only engage an idle gyro once the phone clearly moves', () => {
+    const gyro = new GyroInputSource();
+    gyro.start(collect);
+    gyro.setActive(false);
+    window.dispatchEvent(orientation(5, 5));
+    window.dispatchEvent(orientation(12, 5));
+    window.dispatchEvent(orientation(20, 5));
+    expect(samples.map(s => s.engaged)).toEqual([false, false, true]);
+    gyro.dispose();
+  });
+
+  it('should forget held keys when the keyboard source stops', () => {
+    const keyboard = new KeyboardInputSource();
+    keyboard.start(collect);
+    window.dispatchEvent(key('keydown', 'ArrowRight'));
+    expect(samples.at(-1)?.engaged).toBe(true);
+    keyboard.update(1);
+    expect(samples.at(-1)?.gamma).toBe(45);
+
+    keyboard.stop();
+    window.dispatchEvent(key('keydown', 'ArrowLeft'));
+    keyboard.update(1);
+    keyboard.start(collect);
+    keyboard.update(0);
+    expect(samples.at(-1)).toMatchObject({ beta: 0, gamma: 0, engaged: false });
+    keyboard.dispose();
+  });
+
+  it('should map the joystick knob and let go of it when stopped', () => {
+    const joystick = new VirtualJoystick();
+    const pointer = new PointerInputSource(joystick);
+    pointer.setSensitivity(2);
+    pointer.start(collect);
+
+    const zone = document.getElementById('joystick-zone')!;
+    const event = (type: string, x: number, y: number) =>
+      Object.assign(new Event(type, { cancelable: true }), { pointerId: 1, clientX: x, clientY: y });
+    joystick.setEnabled(true);
+    zone.dispatchEvent(event('pointerdown', 100, 100));
+    zone.dispatchEvent(event('pointermove', 100, 70));
+    expect(samples.at(-1)).toMatchObject({ beta: 45, gamma: 0, source: 'touch' });
+
+    pointer.stop();
+    const count = samples.length;
+    zone.dispatchEvent(event('pointermove', 130, 100));
+    expect(samples).toHaveLength(count);
+    joystick.dispose();
+  });
+
+  it('should interpolate a tilt script and hold its last step', () => {
+    const script = new ScriptedInputSource([
+      { at: 0, beta: 0, gamma: 0 },
+      { at: 1, beta: 20, gamma: -10 }
+    ]);
+    script.start(collect);
+    script.update(0.5);
+    expect(samples.at(-1)).toMatchObject({ beta: 10, gamma: -5, source: 'scripted' });
+    script.update(2);
+    expect(samples.at(-1)).toMatchObject({ beta: 20, gamma: -10 });
+    expect(script.isFinished()).toBe(true);
+    expect(samples.every((s, i) => i === 0 || s.timestamp >= samples[i - 1].timestamp)).toBe(true);
+  });
+});
+
+describe('InputCoordinator', () => {
+  let samples: TiltSample[];
+  let modes: string[];
+  let coordinator: InputCoordinator;
+
+  beforeEach(() => {
+    samples = [];
+    modes = [];
+    coordinator = new InputCoordinator((sample) => samples.push(sample));
+    coordinator.setModeChangeCallback((mode) => modes.push(mode));
+  });
+
+  afterEach(() => {
+    coordinator.dispose();
+  });
+
+  it('should forward the active source and switch only on engaged input', () => {
+    const gyro = new GyroInputSource();
+    const keyboard = new KeyboardInputSource();
+    coordinator.use(gyro);
+    coordinator.use(keyboard);
+
+    keyboard.update(0.1); // Idle keyboard: ignored
+    window.dispatchEvent(orientation(5, 0));
+    expect(samples.map(s => s.source)).toEqual(['tilt']);
+
+    window.dispatchEvent(key('keydown', 'KeyW'));
+    keyboard.update(0.1);
+    expect(coordinator.getActiveMode()).toBe('keyboard');
+    expect(modes).toEqual(['keyboard']);
+
+    window.dispatchEvent(orientation(8, 0)); // Small wobble: the gyro stays idle
+    expect(samples.at(-1)?.source).toBe('keyboard');
+    window.dispatchEvent(orientation(25, 0));
+    expect(coordinator.getActiveMode()).toBe('tilt');
+    expect(coordinator.getLastSample()?.beta).toBe(25);
+    window.dispatchEvent(key('keyup', 'KeyW'));
+  });
+
+  it('should hot-swap sources without leaking the replaced handlers', () => {
+    const first = new GyroInputSource();
+    const second = new GyroInputSource();
+    coordinator.use(first);
+    coordinator.use(first);
+    coordinator.use(second);
+    expect(first.isRunning()).toBe(false);
+
+    window.dispatchEvent(orientation(10, 0));
+    expect(samples).toHaveLength(1);
+
+    const removed = coordinator.remove('tilt');
+    expect(removed).toBe(second);
+    window.dispatchEvent(orientation(12, 0));
+    expect(samples).toHaveLength(1);
+
+    coordinator.use(second);
+    window.dispatchEvent(orientation(14, 0));
+    expect(samples).toHaveLength(2);
+  });
+
+  it('should stop every source on dispose', () => {
+    const keyboard = new KeyboardInputSource();
+    const script = new ScriptedInputSource([{ at: 0, beta: 5, gamma: 5 }]);
+    coordinator.use(keyboard);
+    coordinator.use(script);
+    expect(coordinator.getActiveMode()).toBe('scripted');
+
+    coordinator.dispose();
+    expect(keyboard.isRunning()).toBe(false);
+    expect(script.isRunning()).toBe(false);
+    const count = samples.length;
+    window.dispatchEvent(key('keydown', 'KeyA'));
+    coordinator.update(1);
+    expect(samples).toHaveLength(count);
+  });
+});
+
+describe('DeviceInputManager sensor access', () => {
+  let manager: DeviceInputManager;
+  let asked: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    asked = 0;
+    // iOS-style API: access has to be requested (from a tap)
+    vi.stubGlobal('DeviceOrientationEvent', { requestPermission: async () => { asked++; return 'granted'; } });
+  });
+
+  afterEach(() => {
+    manager.dispose();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should fall back without sensor data and hand back to tilt once readings arrive', async () => {
+    const joystickNeeded: boolean[] = [];
+    manager = new DeviceInputManager(() => {});
+    manager.setJoystickCallback((needed) => joystickNeeded.push(needed));
+
+    vi.advanceTimersByTime(1000); // No tap yet, so no sensor
+    expect(manager.state.usingFallback).toBe(true);
+    expect(manager.state.inputMode).toBe('touch');
+
+    expect(await manager.requestPermission()).toBe(true);
+    expect(await manager.requestPermission()).toBe(true);
+    expect(asked).toBe(1); // Asked once, the answer is shared
+
+    window.dispatchEvent(orientation(3, 2));
+    expect(manager.getLastOrientation()).toMatchObject({ beta: 3, gamma: 2, source: 'tilt' });
+    vi.advanceTimersByTime(1000);
+    expect(manager.state.usingFallback).toBe(false);
+    expect(manager.state.inputMode).toBe('tilt');
+    expect(joystickNeeded).toEqual([true, false]);
+  });
+
+  it('should keep the joystick when access is granted but no readings come', async () => {
+    manager = new DeviceInputManager(() => {});
+    expect(await manager.requestPermission()).toBe(true);
+    vi.advanceTimersByTime(1000);
+    expect(manager.state.usingFallback).toBe(true);
+    expect(manager.getLastOrientation()).toBeNull();
+  });
+});
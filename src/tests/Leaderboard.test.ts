@@ -0,0 +1,71 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Leaderboard, LeaderboardEntry } from '../core/Leaderboard';
+import { MemoryStorage } from '../core/Storage';
+
+type Run = Omit<LeaderboardEntry, 'name'>;
+
+const run = (overrides: Partial<Run>): Run => ({
+  levelId: 'classic', mode: 'quick', score: 1000, time: 40, won: true, seed: 1, date: 1700000000000,
+  ...overrides
+});
+
+describe('Leaderboard', () => {
+  let storage: MemoryStorage;
+  let leaderboard: Leaderboard;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    leaderboard = new Leaderboard(storage);
+  });
+
+  it('should keep the top 10 per mode and level, best score first', () => {
+    for (let i = 0; i < 12; i++) leaderboard.addRun(run({ score: i * 100, date: i }));
+    leaderboard.addRun(run({ mode: 'campaign', score: 50 }));
+
+    const top = leaderboard.getTop('classic', 'quick');
+    expect(top).toHaveLength(10);
+    expect(top[0].score).toBe(1100);
+    expect(top[9].score).toBe(200);
+    expect(leaderboard.getTop('classic', 'campaign').map(entry => entry.score)).toEqual([50]);
+    expect(leaderboard.getTop('classic')).toHaveLength(10); // All modes merged
+  });
+
+  it('should report the rank a run earned', () => {
+    leaderboard.addRun(run({ score: 500 }));
+    expect(leaderboard.addRun(run({ score: 900 }))).toBe(1);
+    expect(leaderboard.addRun(run({ score: 500, time: 30 }))).toBe(2); // Faster wins the tie
+    for (let i = 0; i < 10; i++) leaderboard.addRun(run({ score: 2000 }));
+    expect(leaderboard.addRun(run({ score: 10 }))).toBeNull();
+  });
+
+  it('should keep every run in the history, newest first, with the player name', () => {
+    leaderboard.setPlayerName('  Ada  ');
+    leaderboard.addRun(run({ score: 1, won: false }));
+    leaderboard.addRun(run({ score: 2 }));
+
+    const history = new Leaderboard(storage).getHistory();
+    expect(history.map(entry => entry.score)).toEqual([2, 1]);
+    expect(history[0].name).toBe('Ada');
+  });
+
+  it('should round-trip exports and skip duplicates on import', () => {
+    leaderboard.setPlayerName('Ada');
+    leaderboard.addRun(run({ score: 700 }));
+    const exported = leaderboard.exportJSON();
+
+    const teammate = new Leaderboard(new MemoryStorage());
+    teammate.setPlayerName('Grace');
+    teammate.addRun(run({ score: 800 }));
+
+    expect(teammate.importJSON(exported)).toBe(1);
+    expect(teammate.importJSON(exported)).toBe(0);
+    expect(teammate.getTop('classic', 'quick').map(entry => entry.name)).toEqual(['Grace', 'Ada']);
+  });
+
+  it('should reject files that are not leaderboard exports', () => {
+    expect(() => leaderboard.importJSON('{"version":1}')).toThrow('Not a Kinetic Tilt leaderboard file');
+    const bad = JSON.stringify({ format: 'kinetic-tilt-leaderboard', version: 1, entries: [{ name: 'x' }] });
+    expect(() => leaderboard.importJSON(bad)).toThrow('entries[0] is malformed');
+  });
+});
@@ -0,0 +1,25 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { parseLevel } from '../core/LevelLoader';
+
+const level = (overrides: object) => ({ id: 'test', arena: { width: 20, depth: 20 }, ...overrides });
+
+describe('parseLevel', () => {
+  it('should fill in the optional sections', () => {
+    const parsed = parseLevel(level({}));
+    expect(parsed).toMatchObject({ name: 'test', spawn: { x: 0, z: 0 }, goalsRequired: 10, timeLimit: 60 });
+    expect(parsed.walls).toEqual([]);
+    expect(parsed.ringSpawn).toEqual({ minHeroDistance: 4, difficultyCurve: false });
+  });
+
+  it('should reject malformed sections with a descriptive error', () => {
+    expect(() => parseLevel(level({ walls: { from: { x: 0, z: 0 } } }))).toThrow('Level "test": walls must be an array');
+    expect(() => parseLevel(level({ hazards: 'pit' }))).toThrow('Level "test": hazards must be an array');
+    expect(() => parseLevel(level({ obstacles: [null] }))).toThrow('Level "test": obstacles[0] must be an object');
+    expect(() => parseLevel(level({ movers: [{ type: 'box', x: 0, z: 0, width: 1, depth: 1, door: 3 }] })))
+      .toThrow('Level "test": movers[0].door must be an object');
+    expect(() => parseLevel(level({ walls: [{ from: { x: 0, z: 0 }, to: { x: 'a', z: 0 } }] })))
+      .toThrow('Level "test": walls[0].to.x must be a finite number');
+    expect(() => parseLevel([])).toThrow('Level must be a JSON object');
+  });
+});
@@ -0,0 +1,92 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { PhysicsWorld } from '../core/PhysicsWorld';
+import { Mover } from '../core/Mover';
+import { MoverDefinition } from '../core/types';
+
+const STEP = 1000 / 60;
+const STILL = { x: 0, y: 0, z: 0 };
+
+/** Hero at the origin, a wall (thickness 0.5) sliding along X past it */
+function createSlidingWall(period: number) {
+  const world = new PhysicsWorld();
+  world.addBoundaries(30);
+  world.createHero(0, 0);
+  const wall = world.addMover(new Mover({
+    type: 'box', x: -6, z: 0, width: 0.5, depth: 6,
+    motion: { type: 'sine', dx: 8, dz: 0, period, phase: 0.75 } // Starts at the far left, sweeps right
+  }));
+  return { world, wallX: () => wall.position.x / 10 };
+}
+
+describe('Mover', () => {
+  it('should follow sine, keyframe, spin and door paths', () => {
+    const sine = new Mover({ type: 'circle', x: 1, z: 2, radius: 1, motion: { type: 'sine', dx: 2, dz: 0, period: 4 } });
+    expect(sine.poseAt(1).x).toBeCloseTo(3);
+    expect(sine.poseAt(3).x).toBeCloseTo(-1);
+
+    const keyframes = new Mover({
+      type: 'circle', x: 0, z: 0, radius: 1,
+      motion: { type: 'keyframes', points: [{ x: 0, z: 0 }, { x: 4, z: 0 }], period: 2 }
+    });
+    expect(keyframes.poseAt(0.5).x).toBeCloseTo(2);
+    expect(keyframes.poseAt(1.5).x).toBeCloseTo(2); // On the way back
+    expect(keyframes.poseAt(2).x).toBeCloseTo(0);
+
+    const spinner = new Mover({ type: 'box', x: 0, z: 0, width: 4, depth: 0.5, spin: 90 });
+    expect(spinner.poseAt(2).angle).toBeCloseTo(Math.PI);
+
+    const door: MoverDefinition = {
+      type: 'box', x: 0, z: 0, width: 4, depth: 0.5,
+      door: { opensAfter: 3, dx: 0, dz: 2, duration: 1 }
+    };
+    const mover = new Mover(door);
+    expect(mover.poseAt(5).z).toBe(0);
+    mover.open(5);
+    expect(mover.poseAt(5.5).z).toBeCloseTo(1);
+    expect(mover.poseAt(9).z).toBeCloseTo(2);
+    mover.reset();
+    expect(mover.poseAt(9).z).toBe(0);
+  });
+
+  it('should push the hero ahead of a sliding wall', () => {
+    const { world, wallX } = createSlidingWall(4);
+
+    for (let i = 0; i < 120; i++) {
+      world.update(STEP, STILL);
+      // Never behind (or inside) the wall
+      expect(world.getHeroPosition().x).toBeGreaterThan(wallX() + 0.25 + 0.5 - 0.1);
+    }
+    expect(world.getHeroPosition().x).toBeGreaterThan(1); // Actually carried along
+  });
+
+  it('should not let a very fast wall pass through the hero', () => {
+    // Peak ~200 units/s (3+ units per step): faster than the hero's own speed clamp
+    const { world, wallX } = createSlidingWall(0.25);
+
+    for (let i = 0; i < 15; i++) {
+      world.update(STEP, STILL);
+      expect(world.getHeroPosition().x).toBeGreaterThan(wallX());
+    }
+  });
+
+  it('should open doors once enough rings are collected', () => {
+    const world = new PhysicsWorld();
+    world.createHero(0, 5);
+    const door = world.addMover(new Mover({
+      type: 'box', x: 0, z: 0, width: 4, depth: 0.5,
+      door: { opensAfter: 2, dx: 4, dz: 0, duration: 0.5 }
+    }));
+
+    world.openDoors(1);
+    for (let i = 0; i < 60; i++) world.update(STEP, STILL);
+    expect(door.position.x).toBe(0);
+
+    world.openDoors(2);
+    for (let i = 0; i < 60; i++) world.update(STEP, STILL);
+    expect(door.position.x / 10).toBeCloseTo(4);
+
+    world.resetMovers();
+    expect(door.position.x).toBe(0);
+  });
+});
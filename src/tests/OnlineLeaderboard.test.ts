@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { startMockLeaderboardServer, MockLeaderboardServer } from '../../mock-server/leaderboard.mjs';
+import { HttpLeaderboardService } from '../online/HttpLeaderboardService';
+import { RunSubmission } from '../online/LeaderboardService';
+import { SubmissionQueue } from '../online/SubmissionQueue';
+import { MemoryStorage } from '../core/Storage';
+
+const run = (overrides: Partial<RunSubmission>): RunSubmission => ({
+  name: 'Ada', levelId: 'classic', mode: 'quick', score: 1000, time: 40, won: true, seed: 1, date: 1700000000000,
+  ...overrides
+});
+
+const noWait = () => Promise.resolve();
+
+describe('Online leaderboard', () => {
+  let server: MockLeaderboardServer;
+  let service: HttpLeaderboardService;
+
+  beforeEach(async () => {
+    server = await startMockLeaderboardServer();
+    service = new HttpLeaderboardService(server.url);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should rank submitted runs and list the top scores', async () => {
+    expect(await service.submitRun(run({ score: 500, replay: 'KTR1...' }))).toEqual({ rank: 1 });
+    expect(await service.submitRun(run({ name: 'Grace', score: 900 }))).toEqual({ rank: 1 });
+    await service.submitRun(run({ name: 'Linus', score: 700, mode: 'campaign' }));
+
+    const quick = await service.fetchTop('classic', 'quick');
+    expect(quick.map(score => [score.rank, score.name])).toEqual([[1, 'Grace'], [2, 'Ada']]);
+    expect(quick[1]).not.toHaveProperty('replay');
+    expect(await service.fetchTop('classic', null, 2)).toHaveLength(2);
+    expect(await service.fetchTop('pillars', null)).toEqual([]);
+  });
+
+  it('should fetch the scores around a player', async () => {
+    for (let i = 0; i < 9; i++) await service.submitRun(run({ name: `P${i}`, score: i * 100 }));
+
+    const around = await service.fetchAroundMe('classic', 'quick', 'P4', 2);
+    expect(around.map(score => score.name)).toEqual(['P6', 'P5', 'P4', 'P3', 'P2']);
+    expect(around[2].rank).toBe(5);
+    expect(await service.fetchAroundMe('classic', 'quick', 'Nobody')).toEqual([]);
+  });
+
+  it('should reject failed requests', async () => {
+    server.failNextRequests(1);
+    await expect(service.fetchTop('classic', 'quick')).rejects.toThrow('Leaderboard request failed: 503');
+  });
+
+  it('should drop malformed scores from an untrusted server', async () => {
+    const good = { ...run({ name: '  Ada ' }), rank: 1 };
+    const scores = [good, { ...good, score: '<img src=x onerror=alert(1)>' }, { ...good, time: undefined }, { ...good, mode: 'hacked' }];
+    const hostile = new HttpLeaderboardService('http://evil.test', () => Promise.resolve(new Response(JSON.stringify({ scores }))));
+    expect(await hostile.fetchTop('classic', 'quick')).toEqual([{ ...good, name: 'Ada' }]);
+
+    const notList = new HttpLeaderboardService('http://evil.test', () => Promise.resolve(new Response('{"scores":"<b>"}')));
+    await expect(notList.fetchAroundMe('classic', 'quick', 'Ada')).rejects.toThrow('no score list');
+  });
+
+  it('should retry a submission through a short outage', async () => {
+    const queue = new SubmissionQueue(service, new MemoryStorage(), noWait);
+    server.failNextRequests(2);
+
+    expect(await queue.submit(run({}))).toBe(1);
+    expect(queue.getPendingCount()).toBe(0);
+  });
+
+  it('should queue runs while offline and send them in order later', async () => {
+    const storage = new MemoryStorage();
+    const queue = new SubmissionQueue(service, storage, noWait);
+    server.failNextRequests(3);
+    expect(await queue.submit(run({ score: 100 }))).toBeNull();
+    server.failNextRequests(3);
+    expect(await queue.submit(run({ score: 200 }))).toBeNull();
+    expect(queue.getPendingCount()).toBe(2);
+
+    // The queue survives a reload
+    const reloaded = new SubmissionQueue(service, storage, noWait);
+    expect(reloaded.getPendingCount()).toBe(2);
+    expect(await reloaded.flush()).toBe(2);
+    expect(reloaded.getPendingCount()).toBe(0);
+    expect((await service.fetchTop('classic', 'quick')).map(score => score.score)).toEqual([200, 100]);
+  });
+
+  it('should drop runs the server rejects instead of blocking the queue', async () => {
+    const queue = new SubmissionQueue(service, new MemoryStorage(), noWait);
+    const malformed = run({ score: NaN }); // Sent as null: a 400 "Malformed run"
+
+    expect(await queue.submit(malformed)).toBeNull();
+    expect(queue.getPendingCount()).toBe(0); // Not queued, not retried
+
+    // Queued during an outage, then rejected at the head of the queue
+    server.failNextRequests(3);
+    expect(await queue.submit(malformed)).toBeNull();
+    expect(queue.getPendingCount()).toBe(1);
+    expect(await queue.submit(run({ score: 300 }))).toBeNull();
+    expect(queue.getPendingCount()).toBe(0);
+    expect((await service.fetchTop('classic', 'quick')).map(score => score.score)).toEqual([300]);
+  });
+});
@@ -0,0 +1,31 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { normalizeScreenAngle, remapTilt } from '../core/OrientationRemap';
+
+describe('OrientationRemap', () => {
+  it('should normalize legacy and off-axis angles', () => {
+    expect(normalizeScreenAngle(-90)).toBe(270);
+    expect(normalizeScreenAngle(450)).toBe(90);
+    expect(normalizeScreenAngle(359)).toBe(0);
+    expect(normalizeScreenAngle(180)).toBe(180);
+  });
+
+  it('should leave portrait readings unchanged', () => {
+    expect(remapTilt(20, -10, 0)).toEqual({ beta: 20, gamma: -10 });
+  });
+
+  it('should map the same physical tilt to the same screen tilt in both landscapes', () => {
+    // Screen-right edge down: in landscape-left (90) that is the device's bottom edge
+    // (beta > 0); in landscape-right (270) it is the device's top edge (beta < 0)
+    expect(remapTilt(15, 0, 90).gamma).toBe(15);
+    expect(remapTilt(-15, 0, 270).gamma).toBe(15);
+
+    // Screen-top raised: the device's right edge (90) or left edge (270)
+    expect(remapTilt(0, -15, 90).beta).toBe(15);
+    expect(remapTilt(0, 15, 270).beta).toBe(15);
+  });
+
+  it('should invert both axes upside down', () => {
+    expect(remapTilt(20, -10, 180)).toEqual({ beta: -20, gamma: 10 });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { PhysicsWorld } from '../core/PhysicsWorld';
+
+const STEP = 1000 / 60;
+
+function createWorld() {
+  const world = new PhysicsWorld();
+  const hero = new THREE.Mesh(new THREE.SphereGeometry(0.5, 8, 8));
+  world.addHeroSphere(hero);
+  world.addBoundaries();
+  return { world, hero };
+}
+
+describe('PhysicsWorld rolling', () => {
+  it('should roll the hero forward over the top in the direction of travel', () => {
+    const { world, hero } = createWorld();
+    for (let i = 0; i < 5; i++) {
+      world.update(STEP, { x: 1.5, y: 0, z: 0 });
+      world.syncVisuals();
+    }
+
+    const top = new THREE.Vector3(0, 1, 0).applyQuaternion(hero.quaternion);
+    expect(hero.position.x).toBeGreaterThan(0);
+    expect(top.x).toBeGreaterThan(0); // Top of the ball leads the motion
+    expect(top.z).toBeCloseTo(0, 6);  // No sideways tumble on a straight line
+  });
+
+  it('should turn by distance / radius', () => {
+    const { world, hero } = createWorld();
+    for (let i = 0; i < 5; i++) {
+      world.update(STEP, { x: 0, y: 0, z: -1.5 });
+      world.syncVisuals();
+    }
+
+    const distance = Math.abs(hero.position.z);
+    const angle = 2 * Math.acos(Math.min(1, Math.abs(hero.quaternion.w)));
+    expect(distance).toBeGreaterThan(0.1);
+    expect(distance).toBeLessThan(Math.PI * 0.5); // Keep within a half turn so the angle is unambiguous
+    expect(angle).toBeCloseTo(distance / 0.5, 5);
+  });
+});
+
+describe('PhysicsWorld debug hooks', () => {
+  it('should apply tuning changes to the live hero and engine', () => {
+    const { world } = createWorld();
+    world.setTuning({ heroRestitution: 0.9, gravityScale: 0.002 });
+    world.update(STEP, { x: 1, y: 0, z: 0 });
+    const fast = world.getHeroVelocity().x;
+
+    const { world: baseline } = createWorld();
+    baseline.update(STEP, { x: 1, y: 0, z: 0 });
+    expect(fast).toBeCloseTo(baseline.getHeroVelocity().x * 2, 5);
+    expect(world.getTuning()).toMatchObject({ heroRestitution: 0.9, gravityScale: 0.002, maxHeroSpeed: 15 });
+  });
+
+  it('should outline every body in world units', () => {
+    const { world } = createWorld();
+    const outlines = world.getBodyOutlines();
+    expect(outlines.map(body => body.label)).toEqual(['Hero', 'Wall_Top', 'Wall_Bottom', 'Wall_Left', 'Wall_Right']);
+
+    const hero = outlines[0];
+    expect(hero.isStatic).toBe(false);
+    hero.points.forEach(point => expect(Math.hypot(point.x, point.z)).toBeCloseTo(0.5, 1));
+    expect(Math.max(...outlines[1].points.map(p => p.z))).toBeCloseTo(15); // Half depth 10 + thickness 5
+  });
+});
@@ -0,0 +1,46 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { tiltFromGravity, tiltFromOrientation } from '../core/QuaternionTilt';
+
+describe('QuaternionTilt', () => {
+  it('should read a flat device as level, whatever the heading', () => {
+    for (const alpha of [0, 90, 217]) {
+      const tilt = tiltFromOrientation(alpha, 0, 0);
+      expect(tilt.beta).toBeCloseTo(0, 6);
+      expect(tilt.gamma).toBeCloseTo(0, 6);
+    }
+  });
+
+  it('should match Euler beta/gamma for single-axis tilts', () => {
+    expect(tiltFromOrientation(0, 30, 0).beta).toBeCloseTo(30, 6);
+    expect(tiltFromOrientation(0, -30, 0).beta).toBeCloseTo(-30, 6);
+    expect(tiltFromOrientation(0, 0, 25).gamma).toBeCloseTo(25, 6);
+    expect(tiltFromOrientation(0, 0, -25).gamma).toBeCloseTo(-25, 6);
+  });
+
+  it('should give the same tilt for equivalent Euler triples', () => {
+    // Past upright (beta 100) some browsers report the same pose as beta 80 with alpha/gamma flipped
+    const a = tiltFromOrientation(10, 100, 20);
+    const b = tiltFromOrientation(190, 80, -160);
+    expect(a.beta).toBeCloseTo(b.beta, 6);
+    expect(a.gamma).toBeCloseTo(b.gamma, 6);
+  });
+
+  it('should stay continuous through upright and upside down', () => {
+    let previous = tiltFromOrientation(0, -179, 10);
+    for (let beta = -178; beta <= 179; beta++) {
+      const tilt = tiltFromOrientation(0, beta, 10);
+      expect(Math.abs(tilt.beta - previous.beta)).toBeLessThan(1.5);
+      expect(Math.abs(tilt.gamma - previous.gamma)).toBeLessThan(1.5);
+      expect(Math.abs(tilt.beta)).toBeLessThanOrEqual(90);
+      previous = tilt;
+    }
+  });
+
+  it('should project a raw gravity vector and survive a zero vector', () => {
+    const upright = tiltFromGravity({ x: 0, y: -9.81, z: 0 }); // Held vertically, top up
+    expect(upright.beta).toBeCloseTo(90, 6);
+    expect(upright.gamma).toBeCloseTo(0, 6);
+    expect(tiltFromGravity({ x: 0, y: 0, z: 0 })).toEqual({ beta: 0, gamma: 0 });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRandom } from '../core/Random';
+
+describe('SeededRandom', () => {
+  const take = (random: SeededRandom, n: number) => Array.from({ length: n }, () => random.next());
+
+  it('should produce the same sequence for the same seed', () => {
+    expect(take(new SeededRandom(42), 10)).toEqual(take(new SeededRandom(42), 10));
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    expect(take(new SeededRandom(1), 10)).not.toEqual(take(new SeededRandom(2), 10));
+  });
+
+  it('should stay within [0, 1)', () => {
+    const values = take(new SeededRandom(7), 1000);
+    values.forEach(v => {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    });
+  });
+
+  it('should give independent but reproducible forks', () => {
+    const root = new SeededRandom(99);
+    const goals = take(root.fork('goals'), 5);
+
+    // Draining a sibling stream must not affect the goals stream
+    const noisy = new SeededRandom(99);
+    take(noisy.fork('particles'), 500);
+    expect(take(noisy.fork('goals'), 5)).toEqual(goals);
+
+    expect(take(root.fork('particles'), 5)).not.toEqual(goals);
+  });
+
+  it('should parse numeric and text seeds', () => {
+    expect(SeededRandom.parseSeed('12345')).toBe(12345);
+    expect(SeededRandom.parseSeed('my-run')).toBe(SeededRandom.parseSeed('my-run'));
+    expect(SeededRandom.parseSeed('')).toBeNull();
+    expect(SeededRandom.parseSeed(null)).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { DEFAULT_PHYSICS_TUNING, PhysicsWorld } from '../core/PhysicsWorld';
+import { SeededRandom } from '../core/Random';
+import { ReplayRecorder } from '../replay/ReplayRecorder';
+import { ReplayPlayer } from '../replay/ReplayPlayer';
+import { deserializeReplay, getFrameCount, serializeReplay } from '../replay/ReplayFormat';
+
+const STEP = 1000 / 60;
+
+function createWorld() {
+  const world = new PhysicsWorld();
+  const hero = new THREE.Mesh(new THREE.SphereGeometry(0.5, 8, 8));
+  world.addHeroSphere(hero);
+  world.addBoundaries();
+  return { world, hero };
+}
+
+describe('Replay', () => {
+  it('should round-trip through serialization', () => {
+    const recorder = new ReplayRecorder();
+    recorder.start('classic', 1234, STEP);
+    recorder.record({ x: 0.1, y: 0, z: -0.7 });
+    recorder.record({ x: 1.5, y: 0, z: 1.5 });
+    const replay = recorder.stop()!;
+
+    const restored = deserializeReplay(serializeReplay(replay));
+    expect(restored.levelId).toBe('classic');
+    expect(restored.seed).toBe(1234);
+    expect(getFrameCount(restored)).toBe(2);
+    expect(Array.from(restored.gravity)).toEqual(Array.from(replay.gravity));
+  });
+
+  it('should reject replays from another format version', () => {
+    expect(() => deserializeReplay('{"version": 99}')).toThrow();
+  });
+
+  it('should reject replays recorded at another timestep', () => {
+    const recorder = new ReplayRecorder();
+    recorder.start('classic', 1234, 1000 / 30);
+    recorder.record({ x: 0.1, y: 0, z: -0.7 });
+    expect(() => deserializeReplay(serializeReplay(recorder.stop()!))).toThrow('step');
+  });
+
+  it('should reproduce a recorded run exactly', () => {
+    const { world, hero } = createWorld();
+    const input = new SeededRandom(7);
+    const recorder = new ReplayRecorder();
+
+    // Live run: jittery "tilt" input, including wall impacts
+    world.resetHero(0, 0);
+    recorder.start('classic', 7, STEP);
+    const livePath: number[] = [];
+    for (let i = 0; i < 600; i++) {
+      const raw = { x: input.range(-1.5, 1.5), y: 0, z: input.range(-1.5, 1.5) };
+      world.update(STEP, recorder.record(raw));
+      world.syncVisuals();
+      livePath.push(hero.position.x, hero.position.z);
+    }
+    const replay = deserializeReplay(serializeReplay(recorder.stop()!));
+
+    // Playback on the same world after a reset
+    world.resetHero(0, 0);
+    const player = new ReplayPlayer(replay);
+    const replayPath: number[] = [];
+    while (!player.isFinished()) {
+      world.update(STEP, player.getGravityVector());
+      world.syncVisuals();
+      player.advance();
+      replayPath.push(hero.position.x, hero.position.z);
+    }
+
+    expect(replayPath).toEqual(livePath);
+  });
+
+  it('should carry the physics tuning of a retuned run', () => {
+    const tuned = { ...DEFAULT_PHYSICS_TUNING, heroRestitution: 0.9, gravityScale: 0.002 };
+    const live = createWorld();
+    live.world.setTuning(tuned);
+    const recorder = new ReplayRecorder();
+    recorder.start('classic', 7, STEP, tuned);
+    const livePath: number[] = [];
+    for (let i = 0; i < 300; i++) {
+      live.world.update(STEP, recorder.record({ x: 1.5, y: 0, z: 0.4 })); // Into the wall and back
+      live.world.syncVisuals();
+      livePath.push(live.hero.position.x, live.hero.position.z);
+    }
+    const replay = deserializeReplay(serializeReplay(recorder.stop()!));
+    expect(replay.tuning).toEqual(tuned);
+
+    // A fresh (default) world plays it back once the stored tuning is applied
+    const playback = createWorld();
+    playback.world.setTuning(replay.tuning ?? DEFAULT_PHYSICS_TUNING);
+    const player = new ReplayPlayer(replay);
+    const replayPath: number[] = [];
+    while (!player.isFinished()) {
+      playback.world.update(STEP, player.getGravityVector());
+      playback.world.syncVisuals();
+      player.advance();
+      replayPath.push(playback.hero.position.x, playback.hero.position.z);
+    }
+    expect(replayPath).toEqual(livePath);
+
+    recorder.start('classic', 7, STEP);
+    expect(deserializeReplay(serializeReplay(recorder.stop()!)).tuning).toBeUndefined();
+  });
+});
@@ -0,0 +1,74 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { RunStats, RunStatsCollector, RunStatsSample } from '../core/RunStats';
+import { RunStatsStore } from '../core/RunStatsStore';
+import { GameSimulation } from '../core/GameSimulation';
+import { MemoryStorage } from '../core/Storage';
+import { renderSplitChart } from '../ui/RunStatsView';
+import { getLevel } from '../levels';
+
+const sample = (overrides: Partial<RunStatsSample>): RunStatsSample => ({
+  gravity: { x: 0, y: 0, z: 0 }, heroX: 0, heroZ: 0, speed: 0, wallHits: 0, collected: false,
+  ...overrides
+});
+
+const stats = (overrides: Partial<RunStats>): RunStats => ({
+  levelId: 'classic', won: true, score: 1000, duration: 30, splits: [], distance: 0,
+  topSpeed: 0, wallHits: 0, maxTiltTime: 0, breakdown: {},
+  ...overrides
+});
+
+describe('RunStats', () => {
+  it('should accumulate movement, input, contacts and splits', () => {
+    const collector = new RunStatsCollector(0.5);
+    collector.recordStep(sample({ heroX: 0, speed: 2 }));
+    collector.recordStep(sample({ heroX: 3, heroZ: 4, speed: 6, gravity: { x: 1.5, y: 0, z: 0 }, wallHits: 1 }));
+    collector.breakPath(); // Respawn: the jump back is not rolled distance
+    collector.recordStep(sample({ heroX: 0, heroZ: 0, speed: 1, collected: true }));
+
+    const summary = collector.summarize({
+      levelId: 'classic', won: false, score: 150,
+      scoreEvents: [{ kind: 'ring', points: 100, time: 1 }, { kind: 'nearMiss', points: 25, time: 1 }, { kind: 'ring', points: 25, time: 2 }]
+    });
+    expect(summary.distance).toBe(5);
+    expect(summary.topSpeed).toBe(6);
+    expect(summary.wallHits).toBe(1);
+    expect(summary.maxTiltTime).toBe(0.5);
+    expect(summary.splits).toEqual([1.5]);
+    expect(summary.duration).toBe(1.5);
+    expect(summary.breakdown).toEqual({ ring: 125, nearMiss: 25 });
+  });
+
+  it('should measure a headless run', () => {
+    const simulation = GameSimulation.createHeadless(getLevel('classic')!);
+    simulation.reset(1);
+    simulation.start();
+    simulation.runToEnd(() => ({ x: 1.5, y: 0, z: 0 })); // Full tilt into the right wall
+
+    const result = simulation.getRunStats();
+    expect(result.won).toBe(false);
+    expect(result.duration).toBeCloseTo(60, 1);
+    expect(result.wallHits).toBeGreaterThanOrEqual(1);
+    expect(result.maxTiltTime).toBeCloseTo(60, 1);
+    expect(result.distance).toBeGreaterThan(5);
+  });
+
+  it('should keep only the best winning run per level', () => {
+    const storage = new MemoryStorage();
+    const store = new RunStatsStore(storage);
+
+    expect(store.saveIfBest(stats({ score: 1000 }))).toBe(true);
+    expect(store.saveIfBest(stats({ score: 900 }))).toBe(false);
+    expect(store.saveIfBest(stats({ score: 5000, won: false }))).toBe(false);
+    expect(store.saveIfBest(stats({ score: 1200 }))).toBe(true);
+
+    expect(new RunStatsStore(storage).getBest('classic')?.score).toBe(1200);
+    expect(store.getBest('pillars')).toBeNull();
+  });
+
+  it('should chart one bar per ring and mark the personal best', () => {
+    const chart = renderSplitChart(stats({ splits: [2, 5, 6] }), stats({ splits: [3, 5, 7] }));
+    expect(chart.match(/<rect/g)).toHaveLength(3);
+    expect(chart.match(/<line/g)).toHaveLength(3);
+  });
+});
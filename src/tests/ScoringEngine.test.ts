@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ScoringEngine } from '../core/ScoringEngine';
+
+describe('ScoringEngine', () => {
+  let scoring: ScoringEngine;
+
+  beforeEach(() => {
+    scoring = new ScoringEngine();
+  });
+
+  it('should score base plus speed bonus for a lone ring', () => {
+    const award = scoring.scoreRing('standard', 30);
+    expect(award.points).toBe(100 + 60);
+    expect(award.events.map(event => event.kind)).toEqual(['ring']);
+  });
+
+  it('should build a combo for rings inside the window and drop it after', () => {
+    scoring.scoreRing('standard', 0);
+    scoring.update(2);
+    const second = scoring.scoreRing('standard', 0);
+
+    expect(scoring.getCombo()).toBe(2);
+    expect(second.points).toBe(125); // x1.25
+    expect(second.events.find(event => event.kind === 'combo')?.points).toBe(25);
+
+    scoring.update(3.5);
+    expect(scoring.getCombo()).toBe(0);
+    const third = scoring.scoreRing('standard', 0);
+    expect(third.events.some(event => event.kind === 'combo')).toBe(false);
+    expect(scoring.getCombo()).toBe(1);
+  });
+
+  it('should cap the combo multiplier', () => {
+    for (let i = 0; i < 10; i++) scoring.scoreRing('standard', 0);
+    expect(scoring.getComboMultiplier()).toBe(2);
+  });
+
+  it('should award the wall-free streak bonus until a wall is hit', () => {
+    const kinds = () => {
+      scoring.update(5); // No combos, to isolate the streak
+      return scoring.scoreRing('standard', 0).events.map(event => event.kind);
+    };
+
+    expect(kinds()).toEqual(['ring']);
+    expect(kinds()).toEqual(['ring']);
+    expect(kinds()).toEqual(['ring', 'wallFree']);
+    scoring.onWallHit();
+    expect(kinds()).toEqual(['ring']);
+  });
+
+  it('should record every award in the breakdown and keep the total in sync', () => {
+    scoring.scoreRing('multiplier', 10);
+    scoring.scoreRing('standard', 10);
+    scoring.scoreNearMiss();
+    scoring.scoreDecoy();
+    scoring.scoreTimeBonus(10);
+
+    const breakdown = scoring.getBreakdown();
+    expect(breakdown.map(event => event.kind)).toEqual(
+      ['ring', 'ring', 'combo', 'multiplier', 'nearMiss', 'decoy', 'timeBonus']
+    );
+    expect(breakdown.reduce((sum, event) => sum + event.points, 0)).toBe(scoring.getTotal());
+  });
+
+  it('should never take the score below zero with a decoy', () => {
+    expect(scoring.scoreDecoy().points).toBe(0);
+    expect(scoring.getTotal()).toBe(0);
+  });
+});
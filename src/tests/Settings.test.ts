@@ -0,0 +1,72 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SETTINGS, GameSettings, SETTINGS_VERSION, SettingsStore } from '../core/Settings';
+import { MemoryStorage } from '../core/Storage';
+
+const STORAGE_KEY = 'kinetic-tilt-settings';
+
+describe('SettingsStore', () => {
+  it('should start from the defaults and persist changes', () => {
+    const storage = new MemoryStorage();
+    const store = new SettingsStore(storage);
+    expect(store.get()).toEqual(DEFAULT_SETTINGS);
+
+    store.update({ maxTiltAngle: 30, invertY: true, graphicsQuality: 'low' });
+    const reloaded = new SettingsStore(storage).get();
+    expect(reloaded.maxTiltAngle).toBe(30);
+    expect(reloaded.invertY).toBe(true);
+    expect(reloaded.graphicsQuality).toBe('low');
+    expect(JSON.parse(storage.getItem(STORAGE_KEY)!).version).toBe(SETTINGS_VERSION);
+  });
+
+  it('should report only the settings that changed', () => {
+    const store = new SettingsStore(new MemoryStorage());
+    const calls: Array<[GameSettings, string[]]> = [];
+    store.setChangeCallback((settings, changed) => calls.push([settings, changed]));
+
+    store.update({ deadzone: 4, muted: false });
+    store.update({ deadzone: 4 });
+    expect(calls).toHaveLength(1);
+    expect(calls[0][1]).toEqual(['deadzone']);
+    expect(calls[0][0].deadzone).toBe(4);
+
+    store.reset();
+    expect(calls[1][1]).toEqual(['deadzone']);
+  });
+
+  it('should clamp out-of-range values and replace invalid ones', () => {
+    const storage = new MemoryStorage();
+    storage.setItem(STORAGE_KEY, JSON.stringify({
+      version: SETTINGS_VERSION,
+      settings: { maxTiltAngle: 500, smoothing: 'fast', leftHanded: 1, graphicsQuality: 'ultra' }
+    }));
+
+    const settings = new SettingsStore(storage).get();
+    expect(settings.maxTiltAngle).toBe(80);
+    expect(settings.smoothing).toBe(DEFAULT_SETTINGS.smoothing);
+    expect(settings.leftHanded).toBe(false);
+    expect(settings.graphicsQuality).toBe('high');
+  });
+
+  it('should migrate the v1 drag sensitivity to the joystick', () => {
+    const storage = new MemoryStorage();
+    storage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, settings: { dragSensitivity: 0.45, invertX: true } }));
+
+    const settings = new SettingsStore(storage).get();
+    expect(settings.joystickSensitivity).toBeCloseTo(1.5);
+    expect(settings.invertX).toBe(true);
+    expect(settings.steering).toBe('tilt');
+    const saved = JSON.parse(storage.getItem(STORAGE_KEY)!);
+    expect(saved.version).toBe(SETTINGS_VERSION);
+    expect(saved.settings.dragSensitivity).toBeUndefined();
+  });
+
+  it('should fall back to defaults on corrupt saves and keep known settings from newer ones', () => {
+    const storage = new MemoryStorage();
+    storage.setItem(STORAGE_KEY, '{not json');
+    expect(new SettingsStore(storage).get()).toEqual(DEFAULT_SETTINGS);
+
+    storage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION + 1, settings: { invertX: true, hapticStrength: 3 } }));
+    expect(new SettingsStore(storage).get().invertX).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { SpawnPolicy, SpawnContext } from '../core/SpawnPolicy';
+import { PhysicsWorld } from '../core/PhysicsWorld';
+import { SeededRandom } from '../core/Random';
+import { Point2D } from '../core/types';
+
+const ARENA: SpawnContext = { arenaWidth: 20, arenaDepth: 20, hero: { x: 0, z: 0 } };
+const RULES = { minHeroDistance: 4, difficultyCurve: false };
+
+const distance = (a: Point2D, b: Point2D) => Math.hypot(a.x - b.x, a.z - b.z);
+
+describe('SpawnPolicy', () => {
+  it('should keep rings away from the hero', () => {
+    const random = new SeededRandom(1);
+    const policy = new SpawnPolicy(RULES);
+
+    for (let i = 0; i < 200; i++) {
+      const hero = { x: random.range(-7, 7), z: random.range(-7, 7) };
+      expect(distance(policy.pick(random, { ...ARENA, hero }), hero)).toBeGreaterThanOrEqual(4);
+    }
+  });
+
+  it('should never place rings inside static bodies', () => {
+    const physicsWorld = new PhysicsWorld();
+    physicsWorld.addBoundaries(20, 20);
+    physicsWorld.addStaticCircle(3, 3, 2.5);
+    physicsWorld.addStaticBox(-3, 0, 2, 12);
+    const policy = new SpawnPolicy(RULES, 10, (x, z, clearance) => physicsWorld.isAreaBlocked(x, z, clearance));
+    const random = new SeededRandom(2);
+
+    for (let i = 0; i < 200; i++) {
+      const ring = policy.pick(random, ARENA);
+      expect(distance(ring, { x: 3, z: 3 }), `ring ${i}`).toBeGreaterThan(2.5);
+      expect(Math.abs(ring.x + 3) > 1 || Math.abs(ring.z) > 6, `ring ${i}`).toBe(true);
+    }
+  });
+
+  it('should spread successive rings apart', () => {
+    const random = new SeededRandom(3);
+    const policy = new SpawnPolicy(RULES);
+    const rings: Point2D[] = [];
+
+    for (let i = 0; i < 50; i++) {
+      const ring = policy.pick(random, ARENA);
+      rings.slice(-3).forEach(previous => expect(distance(ring, previous)).toBeGreaterThanOrEqual(4));
+      policy.record(ring);
+      rings.push(ring);
+    }
+  });
+
+  it('should push rings further out along the difficulty curve', () => {
+    const random = new SeededRandom(4);
+    const policy = new SpawnPolicy({ minHeroDistance: 3, difficultyCurve: true }, 5);
+    const hero = { x: -6, z: -6 }; // Corner, so far spots exist
+
+    expect(policy.getMinHeroDistance()).toBe(3);
+    for (let i = 0; i < 5; i++) {
+      const ring = policy.pick(random, { ...ARENA, hero });
+      expect(distance(ring, hero)).toBeGreaterThanOrEqual(policy.getMinHeroDistance());
+      policy.record(ring);
+    }
+    expect(policy.getMinHeroDistance()).toBe(7);
+
+    policy.reset();
+    expect(policy.getMinHeroDistance()).toBe(3);
+  });
+
+  it('should still spawn when the rules cannot all be met', () => {
+    // 8x8 arena leaves a 2x2 spawn square: nothing is 4 units from a hero at its centre
+    const policy = new SpawnPolicy(RULES, 10, (x) => x < 0);
+    const ring = policy.pick(new SeededRandom(5), { arenaWidth: 8, arenaDepth: 8, hero: { x: 0, z: 0 } });
+
+    expect(ring.x).toBeGreaterThanOrEqual(0);
+    expect(Math.abs(ring.z)).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,106 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { Telemetry } from '../telemetry/Telemetry';
+import { MemoryTelemetrySink } from '../telemetry/MemoryTelemetrySink';
+import { HttpTelemetrySink } from '../telemetry/HttpTelemetrySink';
+import { FpsMonitor } from '../telemetry/FpsMonitor';
+import { MemoryStorage } from '../core/Storage';
+
+const STORAGE_KEY = 'kinetic-tilt-telemetry';
+
+describe('Telemetry', () => {
+  it('should build records and send them in batches once enabled', async () => {
+    const sink = new MemoryTelemetrySink();
+    const telemetry = new Telemetry(sink, new MemoryStorage());
+
+    telemetry.track('FALLBACK_TRIGGERED');
+    expect(await telemetry.flush()).toBe(0); // Consent not known yet
+    telemetry.setEnabled(true);
+    for (let i = 0; i < 24; i++) telemetry.track('GOAL_COLLECTED', { type: 'standard', points: 100 });
+
+    await telemetry.flush();
+    expect(sink.batches.map(batch => batch.length)).toEqual([20, 5]);
+    const [first, second] = sink.getEvents();
+    expect(first).toMatchObject({ event: 'FALLBACK_TRIGGERED' });
+    expect(first.data).toBeUndefined();
+    expect(second).toMatchObject({ event: 'GOAL_COLLECTED', data: { type: 'standard', points: 100 } });
+    expect(second.sessionId).toBe(first.sessionId);
+    expect(typeof second.timestamp).toBe('number');
+    expect(telemetry.getPendingCount()).toBe(0);
+  });
+
+  it('should keep unsent events in storage for the next session', async () => {
+    const storage = new MemoryStorage();
+    const offline = new MemoryTelemetrySink();
+    offline.setAccepting(false);
+    const telemetry = new Telemetry(offline, storage);
+    telemetry.setEnabled(true);
+    telemetry.track('RUN_START', { level: 'arena', seed: 7 });
+    telemetry.track('RUN_END', { outcome: 'win' });
+    expect(await telemetry.flush()).toBe(0);
+    expect(telemetry.getPendingCount()).toBe(2);
+
+    const sink = new MemoryTelemetrySink();
+    const nextSession = new Telemetry(sink, storage);
+    nextSession.setEnabled(true);
+    expect(await nextSession.flush(true)).toBe(2);
+    expect(sink.getEvents().map(e => e.event)).toEqual(['RUN_START', 'RUN_END']);
+    expect(JSON.parse(storage.getItem(STORAGE_KEY)!)).toEqual([]);
+  });
+
+  it('should drop everything and stop tracking when the player opts out', async () => {
+    const storage = new MemoryStorage();
+    const sink = new MemoryTelemetrySink();
+    const telemetry = new Telemetry(sink, storage);
+    telemetry.track('PAUSE');
+    telemetry.setEnabled(false);
+    telemetry.track('PAUSE');
+
+    expect(telemetry.getPendingCount()).toBe(0);
+    expect(storage.getItem(STORAGE_KEY)).toBeNull();
+    expect(await telemetry.flush()).toBe(0);
+    expect(sink.batches).toEqual([]);
+  });
+});
+
+describe('HttpTelemetrySink', () => {
+  it('should POST with fetch and use sendBeacon while unloading', async () => {
+    const requests: Array<{ url: string, init?: RequestInit }> = [];
+    const beacons: string[] = [];
+    const sink = new HttpTelemetrySink(
+      'https://example.test/events',
+      async (url, init) => {
+        requests.push({ url: String(url), init });
+        return new Response(null, { status: requests.length === 1 ? 204 : 503 });
+      },
+      (url) => { beacons.push(url); return true; }
+    );
+    const events = [{ event: 'PAUSE' as const, timestamp: 1, userAgent: 'test', sessionId: 's' }];
+
+    expect(await sink.send(events, false)).toBe(true);
+    expect(JSON.parse(requests[0].init!.body as string)).toEqual({ events });
+    expect(await sink.send(events, false)).toBe(false);
+    expect(await sink.send(events, true)).toBe(true);
+    expect(beacons).toEqual(['https://example.test/events']);
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('FpsMonitor', () => {
+  it('should report a sustained drop once, then cool down', () => {
+    const monitor = new FpsMonitor();
+    const run = (frameMs: number, frames: number) => {
+      const reports: number[] = [];
+      for (let i = 0; i < frames; i++) {
+        const fps = monitor.addFrame(frameMs);
+        if (fps !== null) reports.push(fps);
+      }
+      return reports;
+    };
+
+    expect(run(16, 200)).toEqual([]);           // 60 FPS
+    expect(run(50, 80)).toEqual([20]);          // 20 FPS for a full window
+    expect(run(50, 200)).toEqual([]);           // Still slow, but within the cooldown
+    expect(monitor.addFrame(5000)).toBeNull();  // Hidden tab, not a slow frame
+  });
+});
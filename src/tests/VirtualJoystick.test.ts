@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VirtualJoystick } from '../ui/VirtualJoystick';
+
+// jsdom has no PointerEvent, so the fields the joystick reads are attached to a plain Event
+const pointer = (type: string, pointerId: number, clientX: number, clientY: number): Event =>
+  Object.assign(new Event(type, { cancelable: true }), { pointerId, clientX, clientY });
+
+describe('VirtualJoystick', () => {
+  let moves: Array<[number, number]>;
+  let joystick: VirtualJoystick;
+  let zone: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    moves = [];
+    joystick = new VirtualJoystick();
+    joystick.setMoveCallback((x, y) => moves.push([x, y]));
+    joystick.setEnabled(true);
+    zone = document.getElementById('joystick-zone')!;
+  });
+
+  it('should limit knob travel to its radius and recenter on release', () => {
+    zone.dispatchEvent(pointer('pointerdown', 1, 200, 200));
+    zone.dispatchEvent(pointer('pointermove', 1, 230, 200));
+    expect(moves.at(-1)).toEqual([0.5, 0]);
+
+    zone.dispatchEvent(pointer('pointermove', 1, 200, 0));
+    expect(moves.at(-1)).toEqual([0, -1]);
+
+    zone.dispatchEvent(pointer('pointerup', 1, 200, 0));
+    expect(moves.at(-1)).toEqual([0, 0]);
+  });
+
+  it('should ignore a second finger while the stick is held', () => {
+    zone.dispatchEvent(pointer('pointerdown', 1, 200, 200));
+    zone.dispatchEvent(pointer('pointerdown', 2, 500, 500));
+    zone.dispatchEvent(pointer('pointermove', 2, 560, 500));
+    zone.dispatchEvent(pointer('pointerup', 2, 560, 500));
+    expect(moves).toEqual([[0, 0]]);
+
+    zone.dispatchEvent(pointer('pointermove', 1, 170, 200));
+    expect(moves.at(-1)).toEqual([-0.5, 0]);
+  });
+
+  it('should only grab near the base in fixed style', () => {
+    joystick.setStyle('fixed');
+    zone.dispatchEvent(pointer('pointerdown', 1, 10, 10));
+    expect(moves).toEqual([]);
+
+    const centerX = window.innerWidth - 100;
+    const centerY = window.innerHeight - 100;
+    zone.dispatchEvent(pointer('pointerdown', 1, centerX, centerY - 60));
+    expect(moves.at(-1)).toEqual([0, -1]);
+  });
+});
@@ -1,4 +1,75 @@
 import * as THREE from 'three';
+import { GoalOutcome } from '../core/GameStateManager';
+import { LeaderboardEntry, RunMode } from '../core/Leaderboard';
+import { InputMode } from '../core/types';
+import { RemoteScore } from '../online/LeaderboardService';
+import {
+  GameSettings, GraphicsQuality, JoystickStyle, NumericSetting, SETTING_RANGES, SteeringMode, TiltInputMode,
+  ToggleSetting
+} from '../core/Settings';
+import { RunStats } from '../core/RunStats';
+import { GoalType } from '../core/types';
+import { renderRunStats } from './RunStatsView';
+
+/** Popup colour per ring type */
+const GOAL_POPUP_COLORS: Record<GoalType, string> = {
+  standard: '#ffaa00',
+  time: '#44ddff',
+  multiplier: '#cc66ff',
+  moving: '#66ff66',
+  decoy: '#ff3344'
+};
+
+/** One card on the level-select screen */
+export interface LevelSelectEntry {
+  id: string;
+  name: string;
+  goalsRequired: number;
+  timeLimit: number;
+  highScore: number;
+  stars: number;
+  locked: boolean;
+}
+
+/** What the leaderboard screen shows (already filtered) */
+export interface LeaderboardView {
+  playerName: string;
+  levels: Array<{ id: string, name: string }>;
+  levelId: string;
+  mode: RunMode | null; // null = all modes
+  entries: LeaderboardEntry[];
+  history: LeaderboardEntry[];
+}
+
+/** The online section of the leaderboard screen (same level/mode filter) */
+export interface OnlineScoresView {
+  status: string;         // e.g. "Loading…", "Offline — 2 runs waiting to upload"
+  top: RemoteScore[];
+  aroundMe: RemoteScore[];
+}
+
+const MODE_LABELS: Record<RunMode, string> = { quick: 'Quick Play', campaign: 'Campaign' };
+
+const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  tilt: '📱 Tilt', touch: '🕹️ Joystick', keyboard: '⌨️ Keys', gamepad: '🎮 Gamepad',
+  scripted: '🤖 Script'
+};
+
+const SETTING_SLIDERS: Array<{ key: NumericSetting, label: string, format: (value: number) => string }> = [
+  { key: 'maxTiltAngle', label: 'Tilt for Full Speed', format: v => `${v}°` },
+  { key: 'deadzone', label: 'Deadzone', format: v => `${v}°` },
+  { key: 'smoothing', label: 'Responsiveness', format: v => v.toFixed(2) },
+  { key: 'joystickSensitivity', label: 'Joystick Sensitivity', format: v => v.toFixed(1) }
+];
+
+const SETTING_TOGGLES: Array<{ key: ToggleSetting, label: string }> = [
+  { key: 'invertX', label: 'Invert Left/Right' },
+  { key: 'invertY', label: 'Invert Forward/Back' },
+  { key: 'leftHanded', label: 'Left-Handed Layout' },
+  { key: 'allowPortrait', label: 'Allow Portrait' },
+  { key: 'muted', label: 'Mute Sound' },
+  { key: 'telemetry', label: 'Share Usage Data' }
+];
 
 export class GameUI {
   // DOM Elements
@@ -8,14 +79,48 @@ export class GameUI {
   private timerElement!: HTMLDivElement;
   private scoreElement!: HTMLDivElement;
   private progressElement!: HTMLDivElement;
+  private ghostDeltaElement!: HTMLDivElement;
+  private comboElement!: HTMLDivElement;
+  private comboLabelElement!: HTMLSpanElement;
+  private comboFillElement!: HTMLDivElement;
   private winModal: HTMLDivElement;
   private gameOverModal: HTMLDivElement;
+  private pauseScreen: HTMLDivElement;
+  private levelSelectScreen: HTMLDivElement;
+  private leaderboardScreen: HTMLDivElement;
+  private settingsScreen: HTMLDivElement;
+  private settingsOpenedFromPause = false;
+  private calibrationScreen: HTMLDivElement;
+  private orientationPrompt!: HTMLDivElement;
+  private portraitAllowed = false;
   private muteBtn: HTMLButtonElement;
+  private pauseBtn: HTMLButtonElement;
+  private inputModeBadge: HTMLDivElement;
   
   // Callbacks
   private onStartGame?: () => void;
   private onRestart?: () => void;
   private onMuteToggle?: () => boolean;
+  private onPause?: () => void;
+  private onResume?: () => void;
+  private onRestartRun?: () => void;
+  private onQuit?: () => void;
+  private onOpenCampaign?: () => void;
+  private onLevelSelected?: (levelId: string) => void;
+  private onNextLevel?: () => void;
+  private onWatchReplay?: () => void;
+  private onLoadReplay?: (text: string) => void;
+  private onOpenLeaderboard?: () => void;
+  private onLeaderboardFilter?: (levelId: string, mode: RunMode | null) => void;
+  private onPlayerNameChange?: (name: string) => void;
+  private onLeaderboardExport?: () => void;
+  private onLeaderboardImport?: (text: string) => void;
+  private onOpenSettings?: () => void;
+  private onSettingsChange?: (changes: Partial<GameSettings>) => void;
+  private onSettingsReset?: () => void;
+  private onCalibrate?: (from: 'pause' | 'settings') => void;
+  private onCalibrationCancel?: () => void;
+  private onCalibrationFlat?: () => void;
 
   constructor() {
     this.injectStyles();
@@ -33,8 +138,15 @@ export class GameUI {
     this.hudContainer = this.createHUD();
     this.winModal = this.createWinModal();
     this.gameOverModal = this.createGameOverModal();
+    this.pauseScreen = this.createPauseScreen();
+    this.levelSelectScreen = this.createLevelSelectScreen();
+    this.leaderboardScreen = this.createLeaderboardScreen();
+    this.settingsScreen = this.createSettingsScreen();
+    this.calibrationScreen = this.createCalibrationScreen();
     this.muteBtn = this.createMuteButton();
     this.muteBtn.style.display = 'flex'; // simple read/use
+    this.pauseBtn = this.createPauseButton();
+    this.inputModeBadge = this.createInputModeBadge();
 
     // Default State
     this.showStartScreen();
@@ -81,6 +193,7 @@ export class GameUI {
         font-size: 1.2rem; color: #eee;
       }
       .ui-stat-val { font-weight: bold; color: #ffaa00; }
+      .ui-seed-link { text-decoration: underline dotted; font-family: monospace; }
       
       /* Buttons */
       .ui-btn {
@@ -113,6 +226,19 @@ export class GameUI {
       #hud-progress {
         top: 20px; left: 20px; font-size: 1.8rem; color: white;
       }
+      #hud-combo {
+        top: 70px; right: 20px; text-align: right; color: #ff66cc;
+        font-size: 1.3rem; display: none;
+      }
+      .combo-meter {
+        width: 140px; height: 6px; margin: 4px 0 0 auto;
+        background: rgba(255,255,255,0.2); border-radius: 3px; overflow: hidden;
+      }
+      .combo-fill { height: 100%; background: #ff66cc; }
+      #hud-ghost {
+        top: 90px; left: 50%; transform: translateX(-50%);
+        font-size: 1.3rem; display: none;
+      }
 
       /* NEW ANIMATIONS & MUTE BTN */
       @keyframes scorePopup {
@@ -136,6 +262,110 @@ export class GameUI {
         transition: transform 0.2s;
       }
       #btn-mute:hover { transform: scale(1.1); background: rgba(0,0,0,0.8); }
+
+      #input-mode {
+        position: fixed; bottom: 16px; left: 16px; z-index: 2000;
+        padding: 0.3rem 0.7rem; border-radius: 14px; font-size: 0.85rem;
+        background: rgba(0,0,0,0.5); color: #ddd; pointer-events: none;
+      }
+      body.left-handed #input-mode { left: auto; right: 16px; }
+
+      /* PAUSE */
+      #btn-pause {
+        position: fixed; top: 80px; left: 20px;
+        background: rgba(0,0,0,0.5); border: 1px solid rgba(255,255,255,0.3);
+        border-radius: 50%; width: 50px; height: 50px;
+        font-size: 1.3rem; color: white; cursor: pointer;
+        z-index: 2000; pointer-events: auto;
+        display: none; justify-content: center; align-items: center;
+        transition: transform 0.2s;
+      }
+      #btn-pause:hover { transform: scale(1.1); background: rgba(0,0,0,0.8); }
+      .ui-btn-group {
+        display: flex; flex-direction: column; gap: 1rem; align-items: stretch;
+      }
+      .ui-btn-secondary {
+        background: rgba(255,255,255,0.1); border: 1px solid rgba(255,255,255,0.3);
+        box-shadow: none;
+      }
+
+      /* LEVEL SELECT */
+      .level-grid {
+        display: grid; grid-template-columns: repeat(auto-fill, minmax(180px, 1fr));
+        gap: 1rem; width: min(90%, 800px); margin-bottom: 2rem;
+      }
+      .level-card {
+        background: rgba(255,255,255,0.1); border: 1px solid rgba(255,255,255,0.2);
+        border-radius: 10px; padding: 1rem; color: #eee; text-align: center;
+        cursor: pointer; transition: transform 0.2s, background 0.2s;
+        font-family: inherit;
+      }
+      .level-card:hover { transform: scale(1.05); background: rgba(68,136,255,0.25); }
+      .level-card.locked { opacity: 0.4; cursor: not-allowed; }
+      .level-card.locked:hover { transform: none; background: rgba(255,255,255,0.1); }
+      .level-card-name { font-size: 1.2rem; font-weight: bold; margin-bottom: 0.3rem; }
+      .level-card-meta { font-size: 0.9rem; opacity: 0.7; }
+      .level-stars { font-size: 1.5rem; color: #ffaa00; letter-spacing: 4px; margin: 0.3rem 0; }
+      #win-stars { margin-bottom: 1rem; font-size: 3rem; }
+
+      /* LEADERBOARD */
+      .lb-controls {
+        display: flex; gap: 0.8rem; flex-wrap: wrap; justify-content: center; margin-bottom: 1rem;
+      }
+      .lb-controls input, .lb-controls select {
+        background: rgba(255,255,255,0.1); color: #eee; font: inherit; font-size: 1rem;
+        border: 1px solid rgba(255,255,255,0.3); border-radius: 6px; padding: 0.4rem 0.6rem;
+      }
+      .lb-controls option { color: #000; }
+      .lb-panel {
+        width: min(90%, 700px); max-height: 30vh; overflow-y: auto; margin-bottom: 1rem;
+        background: rgba(255,255,255,0.05); border-radius: 10px;
+      }
+      .lb-table { width: 100%; border-collapse: collapse; color: #eee; font-size: 0.95rem; }
+      .lb-table th { text-align: left; opacity: 0.6; font-weight: normal; padding: 0.4rem 0.6rem; }
+      .lb-table td { padding: 0.3rem 0.6rem; border-top: 1px solid rgba(255,255,255,0.1); }
+      .lb-table .lb-score { color: #ffaa00; font-weight: bold; }
+      .lb-empty { padding: 1rem; text-align: center; opacity: 0.6; color: #eee; }
+      #lb-status, #start-status { min-height: 1.2rem; margin-bottom: 0.5rem; color: #aaa; }
+      #lb-online { width: min(90%, 700px); display: flex; flex-direction: column; align-items: center; }
+      #lb-online .lb-panel { width: 100%; }
+      #lb-online-status { min-height: 1.2rem; margin-bottom: 0.5rem; color: #aaa; }
+      /* SETTINGS */
+      .settings-list {
+        width: min(90%, 420px); margin-bottom: 1.5rem; color: #eee;
+        display: grid; grid-template-columns: 1fr auto; gap: 0.7rem 1rem; align-items: center;
+      }
+      .settings-list label { text-align: left; }
+      .settings-list input[type="range"] { width: 100%; grid-column: 1 / -1; margin-top: -0.4rem; }
+      .settings-list input[type="checkbox"] { width: 1.3rem; height: 1.3rem; }
+      .settings-list select {
+        background: rgba(255,255,255,0.1); color: #eee; font: inherit;
+        border: 1px solid rgba(255,255,255,0.3); border-radius: 6px; padding: 0.3rem 0.5rem;
+      }
+      .settings-list option { color: #000; }
+      .settings-value { color: #ffaa00; font-weight: bold; }
+      .calib-meter {
+        width: min(70%, 320px); height: 12px; margin: 1rem 0;
+        background: rgba(255,255,255,0.15); border-radius: 6px; overflow: hidden;
+      }
+      #calib-fill { width: 0; height: 100%; background: #44ff88; }
+      #calib-status { min-height: 1.4rem; margin-bottom: 1.5rem; color: #aaa; }
+      body.left-handed #btn-mute { right: auto; left: 20px; }
+      body.left-handed #btn-pause { left: auto; right: 20px; }
+      .ui-btn-row { display: flex; gap: 1rem; flex-wrap: wrap; justify-content: center; }
+      .ui-btn-row .ui-btn { padding: 0.6rem 1.8rem; font-size: 1.1rem; }
+
+      /* RUN STATS */
+      .run-stats {
+        display: none; max-height: 40vh; overflow-y: auto; margin-top: -1rem;
+        font-size: 0.9rem;
+      }
+      .run-stats .ui-stat-row { font-size: 1rem; margin: 0.3rem 0; }
+      .run-stats-heading {
+        margin: 0.8rem 0 0.3rem; font-size: 0.8rem; letter-spacing: 2px;
+        text-transform: uppercase; opacity: 0.6; text-align: left;
+      }
+      .split-chart { display: block; margin: 0 auto; max-width: 100%; }
     `;
     document.head.appendChild(style);
   }
@@ -156,21 +386,63 @@ export class GameUI {
     return btn;
   }
 
+  private createPauseButton(): HTMLButtonElement {
+    const btn = document.createElement('button');
+    btn.id = 'btn-pause';
+    btn.textContent = '⏸';
+    btn.onclick = () => {
+      if (this.onPause) this.onPause();
+    };
+    document.body.appendChild(btn);
+    return btn;
+  }
+
+  private createInputModeBadge(): HTMLDivElement {
+    const el = document.createElement('div');
+    el.id = 'input-mode';
+    document.body.appendChild(el);
+    return el;
+  }
+
   private createStartScreen(): HTMLDivElement {
     const el = document.createElement('div');
     el.className = 'ui-screen active';
     el.innerHTML = `
       <h1 class="ui-title">KINETIC TILT</h1>
-      <p class="ui-subtitle">Collect 10 rings before time runs out</p>
+      <p class="ui-subtitle" id="start-subtitle">Collect 10 rings before time runs out</p>
       <div style="margin-bottom: 2rem; color: #aaa; font-size: 1rem;">
-        Tilt device or drag mouse to control
+        Tilt device, use the on-screen joystick, WASD / arrows or a gamepad
       </div>
-      <button class="ui-btn" id="btn-start">START GAME</button>
+      <div class="ui-btn-group">
+        <button class="ui-btn" id="btn-start">START GAME</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-campaign">CAMPAIGN</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-leaderboard">LEADERBOARD</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-settings">SETTINGS</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-load-replay">LOAD REPLAY</button>
+      </div>
+      <div id="start-status"></div>
+      <input type="file" id="replay-file" accept="application/json,.json" style="display: none" />
     `;
     
+    const replayInput = el.querySelector<HTMLInputElement>('#replay-file')!;
     el.querySelector('#btn-start')?.addEventListener('click', () => {
       if (this.onStartGame) this.onStartGame();
     });
+    el.querySelector('#btn-campaign')?.addEventListener('click', () => {
+      if (this.onOpenCampaign) this.onOpenCampaign();
+    });
+    el.querySelector('#btn-leaderboard')?.addEventListener('click', () => {
+      if (this.onOpenLeaderboard) this.onOpenLeaderboard();
+    });
+    el.querySelector('#btn-settings')?.addEventListener('click', () => {
+      if (this.onOpenSettings) this.onOpenSettings();
+    });
+    el.querySelector('#btn-load-replay')?.addEventListener('click', () => replayInput.click());
+    replayInput.addEventListener('change', async () => {
+      const file = replayInput.files?.[0];
+      replayInput.value = ''; // Allow picking the same file again
+      if (file && this.onLoadReplay) this.onLoadReplay(await file.text());
+    });
     
     this.container.appendChild(el);
     return el;
@@ -183,12 +455,21 @@ export class GameUI {
       <div id="hud-progress" class="hud-panel">Goals: 0/10</div>
       <div id="hud-timer" class="hud-panel">60.0</div>
       <div id="hud-score" class="hud-panel">Score: 0</div>
+      <div id="hud-combo" class="hud-panel">
+        <span id="hud-combo-label"></span>
+        <div class="combo-meter"><div id="hud-combo-fill" class="combo-fill"></div></div>
+      </div>
+      <div id="hud-ghost" class="hud-panel"></div>
     `;
     
     this.container.appendChild(el);
     this.progressElement = el.querySelector('#hud-progress')!;
     this.timerElement = el.querySelector('#hud-timer')!;
     this.scoreElement = el.querySelector('#hud-score')!;
+    this.ghostDeltaElement = el.querySelector('#hud-ghost')!;
+    this.comboElement = el.querySelector('#hud-combo')!;
+    this.comboLabelElement = el.querySelector('#hud-combo-label')!;
+    this.comboFillElement = el.querySelector('#hud-combo-fill')!;
     
     return el;
   }
@@ -198,16 +479,29 @@ export class GameUI {
     el.className = 'ui-screen';
     el.innerHTML = `
       <h1 class="ui-title" style="color: #ffaa00; text-shadow: 0 0 30px rgba(255,170,0,0.8)">VICTORY!</h1>
+      <div class="level-stars" id="win-stars"></div>
       <div class="ui-stat-box">
         <div class="ui-stat-row"><span>Final Score</span><span class="ui-stat-val" id="win-score">0</span></div>
         <div class="ui-stat-row"><span>Time Bonus</span><span class="ui-stat-val" id="win-bonus">0</span></div>
+        <div class="ui-stat-row"><span>Seed</span><a class="ui-stat-val ui-seed-link" id="win-seed">-</a></div>
+      </div>
+      <div class="ui-stat-box run-stats" id="win-stats"></div>
+      <div class="ui-btn-group">
+        <button class="ui-btn" id="btn-next-level">NEXT LEVEL</button>
+        <button class="ui-btn" id="btn-restart-win">PLAY AGAIN</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-watch-replay">WATCH REPLAY</button>
       </div>
-      <button class="ui-btn" id="btn-restart-win">PLAY AGAIN</button>
     `;
     
     el.querySelector('#btn-restart-win')?.addEventListener('click', () => {
       if (this.onRestart) this.onRestart();
     });
+    el.querySelector('#btn-next-level')?.addEventListener('click', () => {
+      if (this.onNextLevel) this.onNextLevel();
+    });
+    el.querySelector('#btn-watch-replay')?.addEventListener('click', () => {
+      if (this.onWatchReplay) this.onWatchReplay();
+    });
 
     this.container.appendChild(el);
     return el;
@@ -221,7 +515,9 @@ export class GameUI {
       <div class="ui-stat-box">
         <div class="ui-stat-row"><span>Goals Collected</span><span class="ui-stat-val" id="lose-goals">0/10</span></div>
         <div class="ui-stat-row"><span>Final Score</span><span class="ui-stat-val" id="lose-score">0</span></div>
+        <div class="ui-stat-row"><span>Seed</span><a class="ui-stat-val ui-seed-link" id="lose-seed">-</a></div>
       </div>
+      <div class="ui-stat-box run-stats" id="lose-stats"></div>
       <button class="ui-btn" id="btn-restart-lose" style="background: linear-gradient(135deg, #ff4444, #dd2222)">TRY AGAIN</button>
     `;
     
@@ -233,6 +529,261 @@ export class GameUI {
     return el;
   }
 
+  private createPauseScreen(): HTMLDivElement {
+    const el = document.createElement('div');
+    el.className = 'ui-screen';
+    el.innerHTML = `
+      <h1 class="ui-title">PAUSED</h1>
+      <p class="ui-subtitle">The clock is stopped</p>
+      <div class="ui-btn-group">
+        <button class="ui-btn" id="btn-resume">RESUME</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-restart-pause">RESTART</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-settings-pause">SETTINGS</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-calibrate-pause">CALIBRATE TILT</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-quit">QUIT</button>
+      </div>
+    `;
+
+    el.querySelector('#btn-resume')?.addEventListener('click', () => {
+      if (this.onResume) this.onResume();
+    });
+    el.querySelector('#btn-restart-pause')?.addEventListener('click', () => {
+      if (this.onRestartRun) this.onRestartRun();
+    });
+    el.querySelector('#btn-settings-pause')?.addEventListener('click', () => {
+      if (this.onOpenSettings) this.onOpenSettings();
+    });
+    el.querySelector('#btn-calibrate-pause')?.addEventListener('click', () => {
+      if (this.onCalibrate) this.onCalibrate('pause');
+    });
+    el.querySelector('#btn-quit')?.addEventListener('click', () => {
+      if (this.onQuit) this.onQuit();
+    });
+
+    this.container.appendChild(el);
+    return el;
+  }
+
+  private createLevelSelectScreen(): HTMLDivElement {
+    const el = document.createElement('div');
+    el.className = 'ui-screen';
+    el.innerHTML = `
+      <h1 class="ui-title">CAMPAIGN</h1>
+      <p class="ui-subtitle">Clear a level to unlock the next</p>
+      <div class="level-grid" id="level-grid"></div>
+      <button class="ui-btn ui-btn-secondary" id="btn-level-back">BACK</button>
+    `;
+
+    el.querySelector('#btn-level-back')?.addEventListener('click', () => {
+      this.showStartScreen();
+    });
+
+    this.container.appendChild(el);
+    return el;
+  }
+
+  private createLeaderboardScreen(): HTMLDivElement {
+    const el = document.createElement('div');
+    el.className = 'ui-screen';
+    el.innerHTML = `
+      <h1 class="ui-title">LEADERBOARD</h1>
+      <div class="lb-controls">
+        <input id="lb-name" maxlength="16" placeholder="Your name" aria-label="Your name" />
+        <select id="lb-level" aria-label="Level"></select>
+        <select id="lb-mode" aria-label="Mode">
+          <option value="">All Modes</option>
+          <option value="quick">${MODE_LABELS.quick}</option>
+          <option value="campaign">${MODE_LABELS.campaign}</option>
+        </select>
+      </div>
+      <div class="lb-panel" id="lb-top"></div>
+      <div id="lb-online" style="display: none">
+        <div class="run-stats-heading">Online</div>
+        <div id="lb-online-status"></div>
+        <div class="lb-panel" id="lb-online-top"></div>
+        <div class="run-stats-heading">Around You</div>
+        <div class="lb-panel" id="lb-online-around"></div>
+      </div>
+      <div class="run-stats-heading" style="width: min(90%, 700px)">Recent Runs</div>
+      <div class="lb-panel" id="lb-history"></div>
+      <div id="lb-status"></div>
+      <div class="ui-btn-row">
+        <button class="ui-btn ui-btn-secondary" id="btn-lb-export">EXPORT</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-lb-import">IMPORT</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-lb-back">BACK</button>
+      </div>
+      <input type="file" id="lb-file" accept="application/json,.json" style="display: none" />
+    `;
+
+    const levelSelect = el.querySelector<HTMLSelectElement>('#lb-level')!;
+    const modeSelect = el.querySelector<HTMLSelectElement>('#lb-mode')!;
+    const fileInput = el.querySelector<HTMLInputElement>('#lb-file')!;
+    const emitFilter = () => {
+      if (this.onLeaderboardFilter) this.onLeaderboardFilter(levelSelect.value, (modeSelect.value || null) as RunMode | null);
+    };
+
+    levelSelect.addEventListener('change', emitFilter);
+    modeSelect.addEventListener('change', emitFilter);
+    el.querySelector<HTMLInputElement>('#lb-name')!.addEventListener('change', (e) => {
+      if (this.onPlayerNameChange) this.onPlayerNameChange((e.target as HTMLInputElement).value);
+    });
+    el.querySelector('#btn-lb-export')?.addEventListener('click', () => {
+      if (this.onLeaderboardExport) this.onLeaderboardExport();
+    });
+    el.querySelector('#btn-lb-import')?.addEventListener('click', () => fileInput.click());
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = ''; // Allow picking the same file again
+      if (file && this.onLeaderboardImport) this.onLeaderboardImport(await file.text());
+    });
+    el.querySelector('#btn-lb-back')?.addEventListener('click', () => {
+      this.showStartScreen();
+    });
+
+    this.container.appendChild(el);
+    return el;
+  }
+
+  /**
+   * Settings apply live: every slider move / toggle emits a change right away.
+   */
+  private createSettingsScreen(): HTMLDivElement {
+    const el = document.createElement('div');
+    el.className = 'ui-screen';
+    const sliders = SETTING_SLIDERS.map(({ key, label }) => {
+      const { min, max, step } = SETTING_RANGES[key];
+      return `
+        <label for="set-${key}">${label}</label>
+        <span class="settings-value" id="set-${key}-value"></span>
+        <input type="range" id="set-${key}" min="${min}" max="${max}" step="${step}" />`;
+    }).join('');
+    const toggles = SETTING_TOGGLES.map(({ key, label }) => `
+        <label for="set-${key}">${label}</label>
+        <input type="checkbox" id="set-${key}" />`).join('');
+    el.innerHTML = `
+      <h1 class="ui-title">SETTINGS</h1>
+      <div class="settings-list">
+        ${sliders}
+        ${toggles}
+        <span style="text-align: left">Neutral Angle</span>
+        <span class="settings-value" id="set-neutral-value"></span>
+        <label for="set-tiltInput">Tilt Input</label>
+        <select id="set-tiltInput">
+          <option value="euler">Classic</option>
+          <option value="quaternion">Lock-free</option>
+        </select>
+        <label for="set-steering">Steering</label>
+        <select id="set-steering">
+          <option value="tilt">Tilt</option>
+          <option value="joystick">Joystick</option>
+        </select>
+        <label for="set-joystickStyle">Joystick</label>
+        <select id="set-joystickStyle">
+          <option value="floating">Floating</option>
+          <option value="fixed">Fixed</option>
+        </select>
+        <label for="set-graphicsQuality">Graphics</label>
+        <select id="set-graphicsQuality">
+          <option value="low">Low</option>
+          <option value="medium">Medium</option>
+          <option value="high">High</option>
+        </select>
+      </div>
+      <div class="ui-btn-row">
+        <button class="ui-btn ui-btn-secondary" id="btn-settings-calibrate">CALIBRATE</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-settings-reset">DEFAULTS</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-settings-back">BACK</button>
+      </div>
+    `;
+
+    const emit = (changes: Partial<GameSettings>) => {
+      if (this.onSettingsChange) this.onSettingsChange(changes);
+    };
+    SETTING_SLIDERS.forEach(({ key, format }) => {
+      const input = el.querySelector<HTMLInputElement>(`#set-${key}`)!;
+      input.addEventListener('input', () => {
+        el.querySelector(`#set-${key}-value`)!.textContent = format(Number(input.value));
+        emit({ [key]: Number(input.value) });
+      });
+    });
+    SETTING_TOGGLES.forEach(({ key }) => {
+      const input = el.querySelector<HTMLInputElement>(`#set-${key}`)!;
+      input.addEventListener('change', () => emit({ [key]: input.checked }));
+    });
+    const quality = el.querySelector<HTMLSelectElement>('#set-graphicsQuality')!;
+    quality.addEventListener('change', () => emit({ graphicsQuality: quality.value as GraphicsQuality }));
+    const tiltInput = el.querySelector<HTMLSelectElement>('#set-tiltInput')!;
+    tiltInput.addEventListener('change', () => emit({ tiltInput: tiltInput.value as TiltInputMode }));
+    const steering = el.querySelector<HTMLSelectElement>('#set-steering')!;
+    steering.addEventListener('change', () => emit({ steering: steering.value as SteeringMode }));
+    const joystickStyle = el.querySelector<HTMLSelectElement>('#set-joystickStyle')!;
+    joystickStyle.addEventListener('change', () => emit({ joystickStyle: joystickStyle.value as JoystickStyle }));
+
+    el.querySelector('#btn-settings-calibrate')?.addEventListener('click', () => {
+      if (this.onCalibrate) this.onCalibrate('settings');
+    });
+    el.querySelector('#btn-settings-reset')?.addEventListener('click', () => {
+      if (this.onSettingsReset) this.onSettingsReset();
+    });
+    el.querySelector('#btn-settings-back')?.addEventListener('click', () => {
+      if (this.settingsOpenedFromPause) this.showPauseScreen();
+      else this.showStartScreen();
+    });
+
+    this.container.appendChild(el);
+    return el;
+  }
+
+  private createCalibrationScreen(): HTMLDivElement {
+    const el = document.createElement('div');
+    el.className = 'ui-screen';
+    el.innerHTML = `
+      <h1 class="ui-title">HOLD STILL</h1>
+      <p class="ui-subtitle">Hold your device the way you like to play</p>
+      <div class="calib-meter"><div id="calib-fill"></div></div>
+      <div id="calib-status"></div>
+      <div class="ui-btn-row">
+        <button class="ui-btn ui-btn-secondary" id="btn-calib-flat">USE FLAT</button>
+        <button class="ui-btn ui-btn-secondary" id="btn-calib-cancel">CANCEL</button>
+      </div>
+    `;
+
+    el.querySelector('#btn-calib-flat')?.addEventListener('click', () => {
+      if (this.onCalibrationFlat) this.onCalibrationFlat();
+    });
+    el.querySelector('#btn-calib-cancel')?.addEventListener('click', () => {
+      if (this.onCalibrationCancel) this.onCalibrationCancel();
+    });
+
+    this.container.appendChild(el);
+    return el;
+  }
+
+  private renderLeaderboardTable(entries: LeaderboardEntry[], ranked: boolean): string {
+    if (entries.length === 0) return '<div class="lb-empty">No runs yet</div>';
+
+    const rows = entries.map((entry, i) => `
+      <tr>
+        <td>${ranked ? `${escapeHtml(String((entry as Partial<RemoteScore>).rank ?? i + 1))}.` : (entry.won ? '🏆' : '💀')}</td>
+        <td>${escapeHtml(entry.name)}</td>
+        ${ranked ? '' : `<td>${escapeHtml(entry.levelId)}</td>`}
+        <td class="lb-score">${escapeHtml(String(entry.score))}</td>
+        <td>${escapeHtml(Number(entry.time).toFixed(1))}s</td>
+        <td>${escapeHtml(MODE_LABELS[entry.mode] ?? String(entry.mode))}</td>
+        <td>${escapeHtml(new Date(entry.date).toLocaleDateString())}</td>
+        <td>#${escapeHtml(String(entry.seed))}</td>
+      </tr>`);
+    const levelHeader = ranked ? '' : '<th>Level</th>';
+    return `<table class="lb-table">
+      <tr><th></th><th>Name</th>${levelHeader}<th>Score</th><th>Time</th><th>Mode</th><th>Date</th><th>Seed</th></tr>
+      ${rows.join('')}
+    </table>`;
+  }
+
+  private renderStars(stars: number): string {
+    return '★'.repeat(stars) + '☆'.repeat(3 - stars);
+  }
+
   private createOrientationPrompt(): void {
     const el = document.createElement('div');
     el.id = 'orientation-prompt';
@@ -249,20 +800,25 @@ export class GameUI {
       <div style="font-size: 4rem; margin-bottom: 1rem;">📱➡️</div>
       <div style="font-size: 2rem; font-weight: bold;">Rotate Device</div>
       <div style="font-size: 1rem; opacity: 0.7; margin-top: 1rem;">
-        Landscape mode required
+        Landscape mode recommended
       </div>
+      <button class="ui-btn ui-btn-secondary" id="btn-allow-portrait" style="margin-top: 2rem">PLAY IN PORTRAIT</button>
     `;
     
+    el.querySelector('#btn-allow-portrait')?.addEventListener('click', () => {
+      if (this.onSettingsChange) this.onSettingsChange({ allowPortrait: true });
+    });
     document.body.appendChild(el);
+    this.orientationPrompt = el;
     
-    const checkOrientation = () => {
-      const isPortrait = window.innerHeight > window.innerWidth;
-      el.style.display = isPortrait ? 'flex' : 'none';
-    };
-    
-    window.addEventListener('resize', checkOrientation);
-    window.addEventListener('orientationchange', checkOrientation);
-    checkOrientation();
+    window.addEventListener('resize', () => this.checkOrientation());
+    window.addEventListener('orientationchange', () => this.checkOrientation());
+    this.checkOrientation();
+  }
+
+  private checkOrientation(): void {
+    const isPortrait = window.innerHeight > window.innerWidth;
+    this.orientationPrompt.style.display = isPortrait && !this.portraitAllowed ? 'flex' : 'none';
   }
 
   // --- 3. PUBLIC API ---
@@ -279,6 +835,255 @@ export class GameUI {
     this.onMuteToggle = callback;
   }
 
+  public setPauseCallback(callback: () => void): void {
+    this.onPause = callback;
+  }
+
+  public setResumeCallback(callback: () => void): void {
+    this.onResume = callback;
+  }
+
+  /** Pause menu "Restart": begin a fresh run immediately */
+  public setRestartRunCallback(callback: () => void): void {
+    this.onRestartRun = callback;
+  }
+
+  /** Pause menu "Quit": abandon the run and return to the start screen */
+  public setQuitCallback(callback: () => void): void {
+    this.onQuit = callback;
+  }
+
+  /**
+   * Rewrites the level-specific copy (start screen + HUD defaults).
+   */
+  public setLevelInfo(name: string, goalsRequired: number, timeLimit: number): void {
+    this.startScreen.querySelector('#start-subtitle')!.textContent =
+      `${name}: collect ${goalsRequired} rings in ${timeLimit}s`;
+    this.updateProgress(0, goalsRequired);
+    this.updateTimer(timeLimit);
+  }
+
+  public setCampaignCallback(callback: () => void): void {
+    this.onOpenCampaign = callback;
+  }
+
+  public setLevelSelectedCallback(callback: (levelId: string) => void): void {
+    this.onLevelSelected = callback;
+  }
+
+  public setNextLevelCallback(callback: () => void): void {
+    this.onNextLevel = callback;
+  }
+
+  /**
+   * Shows the run's seed on the win/lose screens as a link that replays the same layout.
+   */
+  public setRunSeed(seed: number, shareUrl: string): void {
+    [this.winModal, this.gameOverModal].forEach(modal => {
+      const link = modal.querySelector<HTMLAnchorElement>('.ui-seed-link')!;
+      link.textContent = seed.toString();
+      link.href = shareUrl;
+      link.title = 'Play this exact layout again (share this link)';
+    });
+  }
+
+  public setWatchReplayCallback(callback: () => void): void {
+    this.onWatchReplay = callback;
+  }
+
+  /** Receives the text of the .replay.json file the player picked on the start screen */
+  public setLoadReplayCallback(callback: (text: string) => void): void {
+    this.onLoadReplay = callback;
+  }
+
+  /** One-line feedback under the start menu (e.g. a replay file that failed to load) */
+  public setStartStatus(text: string): void {
+    this.startScreen.querySelector('#start-status')!.textContent = text;
+  }
+
+  public setLeaderboardCallback(callback: () => void): void {
+    this.onOpenLeaderboard = callback;
+  }
+
+  /** Level/mode filter changed on the leaderboard screen (mode null = all) */
+  public setLeaderboardFilterCallback(callback: (levelId: string, mode: RunMode | null) => void): void {
+    this.onLeaderboardFilter = callback;
+  }
+
+  public setPlayerNameCallback(callback: (name: string) => void): void {
+    this.onPlayerNameChange = callback;
+  }
+
+  public setLeaderboardExportCallback(callback: () => void): void {
+    this.onLeaderboardExport = callback;
+  }
+
+  /** Receives the text of the JSON file the player picked */
+  public setLeaderboardImportCallback(callback: (text: string) => void): void {
+    this.onLeaderboardImport = callback;
+  }
+
+  public showLeaderboard(view: LeaderboardView): void {
+    this.hideAll();
+    this.leaderboardScreen.classList.add('active');
+
+    const nameInput = this.leaderboardScreen.querySelector<HTMLInputElement>('#lb-name')!;
+    const levelSelect = this.leaderboardScreen.querySelector<HTMLSelectElement>('#lb-level')!;
+    const modeSelect = this.leaderboardScreen.querySelector<HTMLSelectElement>('#lb-mode')!;
+
+    nameInput.value = view.playerName;
+    levelSelect.innerHTML = view.levels
+      .map(level => `<option value="${escapeHtml(level.id)}">${escapeHtml(level.name)}</option>`)
+      .join('');
+    levelSelect.value = view.levelId;
+    modeSelect.value = view.mode ?? '';
+
+    this.leaderboardScreen.querySelector('#lb-top')!.innerHTML = this.renderLeaderboardTable(view.entries, true);
+    this.leaderboardScreen.querySelector('#lb-history')!.innerHTML = this.renderLeaderboardTable(view.history, false);
+  }
+
+  /**
+   * Shows the online scores for the current filter, or hides the section (null)
+   * when no leaderboard server is configured.
+   */
+  public showOnlineScores(view: OnlineScoresView | null): void {
+    const section = this.leaderboardScreen.querySelector<HTMLDivElement>('#lb-online')!;
+    section.style.display = view ? 'flex' : 'none';
+    if (!view) return;
+
+    section.querySelector('#lb-online-status')!.textContent = view.status;
+    section.querySelector('#lb-online-top')!.innerHTML = this.renderLeaderboardTable(view.top, true);
+    section.querySelector('#lb-online-around')!.innerHTML = this.renderLeaderboardTable(view.aroundMe, true);
+  }
+
+  /** One-line feedback under the leaderboard (e.g. import results) */
+  public setLeaderboardStatus(text: string): void {
+    this.leaderboardScreen.querySelector('#lb-status')!.textContent = text;
+  }
+
+  public setSettingsCallback(callback: () => void): void {
+    this.onOpenSettings = callback;
+  }
+
+  /** A control on the settings screen changed (only the changed keys are passed) */
+  public setSettingsChangeCallback(callback: (changes: Partial<GameSettings>) => void): void {
+    this.onSettingsChange = callback;
+  }
+
+  public setSettingsResetCallback(callback: () => void): void {
+    this.onSettingsReset = callback;
+  }
+
+  /**
+   * Opens the settings screen (BACK returns to the pause menu if it was opened from there).
+   * Also used to refresh the controls after a reset.
+   */
+  public showSettings(settings: GameSettings): void {
+    // Returning from calibration keeps where settings were opened from
+    if (this.pauseScreen.classList.contains('active')) this.settingsOpenedFromPause = true;
+    if (this.startScreen.classList.contains('active')) this.settingsOpenedFromPause = false;
+    this.hideAll();
+    if (this.settingsOpenedFromPause) this.hudContainer.style.display = 'block';
+    this.settingsScreen.classList.add('active');
+
+    SETTING_SLIDERS.forEach(({ key, format }) => {
+      this.settingsScreen.querySelector<HTMLInputElement>(`#set-${key}`)!.value = String(settings[key]);
+      this.settingsScreen.querySelector(`#set-${key}-value`)!.textContent = format(settings[key]);
+    });
+    SETTING_TOGGLES.forEach(({ key }) => {
+      this.settingsScreen.querySelector<HTMLInputElement>(`#set-${key}`)!.checked = settings[key];
+    });
+    this.settingsScreen.querySelector<HTMLSelectElement>('#set-graphicsQuality')!.value = settings.graphicsQuality;
+    this.settingsScreen.querySelector<HTMLSelectElement>('#set-tiltInput')!.value = settings.tiltInput;
+    this.settingsScreen.querySelector<HTMLSelectElement>('#set-steering')!.value = settings.steering;
+    this.settingsScreen.querySelector<HTMLSelectElement>('#set-joystickStyle')!.value = settings.joystickStyle;
+    this.settingsScreen.querySelector('#set-neutral-value')!.textContent =
+      settings.neutralBeta === 0 && settings.neutralGamma === 0
+        ? 'Flat'
+        : `${settings.neutralBeta.toFixed(0)}° / ${settings.neutralGamma.toFixed(0)}°`;
+  }
+
+  /** Pause menu or settings "Calibrate": the caller starts sampling and shows the calibration screen */
+  public setCalibrateCallback(callback: (from: 'pause' | 'settings') => void): void {
+    this.onCalibrate = callback;
+  }
+
+  public setCalibrationCancelCallback(callback: () => void): void {
+    this.onCalibrationCancel = callback;
+  }
+
+  /** "Use flat": drop the calibration (device lying flat is neutral) */
+  public setCalibrationFlatCallback(callback: () => void): void {
+    this.onCalibrationFlat = callback;
+  }
+
+  public showCalibration(): void {
+    this.hideAll();
+    this.calibrationScreen.classList.add('active');
+    this.updateCalibration(0, false);
+  }
+
+  /**
+   * @param progress - 0..1 share of the steady hold completed
+   * @param moved - The device moved, so the hold started over
+   */
+  public updateCalibration(progress: number, moved: boolean): void {
+    this.calibrationScreen.querySelector<HTMLDivElement>('#calib-fill')!.style.width = `${Math.round(progress * 100)}%`;
+    this.calibrationScreen.querySelector('#calib-status')!.textContent = moved ? 'Moved, starting over…' : 'Keep steady…';
+  }
+
+  /** Calibration can't run (no sensor data): the message replaces the progress */
+  public showCalibrationError(message: string): void {
+    this.calibrationScreen.querySelector<HTMLDivElement>('#calib-fill')!.style.width = '0%';
+    this.calibrationScreen.querySelector('#calib-status')!.textContent = message;
+  }
+
+  /** Portrait play (tilt is remapped to the screen either way); otherwise a rotate prompt blocks it */
+  public setPortraitAllowed(allowed: boolean): void {
+    this.portraitAllowed = allowed;
+    this.checkOrientation();
+  }
+
+  /** Shows which device is steering (the one used last) */
+  public setInputMode(mode: InputMode): void {
+    this.inputModeBadge.textContent = INPUT_MODE_LABELS[mode];
+  }
+
+  /** Mirrors the corner buttons for left-handed play */
+  public setLeftHanded(leftHanded: boolean): void {
+    document.body.classList.toggle('left-handed', leftHanded);
+  }
+
+  /** Keeps the mute button icon in sync when mute changes elsewhere (settings) */
+  public setMuted(muted: boolean): void {
+    this.muteBtn.textContent = muted ? '🔇' : '🔊';
+  }
+
+  public showLevelSelect(entries: LevelSelectEntry[]): void {
+    this.hideAll();
+    this.levelSelectScreen.classList.add('active');
+
+    const grid = this.levelSelectScreen.querySelector('#level-grid')!;
+    grid.innerHTML = '';
+
+    entries.forEach((entry, index) => {
+      const card = document.createElement('button');
+      card.className = entry.locked ? 'level-card locked' : 'level-card';
+      card.innerHTML = `
+        <div class="level-card-name">${entry.locked ? '🔒 ' : ''}${index + 1}. ${entry.name}</div>
+        <div class="level-stars">${this.renderStars(entry.stars)}</div>
+        <div class="level-card-meta">${entry.goalsRequired} rings · ${entry.timeLimit}s</div>
+        <div class="level-card-meta">Best: ${entry.highScore}</div>
+      `;
+      if (!entry.locked) {
+        card.addEventListener('click', () => {
+          if (this.onLevelSelected) this.onLevelSelected(entry.id);
+        });
+      }
+      grid.appendChild(card);
+    });
+  }
+
   public showStartScreen(): void {
     this.hideAll();
     this.startScreen.classList.add('active');
@@ -287,15 +1092,33 @@ export class GameUI {
   public showGameHUD(): void {
     this.hideAll();
     this.hudContainer.style.display = 'block';
+    this.pauseBtn.style.display = 'flex';
+  }
+
+  public showPauseScreen(): void {
+    this.hideAll();
+    // Keep the HUD visible underneath so the frozen timer/score stay readable
+    this.hudContainer.style.display = 'block';
+    this.pauseScreen.classList.add('active');
   }
 
-  public showWinScreen(score: number, timeRemaining: number): void {
+  /**
+   * @param timeBonus - Points actually awarded for the time left
+   * @param campaign - Star rating and whether a next level exists; omit outside the campaign.
+   */
+  public showWinScreen(score: number, timeBonus: number, campaign?: { stars: number, hasNextLevel: boolean }): void {
     this.hideAll();
     this.winModal.classList.add('active');
+
+    const starsEl = this.winModal.querySelector<HTMLDivElement>('#win-stars')!;
+    const nextBtn = this.winModal.querySelector<HTMLButtonElement>('#btn-next-level')!;
+    starsEl.textContent = campaign ? this.renderStars(campaign.stars) : '';
+    starsEl.style.display = campaign ? 'block' : 'none';
+    nextBtn.style.display = campaign?.hasNextLevel ? 'block' : 'none';
+    this.hideRunStats();
     
-    const bonus = Math.floor(timeRemaining * 100);
     this.winModal.querySelector('#win-score')!.textContent = score.toString();
-    this.winModal.querySelector('#win-bonus')!.textContent = `+${bonus}`;
+    this.winModal.querySelector('#win-bonus')!.textContent = `+${timeBonus}`;
   }
 
   public showGameOverScreen(score: number, collected: number, required: number): void {
@@ -304,9 +1127,58 @@ export class GameUI {
     
     this.gameOverModal.querySelector('#lose-score')!.textContent = score.toString();
     this.gameOverModal.querySelector('#lose-goals')!.textContent = `${collected}/${required}`;
+    this.hideRunStats();
+  }
+
+  /**
+   * Fills the statistics block of the win/lose screen (after the run's last step).
+   * @param best - The personal best run on this level, if any, to compare against
+   * @param rank - Leaderboard position the run earned, if any
+   */
+  public showRunStats(stats: RunStats, best: RunStats | null, rank: number | null = null): void {
+    const modal = stats.won ? this.winModal : this.gameOverModal;
+    const el = modal.querySelector<HTMLDivElement>('.run-stats')!;
+    const rankRow = rank !== null
+      ? `<div class="ui-stat-row"><span>Leaderboard</span><span class="ui-stat-val">#${rank}</span></div>`
+      : '';
+    el.innerHTML = rankRow + renderRunStats(stats, best);
+    el.style.display = 'block';
+  }
+
+  /** Adds the online leaderboard position once the submission has been answered */
+  public showOnlineRank(rank: number): void {
+    this.container.querySelectorAll<HTMLDivElement>('.run-stats').forEach(el => {
+      if (el.style.display !== 'block') return;
+      el.insertAdjacentHTML('afterbegin',
+        `<div class="ui-stat-row"><span>Online</span><span class="ui-stat-val">#${rank}</span></div>`);
+    });
+  }
+
+  private hideRunStats(): void {
+    this.container.querySelectorAll<HTMLDivElement>('.run-stats').forEach(el => {
+      el.style.display = 'none';
+    });
+  }
+
+  /**
+   * Popup for a collected ring: points, time change and any special effect.
+   */
+  public showGoalPopup(outcome: GoalOutcome, worldPosition: THREE.Vector3, camera: THREE.Camera): void {
+    const parts = [outcome.points >= 0 ? `+${outcome.points}` : `${outcome.points}`];
+    if (outcome.timeChange !== 0) {
+      parts.push(`${outcome.timeChange > 0 ? '+' : ''}${outcome.timeChange}s`);
+    }
+    if (outcome.combo > 1) parts.push(`COMBO x${outcome.combo}`);
+    if (outcome.type === 'multiplier') parts.push('x2!');
+
+    this.showPopup(parts.join(' '), GOAL_POPUP_COLORS[outcome.type], worldPosition, camera);
+  }
+
+  public showNearMissPopup(points: number, worldPosition: THREE.Vector3, camera: THREE.Camera): void {
+    this.showPopup(`NEAR MISS +${points}`, '#ff66cc', worldPosition, camera);
   }
 
-  public showScorePopup(amount: number, worldPosition: THREE.Vector3, camera: THREE.Camera): void {
+  private showPopup(text: string, color: string, worldPosition: THREE.Vector3, camera: THREE.Camera): void {
     // 1. Project 3D position to 2D Screen Coordinates
     const vector = worldPosition.clone().project(camera);
     
@@ -316,7 +1188,7 @@ export class GameUI {
     
     // 2. Create Element
     const popup = document.createElement('div');
-    popup.textContent = `+${amount}`;
+    popup.textContent = text;
     popup.style.cssText = `
       position: fixed;
       left: ${screenX}px;
@@ -324,12 +1196,13 @@ export class GameUI {
       font-family: 'Segoe UI', sans-serif;
       font-size: 2.5rem;
       font-weight: 800;
-      color: #ffaa00;
-      text-shadow: 0 0 15px rgba(255,170,0,0.8);
+      color: ${color};
+      text-shadow: 0 0 15px ${color};
       pointer-events: none;
       animation: scorePopup 1s ease-out forwards;
       z-index: 1001;
       transform: translate(-50%, -50%); /* Center on point */
+      white-space: nowrap;
     `;
     
     document.body.appendChild(popup);
@@ -342,7 +1215,13 @@ export class GameUI {
     this.startScreen.classList.remove('active');
     this.winModal.classList.remove('active');
     this.gameOverModal.classList.remove('active');
+    this.pauseScreen.classList.remove('active');
+    this.levelSelectScreen.classList.remove('active');
+    this.leaderboardScreen.classList.remove('active');
+    this.settingsScreen.classList.remove('active');
+    this.calibrationScreen.classList.remove('active');
     this.hudContainer.style.display = 'none';
+    this.pauseBtn.style.display = 'none';
   }
 
   // --- 4. HUD UPDATES ---
@@ -368,7 +1247,41 @@ export class GameUI {
     this.scoreElement.textContent = `Score: ${score}`;
   }
 
+  /**
+   * Combo meter: the current combo, the multiplier the next ring would get and how much
+   * of the combo window is left (0-1). Hidden when there is nothing to show.
+   */
+  public updateCombo(combo: number, multiplier: number, windowLeft: number): void {
+    const active = combo > 1 || multiplier > 1;
+    this.comboElement.style.display = active ? 'block' : 'none';
+    if (!active) return;
+
+    const label = `x${Number(multiplier.toFixed(2))}`;
+    this.comboLabelElement.textContent = combo > 1 ? `COMBO ${combo} · ${label}` : label;
+    this.comboFillElement.style.width = `${Math.round(windowLeft * 100)}%`;
+  }
+
   public updateProgress(collected: number, required: number): void {
     this.progressElement.textContent = `Goals: ${collected}/${required}`;
   }
-}
\ No newline at end of file
+
+  /**
+   * Split vs the ghost at the last ring: negative = ahead. Pass null to hide.
+   */
+  public updateGhostDelta(deltaSeconds: number | null): void {
+    if (deltaSeconds === null) {
+      this.ghostDeltaElement.style.display = 'none';
+      return;
+    }
+
+    const ahead = deltaSeconds <= 0;
+    const sign = ahead ? '-' : '+';
+    this.ghostDeltaElement.textContent = `👻 ${sign}${Math.abs(deltaSeconds).toFixed(2)}s ${ahead ? 'AHEAD' : 'BEHIND'}`;
+    this.ghostDeltaElement.style.color = ahead ? '#44ff88' : '#ff4444';
+    this.ghostDeltaElement.style.display = 'block';
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
@@ -1,60 +1,144 @@
+import { DEFAULT_PHYSICS_TUNING, PhysicsTuning } from '../core/PhysicsWorld';
+
+/** Live values shown while debug mode is on */
+export interface DebugReadout {
+  inputMode: string;
+  beta: number;              // Last sample from the steering device (degrees)
+  gamma: number;
+  sampleAgeMs: number | null; // Since that sample (null: none yet)
+  gravity: { x: number, z: number };
+  heroVelocity: { x: number, z: number }; // World units per second
+  frameMs: number;
+  step: number;              // Fixed physics steps since the run started
+  bodies: number;
+  movingBodies: number;      // Hero and movers
+}
+
+const TUNING_SLIDERS: Array<{ key: keyof PhysicsTuning, label: string, min: number, max: number, step: number }> = [
+  { key: 'heroFrictionAir', label: 'Air drag', min: 0, max: 0.3, step: 0.005 },
+  { key: 'heroFriction', label: 'Friction', min: 0, max: 0.5, step: 0.005 },
+  { key: 'heroRestitution', label: 'Bounce', min: 0, max: 1, step: 0.05 },
+  { key: 'maxHeroSpeed', label: 'Speed cap', min: 5, max: 40, step: 1 },
+  { key: 'gravityScale', label: 'Gravity scale', min: 0.0002, max: 0.003, step: 0.0001 }
+];
+
+/**
+ * HUD
+ * Responsibility: Developer overlay for debug mode (` key): live input, gravity, hero,
+ * frame and physics readouts, plus sliders that retune the physics while playing.
+ * Pure view: slider changes are forwarded to a callback.
+ */
 export class HUD {
+  private readonly FPS_SMOOTHING = 0.1; // Lerp per frame, so the FPS readout doesn't flicker
+
   private container: HTMLDivElement;
+  private readout: HTMLDivElement;
+  private tuningPanel: HTMLDivElement;
+  private smoothedFrameMs = 16.7;
+  private onTuningChange?: (changes: Partial<PhysicsTuning>) => void;
 
   constructor() {
     this.container = document.createElement('div');
-    
+    this.container.id = 'debug-hud';
+
     // Style the HUD container
     Object.assign(this.container.style, {
       position: 'absolute',
-      top: '10px',
+      top: '140px',
       left: '10px',
+      width: '230px',
       padding: '10px',
       fontFamily: '"Courier New", Courier, monospace',
-      fontSize: '14px',
+      fontSize: '13px',
       color: '#ffffff',
       backgroundColor: 'rgba(0, 0, 0, 0.6)',
       borderRadius: '4px',
       pointerEvents: 'none', // Let clicks pass through to canvas
       userSelect: 'none',
-      zIndex: '1000'
+      zIndex: '1500',        // Above the game UI so the sliders stay usable
+      display: 'none'
+    });
+
+    this.readout = document.createElement('div');
+    this.tuningPanel = document.createElement('div');
+    Object.assign(this.tuningPanel.style, {
+      marginTop: '8px',
+      paddingTop: '5px',
+      borderTop: '1px solid #555',
+      pointerEvents: 'auto'
     });
+    this.buildTuningPanel();
 
+    this.container.append(this.readout, this.tuningPanel);
     document.body.appendChild(this.container);
   }
 
-  public update(
-    beta: number, 
-    gamma: number, 
-    gravityMag: number, 
-    inputMode: string, 
-    debugMode: boolean
-  ): void {
-    const safeBeta = beta.toFixed(1);
-    const safeGamma = gamma.toFixed(1);
-    const safeMag = gravityMag.toFixed(2);
-
-    let html = `
-      <div><strong>MODE:</strong> ${inputMode}</div>
+  public setVisible(visible: boolean): void {
+    this.container.style.display = visible ? 'block' : 'none';
+  }
+
+  public setTuningCallback(callback: (changes: Partial<PhysicsTuning>) => void): void {
+    this.onTuningChange = callback;
+  }
+
+  /** Moves the sliders to the given values (without reporting a change) */
+  public setTuning(tuning: PhysicsTuning): void {
+    TUNING_SLIDERS.forEach(({ key }) => {
+      this.tuningPanel.querySelector<HTMLInputElement>(`#tune-${key}`)!.value = String(tuning[key]);
+      this.tuningPanel.querySelector(`#tune-${key}-value`)!.textContent = String(tuning[key]);
+    });
+  }
+
+  public update(readout: DebugReadout): void {
+    this.smoothedFrameMs += (readout.frameMs - this.smoothedFrameMs) * this.FPS_SMOOTHING;
+    const gravityMag = Math.hypot(readout.gravity.x, readout.gravity.z);
+    const speed = Math.hypot(readout.heroVelocity.x, readout.heroVelocity.z);
+    const age = readout.sampleAgeMs === null ? '—' : `${Math.round(readout.sampleAgeMs)}ms ago`;
+
+    this.readout.innerHTML = `
+      <div><strong>MODE:</strong> ${readout.inputMode} <span style="opacity: 0.6">(${age})</span></div>
       <div style="margin-top: 5px">
-        Beta (F/B): <span style="color:${Math.abs(beta) > 80 ? 'red' : 'white'}">${safeBeta}°</span><br>
-        Gamma (L/R): ${safeGamma}°
+        Beta (F/B): <span style="color:${Math.abs(readout.beta) > 80 ? 'red' : 'white'}">${readout.beta.toFixed(1)}°</span><br>
+        Gamma (L/R): ${readout.gamma.toFixed(1)}°
       </div>
       <div style="margin-top: 5px; border-top: 1px solid #555; padding-top: 5px;">
-        Gravity: ${safeMag} m/s²
+        Gravity: ${gravityMag.toFixed(2)} (${readout.gravity.x.toFixed(2)}, ${readout.gravity.z.toFixed(2)})<br>
+        Hero: ${speed.toFixed(2)} u/s (${readout.heroVelocity.x.toFixed(2)}, ${readout.heroVelocity.z.toFixed(2)})
+      </div>
+      <div style="margin-top: 5px; border-top: 1px solid #555; padding-top: 5px;">
+        FPS: ${(1000 / this.smoothedFrameMs).toFixed(0)} (${this.smoothedFrameMs.toFixed(1)}ms)<br>
+        Step: ${readout.step}<br>
+        Bodies: ${readout.bodies} (${readout.movingBodies} moving)
+      </div>
+      <div style="margin-top: 5px; color: #ffff00; font-size: 0.9em">
+        [DEBUG ACTIVE] \` to toggle, Space to reset
       </div>
     `;
+  }
+
+  private buildTuningPanel(): void {
+    const sliders = TUNING_SLIDERS.map(({ key, label, min, max, step }) => `
+      <label for="tune-${key}" style="display: flex; justify-content: space-between">
+        <span>${label}</span><span id="tune-${key}-value"></span>
+      </label>
+      <input type="range" id="tune-${key}" min="${min}" max="${max}" step="${step}" style="width: 100%" />`).join('');
+    this.tuningPanel.innerHTML = `
+      <div style="margin-bottom: 4px"><strong>PHYSICS TUNING</strong></div>
+      ${sliders}
+      <button id="tune-reset" style="margin-top: 4px; width: 100%">Reset to defaults</button>
+    `;
 
-    if (debugMode) {
-      html += `
-        <div style="margin-top: 8px; color: #ffff00; font-size: 0.9em">
-          [DEBUG ACTIVE]<br>
-          Press 'D' to toggle<br>
-          Space to Reset
-        </div>
-      `;
-    }
-
-    this.container.innerHTML = html;
+    TUNING_SLIDERS.forEach(({ key }) => {
+      const input = this.tuningPanel.querySelector<HTMLInputElement>(`#tune-${key}`)!;
+      input.addEventListener('input', () => {
+        this.tuningPanel.querySelector(`#tune-${key}-value`)!.textContent = input.value;
+        if (this.onTuningChange) this.onTuningChange({ [key]: Number(input.value) });
+      });
+    });
+    this.tuningPanel.querySelector('#tune-reset')!.addEventListener('click', () => {
+      this.setTuning({ ...DEFAULT_PHYSICS_TUNING });
+      if (this.onTuningChange) this.onTuningChange({ ...DEFAULT_PHYSICS_TUNING });
+    });
+    this.setTuning({ ...DEFAULT_PHYSICS_TUNING });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,133 @@
+/**
+ * ReplayControls
+ * Responsibility: Transport bar shown while watching a replay (play/pause, speed, scrub, save, exit).
+ * Pure view: every action is forwarded to callbacks, state is pushed in via update().
+ */
+export class ReplayControls {
+  private container: HTMLDivElement;
+  private playBtn: HTMLButtonElement;
+  private speedBtn: HTMLButtonElement;
+  private scrubber: HTMLInputElement;
+  private timeLabel: HTMLSpanElement;
+
+  private isScrubbing = false;
+  private timestep = 1000 / 60;
+
+  // Callbacks
+  private onTogglePlay?: () => void;
+  private onToggleSpeed?: () => void;
+  private onSeek?: (frame: number) => void;
+  private onDownload?: () => void;
+  private onExit?: () => void;
+
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.id = 'replay-controls';
+    Object.assign(this.container.style, {
+      position: 'fixed',
+      left: '50%',
+      bottom: '20px',
+      transform: 'translateX(-50%)',
+      display: 'none',
+      alignItems: 'center',
+      gap: '12px',
+      padding: '10px 16px',
+      width: 'min(90%, 640px)',
+      background: 'rgba(0, 0, 0, 0.7)',
+      border: '1px solid rgba(255, 255, 255, 0.2)',
+      borderRadius: '30px',
+      color: '#ffffff',
+      fontFamily: "'Segoe UI', Roboto, Helvetica, Arial, sans-serif",
+      zIndex: '2000',
+      pointerEvents: 'auto'
+    });
+
+    this.container.innerHTML = `
+      <span style="color:#ff4444; font-weight:bold;">● REPLAY</span>
+      <button data-action="play" title="Play/Pause">⏸</button>
+      <button data-action="speed" title="Playback speed">1x</button>
+      <input type="range" min="0" max="0" value="0" step="1" style="flex:1;" />
+      <span data-role="time" style="font-family:monospace; min-width:5em; text-align:right;">0.0s</span>
+      <button data-action="download" title="Save replay file">💾</button>
+      <button data-action="exit" title="Exit replay">✕</button>
+    `;
+
+    this.container.querySelectorAll('button').forEach(btn => {
+      Object.assign(btn.style, {
+        background: 'rgba(255,255,255,0.1)',
+        border: '1px solid rgba(255,255,255,0.3)',
+        borderRadius: '20px',
+        color: 'white',
+        padding: '4px 12px',
+        cursor: 'pointer',
+        fontSize: '1rem'
+      });
+    });
+
+    this.playBtn = this.container.querySelector('[data-action="play"]')!;
+    this.speedBtn = this.container.querySelector('[data-action="speed"]')!;
+    this.scrubber = this.container.querySelector('input')!;
+    this.timeLabel = this.container.querySelector('[data-role="time"]')!;
+
+    this.playBtn.onclick = () => this.onTogglePlay?.();
+    this.speedBtn.onclick = () => this.onToggleSpeed?.();
+    this.container.querySelector<HTMLButtonElement>('[data-action="download"]')!.onclick = () => this.onDownload?.();
+    this.container.querySelector<HTMLButtonElement>('[data-action="exit"]')!.onclick = () => this.onExit?.();
+
+    // Seek on release only: each seek re-simulates from step 0
+    this.scrubber.addEventListener('input', () => {
+      this.isScrubbing = true;
+      this.timeLabel.textContent = this.formatTime(Number(this.scrubber.value));
+    });
+    this.scrubber.addEventListener('change', () => {
+      this.isScrubbing = false;
+      this.onSeek?.(Number(this.scrubber.value));
+    });
+
+    // Keep drags on the bar from steering the ball via the pointer fallback
+    ['mousedown', 'touchstart'].forEach(type => {
+      this.container.addEventListener(type, (e) => e.stopPropagation());
+    });
+
+    document.body.appendChild(this.container);
+  }
+
+  public setCallbacks(callbacks: {
+    onTogglePlay: () => void;
+    onToggleSpeed: () => void;
+    onSeek: (frame: number) => void;
+    onDownload: () => void;
+    onExit: () => void;
+  }): void {
+    this.onTogglePlay = callbacks.onTogglePlay;
+    this.onToggleSpeed = callbacks.onToggleSpeed;
+    this.onSeek = callbacks.onSeek;
+    this.onDownload = callbacks.onDownload;
+    this.onExit = callbacks.onExit;
+  }
+
+  public show(frameCount: number, timestep: number): void {
+    this.timestep = timestep;
+    this.scrubber.max = frameCount.toString();
+    this.container.style.display = 'flex';
+  }
+
+  public hide(): void {
+    this.container.style.display = 'none';
+  }
+
+  /**
+   * Pushes the player's current state into the bar (call every frame while visible).
+   */
+  public update(frame: number, playing: boolean, speed: number): void {
+    this.playBtn.textContent = playing ? '⏸' : '▶';
+    this.speedBtn.textContent = `${speed}x`;
+    if (this.isScrubbing) return;
+    this.scrubber.value = frame.toString();
+    this.timeLabel.textContent = this.formatTime(frame);
+  }
+
+  private formatTime(frame: number): string {
+    return `${((frame * this.timestep) / 1000).toFixed(1)}s`;
+  }
+}
@@ -0,0 +1,97 @@
+import { RunStats } from '../core/RunStats';
+import { ScoreEventKind } from '../core/ScoringEngine';
+
+/** Results-screen label for each kind of score event, in display order */
+const BREAKDOWN_LABELS: Record<ScoreEventKind, string> = {
+  ring: 'Rings',
+  combo: 'Combos',
+  multiplier: 'Multipliers',
+  wallFree: 'Clean streaks',
+  nearMiss: 'Near misses',
+  decoy: 'Decoys',
+  timeBonus: 'Time bonus'
+};
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 70;
+
+/**
+ * HTML for the statistics block of the win/lose screens: movement stats, score
+ * breakdown, split chart and comparison with the personal best (if any).
+ */
+export function renderRunStats(stats: RunStats, best: RunStats | null): string {
+  const rows = [
+    statRow('Time', `${stats.duration.toFixed(1)}s`),
+    statRow('Distance', `${stats.distance.toFixed(1)} m`),
+    statRow('Top Speed', `${stats.topSpeed.toFixed(1)} m/s`),
+    statRow('Wall Hits', `${stats.wallHits}`),
+    statRow('Full Tilt', `${stats.maxTiltTime.toFixed(1)}s`)
+  ];
+
+  const breakdown = (Object.keys(BREAKDOWN_LABELS) as ScoreEventKind[])
+    .filter(kind => stats.breakdown[kind] !== undefined)
+    .map(kind => statRow(BREAKDOWN_LABELS[kind], signed(stats.breakdown[kind]!)));
+
+  return `
+    <div class="run-stats-grid">${rows.join('')}</div>
+    ${breakdown.length > 0 ? `<div class="run-stats-heading">Score Breakdown</div>${breakdown.join('')}` : ''}
+    ${stats.splits.length > 0 ? `<div class="run-stats-heading">Ring Splits</div>${renderSplitChart(stats, best)}` : ''}
+    ${best ? renderComparison(stats, best) : ''}
+  `;
+}
+
+/**
+ * Bar per ring: time taken since the previous ring. Ticks mark the personal best's segments.
+ */
+export function renderSplitChart(stats: RunStats, best: RunStats | null): string {
+  const segments = toSegments(stats.splits);
+  const bestSegments = best ? toSegments(best.splits) : [];
+  const count = Math.max(segments.length, 1);
+  const longest = Math.max(...segments, ...bestSegments, 0.001);
+  const slot = CHART_WIDTH / count;
+  const barWidth = Math.max(2, slot * 0.6);
+  const height = (seconds: number) => (seconds / longest) * (CHART_HEIGHT - 4);
+
+  const bars = segments.map((seconds, i) => {
+    const h = height(seconds);
+    const x = i * slot + (slot - barWidth) / 2;
+    const slower = bestSegments[i] !== undefined && seconds > bestSegments[i];
+    return `<rect x="${x.toFixed(1)}" y="${(CHART_HEIGHT - h).toFixed(1)}" width="${barWidth.toFixed(1)}" height="${h.toFixed(1)}"`
+      + ` fill="${slower ? '#ff6666' : '#44ff88'}"><title>Ring ${i + 1}: ${seconds.toFixed(2)}s</title></rect>`;
+  });
+
+  const ticks = bestSegments.slice(0, count).map((seconds, i) => {
+    const y = (CHART_HEIGHT - height(seconds)).toFixed(1);
+    return `<line x1="${(i * slot).toFixed(1)}" x2="${((i + 1) * slot).toFixed(1)}" y1="${y}" y2="${y}" stroke="#ffaa00" stroke-width="2"/>`;
+  });
+
+  return `<svg class="split-chart" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" width="${CHART_WIDTH}" height="${CHART_HEIGHT}">`
+    + `${bars.join('')}${ticks.join('')}</svg>`;
+}
+
+function renderComparison(stats: RunStats, best: RunStats): string {
+  const rows = [statRow('Score vs Best', signed(stats.score - best.score))];
+
+  // Split comparison at the last ring both runs reached
+  const ring = Math.min(stats.splits.length, best.splits.length);
+  if (ring > 0) {
+    const delta = stats.splits[ring - 1] - best.splits[ring - 1];
+    const label = ring === best.splits.length && stats.won ? 'Finish vs Best' : `Ring ${ring} vs Best`;
+    rows.push(statRow(label, `${delta > 0 ? '+' : ''}${delta.toFixed(2)}s`, delta <= 0 ? '#44ff88' : '#ff6666'));
+  }
+
+  return `<div class="run-stats-heading">Personal Best</div>${rows.join('')}`;
+}
+
+function toSegments(splits: number[]): number[] {
+  return splits.map((time, i) => time - (i > 0 ? splits[i - 1] : 0));
+}
+
+function signed(value: number): string {
+  return value >= 0 ? `+${value}` : `${value}`;
+}
+
+function statRow(label: string, value: string, color?: string): string {
+  const style = color ? ` style="color: ${color}"` : '';
+  return `<div class="ui-stat-row"><span>${label}</span><span class="ui-stat-val"${style}>${value}</span></div>`;
+}
@@ -0,0 +1,177 @@
+import { JoystickStyle } from '../core/Settings';
+
+/**
+ * VirtualJoystick
+ * Responsibility: Rendered on-screen joystick (base + knob) for touch and mouse play.
+ * Knob travel is limited to RADIUS; the displacement is reported normalized to -1..1
+ * (y down). Only the pointer that grabbed the stick is tracked, so other fingers can
+ * still press UI buttons. Pure view: movement is forwarded to a callback.
+ */
+export class VirtualJoystick {
+  private readonly RADIUS = 60;          // Knob travel in px
+  private readonly FIXED_MARGIN = 40;    // Fixed base inset from the screen corner
+  private readonly FIXED_GRAB_RADIUS = 2; // Fixed style: grab within this many RADIUS of the base
+
+  private zone: HTMLDivElement;
+  private base: HTMLDivElement;
+  private knob: HTMLDivElement;
+
+  private style: JoystickStyle = 'floating'; // Floating: the base appears under the finger
+  private leftSide = false;
+  private enabled = false;
+  private pointerId: number | null = null;
+  private centerX = 0;
+  private centerY = 0;
+
+  private onMove: ((x: number, y: number) => void) | null = null;
+  private controller = new AbortController();
+
+  constructor() {
+    // Full-screen touch zone below the game UI (z-index 1000), above the canvas
+    this.zone = document.createElement('div');
+    this.zone.id = 'joystick-zone';
+    Object.assign(this.zone.style, {
+      position: 'fixed',
+      inset: '0',
+      zIndex: '900',
+      display: 'none',
+      touchAction: 'none'
+    });
+
+    const size = this.RADIUS * 2;
+    this.base = document.createElement('div');
+    Object.assign(this.base.style, {
+      position: 'absolute',
+      width: `${size}px`,
+      height: `${size}px`,
+      marginLeft: `${-this.RADIUS}px`,
+      marginTop: `${-this.RADIUS}px`,
+      borderRadius: '50%',
+      border: '2px solid rgba(255, 255, 255, 0.35)',
+      background: 'rgba(255, 255, 255, 0.08)',
+      pointerEvents: 'none',
+      transition: 'opacity 0.15s'
+    });
+
+    this.knob = document.createElement('div');
+    Object.assign(this.knob.style, {
+      position: 'absolute',
+      left: `${this.RADIUS - 25}px`,
+      top: `${this.RADIUS - 25}px`,
+      width: '50px',
+      height: '50px',
+      borderRadius: '50%',
+      background: 'rgba(68, 136, 255, 0.8)',
+      boxShadow: '0 0 15px rgba(68, 136, 255, 0.6)'
+    });
+
+    this.base.appendChild(this.knob);
+    this.zone.appendChild(this.base);
+    document.body.appendChild(this.zone);
+
+    this.zone.addEventListener('pointerdown', (e) => this.handleDown(e));
+    this.zone.addEventListener('pointermove', (e) => this.handleMove(e));
+    this.zone.addEventListener('pointerup', (e) => this.handleUp(e));
+    this.zone.addEventListener('pointercancel', (e) => this.handleUp(e));
+    window.addEventListener('resize', () => this.layout(), { signal: this.controller.signal });
+    this.layout();
+  }
+
+  /** Removes the overlay and its window listener */
+  public dispose(): void {
+    this.release();
+    this.controller.abort();
+    this.zone.remove();
+  }
+
+  /** Called with the knob displacement, -1..1 per axis (y down); 0, 0 on release */
+  public setMoveCallback(callback: ((x: number, y: number) => void) | null): void {
+    this.onMove = callback;
+  }
+
+  public setEnabled(enabled: boolean): void {
+    if (enabled === this.enabled) return;
+    this.enabled = enabled;
+    this.zone.style.display = enabled ? 'block' : 'none';
+    if (!enabled) this.release();
+  }
+
+  public setStyle(style: JoystickStyle): void {
+    this.style = style;
+    this.release();
+  }
+
+  /** Fixed base corner: bottom-left for left-handed players, otherwise bottom-right */
+  public setLeftSide(leftSide: boolean): void {
+    this.leftSide = leftSide;
+    this.layout();
+  }
+
+  private handleDown(e: PointerEvent): void {
+    if (this.pointerId !== null) return; // Already held by another finger
+
+    if (this.style === 'fixed') {
+      const grab = this.RADIUS * this.FIXED_GRAB_RADIUS;
+      if (Math.hypot(e.clientX - this.centerX, e.clientY - this.centerY) > grab) return;
+    } else {
+      this.centerX = e.clientX;
+      this.centerY = e.clientY;
+      this.placeBase();
+    }
+
+    e.preventDefault();
+    this.pointerId = e.pointerId;
+    this.zone.setPointerCapture?.(e.pointerId);
+    this.base.style.opacity = '1';
+    this.handleMove(e);
+  }
+
+  private handleMove(e: PointerEvent): void {
+    if (e.pointerId !== this.pointerId) return;
+
+    // 1. RADIUS-LIMITED TRAVEL
+    let dx = e.clientX - this.centerX;
+    let dy = e.clientY - this.centerY;
+    const distance = Math.hypot(dx, dy);
+    if (distance > this.RADIUS) {
+      dx *= this.RADIUS / distance;
+      dy *= this.RADIUS / distance;
+    }
+
+    // 2. VISUAL + OUTPUT
+    this.knob.style.transform = `translate(${dx}px, ${dy}px)`;
+    if (this.onMove) this.onMove(dx / this.RADIUS, dy / this.RADIUS);
+  }
+
+  private handleUp(e: PointerEvent): void {
+    if (e.pointerId !== this.pointerId) return;
+    this.release();
+  }
+
+  private release(): void {
+    const wasHeld = this.pointerId !== null;
+    this.pointerId = null;
+    this.knob.style.transform = '';
+    this.layout();
+    if (wasHeld && this.onMove) this.onMove(0, 0);
+  }
+
+  /** Resting state: fixed base in its corner, floating base hidden until touched */
+  private layout(): void {
+    if (this.pointerId !== null) return;
+    if (this.style === 'fixed') {
+      const inset = this.FIXED_MARGIN + this.RADIUS;
+      this.centerX = this.leftSide ? inset : window.innerWidth - inset;
+      this.centerY = window.innerHeight - inset;
+      this.placeBase();
+      this.base.style.opacity = '0.6';
+    } else {
+      this.base.style.opacity = '0';
+    }
+  }
+
+  private placeBase(): void {
+    this.base.style.left = `${this.centerX}px`;
+    this.base.style.top = `${this.centerY}px`;
+  }
+}